@@ -14,6 +14,7 @@ import {
   createCustomToken
 } from '../firebase';
 import config from '../config';
+import { authenticateToken, tokensMatch } from '../auth';
 import { ApiResponse, AuthenticatedUser } from '../types';
 
 const router = Router();
@@ -332,31 +333,8 @@ export async function verifyAuthToken(req: Request, res: Response, next: NextFun
       } as ApiResponse);
     }
 
-    const token = authHeader.substring(7);
-    
-    // Intentar verificar como token Firebase primero
-    try {
-      const decodedToken = await verifyFirebaseToken(token);
-      (req as any).user = {
-        uid: decodedToken.uid,
-        email: decodedToken.email,
-        emailVerified: decodedToken.email_verified
-      };
-      return next();
-    } catch (firebaseError) {
-      // Si falla Firebase, intentar JWT interno
-      try {
-        const decoded = jwt.verify(token, config.jwt.secret) as any;
-        (req as any).user = {
-          uid: decoded.uid,
-          email: decoded.email,
-          subscription: decoded.subscription
-        };
-        return next();
-      } catch (jwtError) {
-        throw new Error('Token inválido');
-      }
-    }
+    (req as any).user = await authenticateToken(authHeader.substring(7));
+    return next();
 
   } catch (error) {
     console.error('❌ Error verificando token:', error);
@@ -368,4 +346,59 @@ export async function verifyAuthToken(req: Request, res: Response, next: NextFun
   }
 }
 
-export default router; 
\ No newline at end of file
+// Petición que pasó verifyAdminToken: quién actúa, para el log de auditoría
+export interface AdminRequest extends Request {
+  adminActor?: string;
+}
+
+/**
+ * MIDDLEWARE - Verificar el token de operación (ADMIN_API_TOKEN)
+ *
+ * El token es compartido: quien actúa se identifica con X-Admin-Actor para el log de auditoría.
+ */
+export function verifyAdminToken(req: AdminRequest, res: Response, next: NextFunction) {
+  if (!config.admin.apiToken) {
+    return res.status(503).json({
+      success: false,
+      error: 'Endpoints de administración deshabilitados (ADMIN_API_TOKEN no configurado)',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+
+  if (!hasBearerToken(req, config.admin.apiToken)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Token de administración inválido',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+
+  req.adminActor = req.get('X-Admin-Actor') || 'admin';
+  next();
+}
+
+/**
+ * MIDDLEWARE - Verificar el token de scrape de /metrics (METRICS_TOKEN)
+ *
+ * Sin token configurado las métricas son públicas, como es habitual en Prometheus.
+ */
+export function verifyMetricsToken(req: Request, res: Response, next: NextFunction) {
+  if (config.metrics.token && !hasBearerToken(req, config.metrics.token)) {
+    return res.status(401).json({
+      success: false,
+      error: 'Token de métricas inválido',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+  next();
+}
+
+/**
+ * Comparar el token Bearer de la petición en tiempo constante
+ */
+function hasBearerToken(req: Request, expectedToken: string): boolean {
+  const authHeader = req.headers.authorization;
+  return tokensMatch(authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '', expectedToken);
+}
+
+export default router;
@@ -0,0 +1,205 @@
+/**
+ * CANAL EN VIVO - WebSocket sobre el mismo servidor HTTP
+ *
+ * - /api/vpn/live: eventos de los dispositivos del usuario autenticado (token
+ *   Firebase o JWT interno)
+ * - /api/vpn/live/admin: todos los eventos, con ADMIN_API_TOKEN
+ *
+ * El token va en `Authorization: Bearer` o, para clientes que no pueden
+ * enviar cabeceras en el upgrade, en `?token=`. Al reconectar, `?since=<seq>&epoch=<epoch>`
+ * (los del último mensaje recibido) reenvía lo perdido; si no es posible el
+ * hello llega con `resumed: false` y el cliente debe recargar el estado por la API.
+ *
+ * Mensajes del servidor (JSON):
+ *   { type: 'hello', epoch, seq, channel, resumed, heartbeatIntervalMs }
+ *   { type: 'event', event: 'peer-status' | 'traffic' | 'quota-warning' | 'disconnected', seq, userId, deviceId, instance, data, timestamp }
+ *   { type: 'heartbeat', seq, timestamp }
+ */
+
+import { IncomingMessage, STATUS_CODES, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer } from 'ws';
+import config from '../config';
+import { authenticateToken, isAdminToken } from '../auth';
+import { LiveEvent } from '../types';
+import { LiveEventHub } from '../vpn/LiveEventHub';
+
+export const LIVE_PATH = '/api/vpn/live';
+export const LIVE_ADMIN_PATH = '/api/vpn/live/admin';
+
+// Un cliente que no consume sus mensajes se desconecta (puede reanudar después)
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+interface LiveClient {
+  socket: WebSocket;
+  /** undefined = canal de administración (todos los usuarios) */
+  userId?: string;
+  alive: boolean;
+  unsubscribe: () => void;
+}
+
+export interface LiveChannelOptions {
+  heartbeatIntervalMs?: number;
+}
+
+class UpgradeError extends Error {
+  constructor(public readonly statusCode: number, message: string) {
+    super(message);
+    this.name = 'UpgradeError';
+  }
+}
+
+export class LiveChannel {
+  private hub: LiveEventHub;
+  private heartbeatIntervalMs: number;
+  private wss: WebSocketServer = new WebSocketServer({ noServer: true });
+  private clients: Set<LiveClient> = new Set();
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(hub: LiveEventHub, options: LiveChannelOptions = {}) {
+    this.hub = hub;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 30000;
+  }
+
+  /**
+   * Atender los upgrades del servidor HTTP en las rutas del canal
+   */
+  attach(server: Server): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      this.handleUpgrade(req, socket, head).catch(error => {
+        const statusCode = error instanceof UpgradeError ? error.statusCode : 500;
+        if (!(error instanceof UpgradeError)) {
+          console.error('❌ Error en el upgrade del canal en vivo:', error);
+        }
+        rejectUpgrade(socket, statusCode, error instanceof UpgradeError ? error.message : 'Error interno');
+      });
+    });
+
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatIntervalMs);
+    console.log(`✅ Canal en vivo en ${LIVE_PATH} y ${LIVE_ADMIN_PATH} (heartbeat cada ${this.heartbeatIntervalMs / 1000} s)`);
+  }
+
+  close(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    for (const client of this.clients) {
+      client.socket.close(1001, 'Servidor cerrando');
+    }
+    this.wss.close();
+  }
+
+  private async handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== LIVE_PATH && url.pathname !== LIVE_ADMIN_PATH) {
+      throw new UpgradeError(404, 'Ruta desconocida');
+    }
+
+    const authHeader = req.headers.authorization;
+    const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : url.searchParams.get('token');
+    if (!token) {
+      throw new UpgradeError(401, 'Token de autorización requerido');
+    }
+
+    let userId: string | undefined;
+    if (url.pathname === LIVE_ADMIN_PATH) {
+      if (!config.admin.apiToken) throw new UpgradeError(503, 'ADMIN_API_TOKEN no configurado');
+      if (!isAdminToken(token)) throw new UpgradeError(401, 'Token de administración inválido');
+    } else {
+      try {
+        userId = (await authenticateToken(token)).uid;
+      } catch (error) {
+        throw new UpgradeError(401, 'Token inválido o expirado');
+      }
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => this.accept(ws, userId, url.searchParams));
+  }
+
+  private accept(socket: WebSocket, userId: string | undefined, params: URLSearchParams): void {
+    const filter = (event: LiveEvent) => userId === undefined || event.userId === userId;
+
+    // Hello, reenvío y suscripción sin ceder el turno: ningún evento queda entre medias
+    const since = params.has('since') ? parseInt(params.get('since') || '', 10) : NaN;
+    const missed = !isNaN(since) && params.get('epoch') === this.hub.epoch
+      ? this.hub.replay(since, filter)
+      : undefined;
+
+    const client: LiveClient = { socket, userId, alive: true, unsubscribe: () => undefined };
+
+    send(socket, {
+      type: 'hello',
+      epoch: this.hub.epoch,
+      seq: this.hub.lastSeq,
+      channel: userId === undefined ? 'admin' : 'user',
+      resumed: !!missed,
+      heartbeatIntervalMs: this.heartbeatIntervalMs
+    });
+    missed?.forEach(event => this.deliver(client, event));
+
+    client.unsubscribe = this.hub.subscribe(event => {
+      if (filter(event)) this.deliver(client, event);
+    });
+    this.clients.add(client);
+
+    socket.on('pong', () => { client.alive = true; });
+    socket.on('close', () => this.remove(client));
+    socket.on('error', error => {
+      console.error('⚠️ Error en cliente del canal en vivo:', error);
+      this.remove(client);
+    });
+  }
+
+  private deliver(client: LiveClient, event: LiveEvent): void {
+    if (client.socket.readyState !== WebSocket.OPEN) return;
+
+    if (client.socket.bufferedAmount > MAX_BUFFERED_BYTES) {
+      client.socket.terminate();
+      this.remove(client);
+      return;
+    }
+    const { type, ...fields } = event;
+    send(client.socket, { type: 'event', event: type, ...fields });
+  }
+
+  /**
+   * Ping a nivel WebSocket (cierra los que no respondieron al anterior) y
+   * heartbeat con la última secuencia para los clientes que no ven los pings
+   */
+  private heartbeat(): void {
+    for (const client of this.clients) {
+      if (!client.alive) {
+        client.socket.terminate();
+        this.remove(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+      send(client.socket, { type: 'heartbeat', seq: this.hub.lastSeq, timestamp: new Date() });
+    }
+  }
+
+  private remove(client: LiveClient): void {
+    client.unsubscribe();
+    this.clients.delete(client);
+  }
+}
+
+function send(socket: WebSocket, message: Record<string, unknown>): void {
+  socket.send(JSON.stringify(message));
+}
+
+/**
+ * Responder al upgrade con un error HTTP y cerrar el socket
+ */
+function rejectUpgrade(socket: Duplex, statusCode: number, message: string): void {
+  const body = JSON.stringify({ success: false, error: message, timestamp: new Date() });
+  socket.end(
+    `HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode]}\r\n` +
+    'Connection: close\r\n' +
+    'Content-Type: application/json; charset=utf-8\r\n' +
+    `Content-Length: ${Buffer.byteLength(body)}\r\n\r\n` +
+    body
+  );
+}
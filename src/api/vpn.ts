@@ -4,6 +4,9 @@
 
 import { Router, Request, Response } from 'express';
 import { ApiResponse } from '../types';
+import { describeInstance } from '../vpn/WireGuardInstance';
+import { AdminRequest, verifyAdminToken } from './auth';
+import { BanNotFoundError, InvalidBanError } from '../vpn/BanList';
 
 const router = Router();
 
@@ -184,15 +187,13 @@ router.get('/stats', async (req: Request, res: Response) => {
 });
 
 /**
- * Lista de servidores disponibles
+ * Lista de servidores disponibles: una entrada por instancia WireGuard
+ * (su id se pasa como `instance` al pedir la configuración)
  */
 router.get('/servers', async (req: Request, res: Response) => {
   try {
-    const servers = [
-      { id: 'us-ny', name: 'Estados Unidos (NY)', flag: '🇺🇸', address: '92.113.32.217', ping: 25, load: 45 },
-      { id: 'uk', name: 'Reino Unido', flag: '🇬🇧', address: '92.113.32.217', ping: 35, load: 60 },
-      { id: 'de', name: 'Alemania', flag: '🇩🇪', address: '92.113.32.217', ping: 40, load: 30 },
-    ];
+    const { getWireGuardInstances } = await import('../server');
+    const servers = await Promise.all(getWireGuardInstances().map(describeInstance));
 
     const response: ApiResponse = {
       success: true,
@@ -212,46 +213,236 @@ router.get('/servers', async (req: Request, res: Response) => {
 });
 
 /**
- * Diagnóstico del servidor VPN
+ * Diagnóstico del servidor VPN (sólo lectura)
+ *
+ * ?checks=firewall,ip-forwarding limita las comprobaciones y ?instance= la instancia.
+ * El código HTTP es 200 aunque haya fallos: el estado va en data.status y en cada check.
  */
-router.get('/diagnostic', async (req: Request, res: Response) => {
+router.get('/diagnostic', verifyAdminToken, async (req: Request, res: Response) => {
+  await respondDiagnostic(req, res, false);
+});
+
+/**
+ * Diagnóstico aplicando las correcciones disponibles
+ */
+router.post('/diagnostic/fix', verifyAdminToken, async (req: Request, res: Response) => {
+  await respondDiagnostic(req, res, true);
+});
+
+/**
+ * Peers que la limpieza retiraría ahora (inactivos y caducados), sin cambios
+ */
+router.get('/reaper', verifyAdminToken, async (req: Request, res: Response) => {
   try {
-    console.log('🔍 Ejecutando diagnóstico del servidor VPN...');
-    
-    // Importar dinámicamente el servidor WireGuard
-    const { getWireGuardServer } = await import('../server');
-    const wireGuardServer = getWireGuardServer();
-    
-    if (!wireGuardServer) {
-      return res.status(500).json({
+    const { getPeerReaper } = await import('../server');
+
+    const response: ApiResponse = {
+      success: true,
+      data: getPeerReaper().report(),
+      timestamp: new Date()
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Error obteniendo el informe de limpieza: ' + error,
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+/**
+ * Ejecutar la limpieza ahora (aunque el job periódico esté desactivado)
+ */
+router.post('/reaper/run', verifyAdminToken, async (req: Request, res: Response) => {
+  try {
+    const { getPeerReaper } = await import('../server');
+
+    const response: ApiResponse = {
+      success: true,
+      data: await getPeerReaper().run(),
+      timestamp: new Date()
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Error en la limpieza de peers:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error ejecutando la limpieza: ' + error,
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+/**
+ * Bloqueos vigentes (?all=true incluye los levantados y vencidos)
+ */
+router.get('/bans', verifyAdminToken, async (req: Request, res: Response) => {
+  try {
+    const { getBanList } = await import('../server');
+
+    const response: ApiResponse = {
+      success: true,
+      data: getBanList().list(req.query.all === 'true'),
+      timestamp: new Date()
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('❌ Error listando bloqueos:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error listando bloqueos',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+/**
+ * Bloquear un usuario (`userId`), un dispositivo (`userId` + `deviceId`) o una `publicKey`
+ *
+ * Revoca al momento los dispositivos afectados en todas las instancias.
+ */
+router.post('/bans', verifyAdminToken, async (req: AdminRequest, res: Response) => {
+  try {
+    const { userId, deviceId, publicKey, reason, expiresAt } = req.body;
+    const { addBan } = await import('../server');
+
+    for (const [field, value] of Object.entries({ userId, deviceId, publicKey, reason, expiresAt })) {
+      if (value !== undefined && typeof value !== 'string') {
+        throw new InvalidBanError(`${field} debe ser un string`);
+      }
+    }
+
+    const result = await addBan({
+      userId,
+      deviceId,
+      publicKey,
+      reason,
+      expiresAt: expiresAt ? new Date(expiresAt) : undefined
+    }, req.adminActor!);
+
+    const response: ApiResponse = {
+      success: true,
+      data: result,
+      timestamp: new Date()
+    };
+
+    res.status(201).json(response);
+
+  } catch (error) {
+    if (!(error instanceof InvalidBanError)) {
+      console.error('❌ Error creando bloqueo:', error);
+    }
+    res.status(error instanceof InvalidBanError ? 400 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error creando bloqueo',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+/**
+ * Levantar un bloqueo (los dispositivos revocados deben pedir de nuevo su configuración)
+ */
+router.delete('/bans/:id', verifyAdminToken, async (req: AdminRequest, res: Response) => {
+  try {
+    const { getBanList } = await import('../server');
+
+    const response: ApiResponse = {
+      success: true,
+      data: await getBanList().lift(req.params.id, req.adminActor!),
+      timestamp: new Date()
+    };
+
+    res.json(response);
+
+  } catch (error) {
+    if (!(error instanceof BanNotFoundError)) {
+      console.error('❌ Error levantando bloqueo:', error);
+    }
+    res.status(error instanceof BanNotFoundError ? 404 : 500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error levantando bloqueo',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+/**
+ * Fijar, ampliar o quitar (`expiresAt: null`) la caducidad de un dispositivo
+ */
+router.put('/devices/:userId/:deviceId/expiry', verifyAdminToken, async (req: AdminRequest, res: Response) => {
+  try {
+    const { expiresAt } = req.body;
+    const date = typeof expiresAt === 'string' ? new Date(expiresAt) : undefined;
+
+    if (expiresAt !== null && (!date || isNaN(date.getTime()))) {
+      return res.status(400).json({
         success: false,
-        error: 'Servidor WireGuard no inicializado',
+        error: 'expiresAt debe ser una fecha ISO 8601 o null',
         timestamp: new Date()
       } as ApiResponse);
     }
 
-    // Obtener estadísticas
-    const stats = await wireGuardServer.getConnectionStats();
-    const serverConfig = wireGuardServer.getServerConfig();
-    const isRunning = wireGuardServer.isRunning();
+    const { setDeviceExpiry } = await import('../server');
+    const instances = await setDeviceExpiry(req.params.userId, req.params.deviceId, date, req.adminActor!);
+
+    if (instances.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dispositivo no encontrado',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
 
     const response: ApiResponse = {
       success: true,
       data: {
-        server: {
-          running: isRunning,
-          publicKey: serverConfig.publicKey,
-          address: serverConfig.address,
-          port: serverConfig.port
-        },
-        connections: stats,
-        timestamp: new Date()
+        userId: req.params.userId,
+        deviceId: req.params.deviceId,
+        expiresAt: date || null,
+        instances
       },
       timestamp: new Date()
     };
 
     res.json(response);
-    console.log('✅ Diagnóstico completado');
+
+  } catch (error) {
+    console.error('❌ Error cambiando la caducidad del dispositivo:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error cambiando la caducidad',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+async function respondDiagnostic(req: Request, res: Response, fix: boolean) {
+  try {
+    console.log(`🔍 Ejecutando diagnóstico del servidor VPN${fix ? ' con correcciones' : ''}...`);
+
+    // Importar dinámicamente el servidor WireGuard
+    const { runServerDiagnostics } = await import('../server');
+    const checks = typeof req.query.checks === 'string' ? req.query.checks.split(',').map(id => id.trim()).filter(id => id) : undefined;
+    const instance = typeof req.query.instance === 'string' && req.query.instance ? req.query.instance : undefined;
+
+    const report = await runServerDiagnostics({ fix, only: checks, instance });
+
+    const response: ApiResponse = {
+      success: true,
+      data: report,
+      timestamp: new Date()
+    };
+
+    res.json(response);
+    console.log(`✅ Diagnóstico completado: ${report.status}`);
 
   } catch (error) {
     console.error('❌ Error en diagnóstico:', error);
@@ -261,6 +452,6 @@ router.get('/diagnostic', async (req: Request, res: Response) => {
       timestamp: new Date()
     } as ApiResponse);
   }
-});
+}
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,72 @@
+/**
+ * AUTENTICACIÓN - Verificación de tokens
+ *
+ * Compartida por la API REST (middlewares de src/api/auth.ts), el canal en
+ * vivo y el handshake del protocolo Nodex.
+ */
+
+import * as jwt from 'jsonwebtoken';
+import { timingSafeEqual } from 'crypto';
+import { verifyFirebaseToken, InvalidTokenError } from '../firebase';
+import config from '../config';
+
+// Usuario de un token verificado (req.user); los JWT internos no traen emailVerified
+export interface TokenUser {
+  uid: string;
+  email?: string;
+  emailVerified?: boolean;
+  subscription?: any;
+}
+
+/**
+ * Usuario de un token Firebase o, si no lo es, de un JWT interno
+ *
+ * @param kind Aceptar sólo ese tipo de token (sin él se prueban los dos)
+ * @throws InvalidTokenError
+ */
+export async function authenticateToken(token: string, kind?: 'firebase' | 'jwt'): Promise<TokenUser> {
+  // Intentar verificar como token Firebase primero
+  if (kind !== 'jwt') {
+    try {
+      const decodedToken = await verifyFirebaseToken(token);
+      return {
+        uid: decodedToken.uid,
+        email: decodedToken.email,
+        emailVerified: decodedToken.email_verified
+      };
+    } catch (firebaseError) {
+      if (kind === 'firebase') {
+        throw firebaseError instanceof InvalidTokenError ? firebaseError : new InvalidTokenError();
+      }
+    }
+  }
+
+  // Si falla Firebase, intentar JWT interno
+  try {
+    const decoded = jwt.verify(token, config.jwt.secret) as any;
+    return {
+      uid: decoded.uid,
+      email: decoded.email,
+      subscription: decoded.subscription
+    };
+  } catch (jwtError) {
+    throw new InvalidTokenError(jwtError instanceof jwt.TokenExpiredError);
+  }
+}
+
+/**
+ * ¿Es el token de operación? (false si ADMIN_API_TOKEN no está configurado)
+ */
+export function isAdminToken(token: string): boolean {
+  return !!config.admin.apiToken && tokensMatch(token, config.admin.apiToken);
+}
+
+/**
+ * Comparar dos tokens en tiempo constante
+ */
+export function tokensMatch(token: string, expectedToken: string): boolean {
+  const received = Buffer.from(token);
+  const expected = Buffer.from(expectedToken);
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
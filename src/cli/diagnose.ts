@@ -0,0 +1,109 @@
+/**
+ * CLI DE DIAGNÓSTICO - Consultar el autodiagnóstico del servidor en marcha
+ *
+ * Uso: npm run diagnose -- [--fix] [--check firewall,ip-forwarding] [--instance id] [--json] [--url http://host:puerto]
+ *
+ * Código de salida según el peor estado: 0 pass, 1 warn, 2 fail, 3 sin respuesta.
+ * Se autentica con ADMIN_API_TOKEN (del entorno o del .env).
+ */
+
+import dotenv from 'dotenv';
+import { ApiResponse, DiagnosticReport, DiagnosticStatus } from '../types';
+
+dotenv.config();
+
+const EXIT_CODES: Record<DiagnosticStatus, number> = { pass: 0, warn: 1, fail: 2 };
+const EXIT_UNKNOWN = 3;
+const REQUEST_TIMEOUT_MS = 120000;
+
+const STATUS_ICONS: Record<DiagnosticStatus, string> = { pass: '✅', warn: '⚠️ ', fail: '❌' };
+
+interface CliOptions {
+  fix: boolean;
+  json: boolean;
+  checks?: string;
+  instance?: string;
+  url: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    fix: false,
+    json: false,
+    url: `http://127.0.0.1:${process.env.PORT || 3000}`
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`Falta el valor de ${arg}`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--fix': options.fix = true; break;
+      case '--json': options.json = true; break;
+      case '--check': options.checks = value(); break;
+      case '--instance': options.instance = value(); break;
+      case '--url': options.url = value(); break;
+      default: throw new Error(`Opción desconocida: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function requestReport(options: CliOptions): Promise<DiagnosticReport> {
+  const url = new URL(options.fix ? '/api/vpn/diagnostic/fix' : '/api/vpn/diagnostic', options.url);
+  if (options.checks) url.searchParams.set('checks', options.checks);
+  if (options.instance) url.searchParams.set('instance', options.instance);
+
+  const response = await fetch(url, {
+    method: options.fix ? 'POST' : 'GET',
+    headers: { Authorization: `Bearer ${process.env.ADMIN_API_TOKEN || ''}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  const body = await response.json() as ApiResponse<DiagnosticReport>;
+
+  if (!response.ok || !body.success || !body.data) {
+    throw new Error(`HTTP ${response.status}: ${body.error || 'respuesta sin informe'}`);
+  }
+  return body.data;
+}
+
+function printReport(report: DiagnosticReport): void {
+  for (const check of report.checks) {
+    const scope = check.instance ? `[${check.instance}] ` : '';
+    const fixed = check.fixed === true ? ' (corregido)' : check.fixed === false ? ' (corrección fallida)' : '';
+    console.log(`${STATUS_ICONS[check.status]} ${scope}${check.title}${fixed}`);
+    console.log(`   ${check.evidence}`);
+    if (check.remediation) console.log(`   → ${check.remediation}`);
+  }
+  console.log(`\n${STATUS_ICONS[report.status]} ${report.summary.pass} ok, ${report.summary.warn} avisos, ${report.summary.fail} fallos (${report.durationMs} ms)`);
+}
+
+async function main(): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    return EXIT_UNKNOWN;
+  }
+
+  try {
+    const report = await requestReport(options);
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      printReport(report);
+    }
+    return EXIT_CODES[report.status];
+  } catch (error) {
+    console.error(`❌ No se pudo obtener el diagnóstico de ${options.url}: ${error instanceof Error ? error.message : error}`);
+    return EXIT_UNKNOWN;
+  }
+}
+
+main().then(code => process.exit(code));
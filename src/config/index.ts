@@ -22,6 +22,32 @@ for (const envVar of requiredEnvVars) {
   }
 }
 
+/**
+ * JSON de una variable de entorno; un valor mal formado detiene el arranque
+ * con un error que nombra la variable
+ */
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new Error(`Variable de entorno ${name} no es JSON válido: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Valor de una variable de entorno restringido a una lista de opciones
+ */
+function parseChoiceEnv<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+  const value = process.env[name];
+  if (!value) return fallback;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Variable de entorno ${name} debe ser una de: ${allowed.join(', ')} (recibido "${value}")`);
+  }
+  return value as T;
+}
+
 export const config = {
   // Configuración del servidor
   NODE_ENV: process.env.NODE_ENV || 'development',
@@ -39,6 +65,87 @@ export const config = {
     serverVpnIp: process.env.WG_SERVER_IP || '10.0.0.1',
     clientSubnet: process.env.WG_CLIENT_SUBNET || '10.0.0.0/24',
     dns: process.env.WG_DNS?.split(',') || ['8.8.8.8', '8.8.4.4'],
+    // Backend del sistema: 'linux' (wg/ip reales) o 'simulation' (en memoria, sin root)
+    backend: parseChoiceEnv('WG_BACKEND', ['linux', 'simulation'] as const, 'linux'),
+    configDir: process.env.WG_CONFIG_DIR ||
+      (process.env.WG_BACKEND === 'simulation' ? './data/wireguard' : '/etc/wireguard'),
+    // Pool de IPs: enfriamiento antes de reutilizar y reservas "userId=IP,userId=IP"
+    ipCooldownMs: parseInt(process.env.WG_IP_COOLDOWN_MS || '600000'),
+    staticIps: Object.fromEntries(
+      (process.env.WG_STATIC_IPS?.split(',') || [])
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([userId, ip]) => userId && ip)
+    ),
+    // Persistencia de peers: 'json' (WG_PEER_STORE_PATH) o 'sqlite' (DATABASE_URL)
+    peerStore: parseChoiceEnv('WG_PEER_STORE', ['json', 'sqlite'] as const, 'json'),
+    peerStorePath: process.env.WG_PEER_STORE_PATH || './data/peers.json',
+    // Dispositivos simultáneos por usuario (0 = sin límite)
+    maxDevicesPerUser: parseInt(process.env.WG_MAX_DEVICES_PER_USER || '5'),
+    // Exigir que la app envíe su propia public key (el servidor nunca ve la privada)
+    requireClientKeys: process.env.WG_REQUIRE_CLIENT_KEYS === 'true',
+    // Dual-stack IPv6: prefijo configurado o ULA generada y persistida (un /128 por peer)
+    ipv6Enabled: process.env.WG_IPV6 === 'true',
+    ipv6Prefix: process.env.WG_IPV6_PREFIX,
+    ipv6ServerIp: process.env.WG_IPV6_SERVER_IP,
+    dns6: process.env.WG_DNS6?.split(',') || ['2001:4860:4860::8888', '2001:4860:4860::8844'],
+    // Muestreo de `wg show` para emitir eventos de peers
+    pollIntervalMs: parseInt(process.env.WG_POLL_INTERVAL_MS || '30000'),
+    // Firewall: reglas propias en cadenas NODEX-* (iptables) o tabla inet nodex (nftables)
+    firewallBackend: parseChoiceEnv('WG_FIREWALL_BACKEND', ['iptables', 'nftables', 'simulation'] as const,
+      process.env.WG_BACKEND === 'simulation' ? 'simulation' : 'iptables'),
+    egressInterface: process.env.WG_EGRESS_INTERFACE || 'eth0',
+    // Port forwards "tcp:8080=10.0.0.5:80,udp:27015=10.0.0.6"
+    portForwards: process.env.WG_PORT_FORWARDS?.split(',').filter(entry => entry.trim()) || [],
+    interPeer: parseChoiceEnv('WG_INTER_PEER', ['allow', 'deny'] as const, 'allow'),
+    firewallDryRun: process.env.WG_FIREWALL_DRY_RUN === 'true',
+    // Límites de velocidad por plan "free=10000/5000,premium=0/0" (kbit/s bajada/subida, 0 = sin límite)
+    shaper: parseChoiceEnv('WG_SHAPER', ['tc', 'simulation'] as const,
+      process.env.WG_BACKEND === 'simulation' ? 'simulation' : 'tc'),
+    bandwidthPlans: Object.fromEntries(
+      (process.env.WG_BANDWIDTH_PLANS?.split(',') || [])
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([plan, rates]) => plan && rates)
+        .map(([plan, rates]) => {
+          const [downloadKbps, uploadKbps] = rates.split('/').map(rate => parseInt(rate) || 0);
+          return [plan, { downloadKbps, uploadKbps: uploadKbps || 0 }];
+        })
+    ),
+    defaultPlan: process.env.WG_DEFAULT_PLAN || 'free',
+    // Cuotas mensuales en GB por plan ("free=10,premium=0"; 0 = sin tope)
+    quotaPlans: Object.fromEntries(
+      (process.env.WG_QUOTA_PLANS?.split(',') || [])
+        .map(entry => entry.split('=').map(part => part.trim()))
+        .filter(([plan, gigabytes]) => plan && gigabytes)
+        .map(([plan, gigabytes]) => [plan, Math.round((parseFloat(gigabytes) || 0) * 1e9)])
+    ),
+    quotaAction: parseChoiceEnv('WG_QUOTA_ACTION', ['throttle', 'suspend'] as const, 'throttle'),
+    quotaThrottleKbps: parseInt(process.env.WG_QUOTA_THROTTLE_KBPS || '512'),
+    quotaCycleDay: parseInt(process.env.WG_QUOTA_CYCLE_DAY || '1'),
+    // Avisos en el canal en vivo al consumir estos porcentajes de la cuota
+    quotaWarningThresholds: (process.env.WG_QUOTA_WARNING_PERCENT || '80,95')
+      .split(',')
+      .map(percent => parseFloat(percent) / 100)
+      .filter(threshold => !isNaN(threshold)),
+    // Limpieza de peers sin handshake en WG_REAPER_IDLE_HOURS (0 = sólo caducados) o con expiresAt vencido
+    reaperEnabled: process.env.WG_REAPER_ENABLED === 'true',
+    reaperIdleHours: parseFloat(process.env.WG_REAPER_IDLE_HOURS || '168'),
+    reaperAction: parseChoiceEnv('WG_REAPER_ACTION', ['remove', 'suspend'] as const, 'remove'),
+    reaperIntervalMinutes: parseFloat(process.env.WG_REAPER_INTERVAL_MINUTES || '60'),
+    // Perfil de cliente: MTU, keepalive (0 = sin keepalive) y perfiles por plataforma en JSON
+    // ('{"android":{"excludedRoutes":["192.168.0.0/16"]}}')
+    clientMtu: process.env.WG_CLIENT_MTU ? parseInt(process.env.WG_CLIENT_MTU) : undefined,
+    persistentKeepalive: parseInt(process.env.WG_PERSISTENT_KEEPALIVE || '25'),
+    clientProfiles: parseJsonEnv('WG_CLIENT_PROFILES', {}),
+    // Rotación de la key del servidor: puerto alternativo y horas que se acepta la key anterior
+    keyRotationPort: process.env.WG_KEY_ROTATION_PORT ? parseInt(process.env.WG_KEY_ROTATION_PORT) : undefined,
+    keyRotationGraceHours: parseFloat(process.env.WG_KEY_ROTATION_GRACE_HOURS || '168'),
+    // Instancia principal (la de las variables anteriores) y adicionales en JSON
+    // ('[{"id":"streaming","interface":"wg1","port":51830,"clientSubnet":"10.1.0.0/24"}]')
+    instanceId: process.env.WG_INSTANCE_ID || 'standard',
+    instanceName: process.env.WG_INSTANCE_NAME || 'Nodex VPN Server',
+    location: process.env.WG_LOCATION || 'Europe',
+    flag: process.env.WG_FLAG || '🇪🇸',
+    instances: parseJsonEnv('WG_INSTANCES', []),
     // General VPN settings
     maxConnections: parseInt(process.env.MAX_CONCURRENT_CONNECTIONS || '100'),
     connectionTimeout: parseInt(process.env.CONNECTION_TIMEOUT || '30000'),
@@ -51,6 +158,26 @@ export const config = {
     expiresIn: process.env.JWT_EXPIRES_IN || '24h'
   },
 
+  // Token de operación (diagnóstico y demás endpoints de administración)
+  admin: {
+    apiToken: process.env.ADMIN_API_TOKEN || ''
+  },
+
+  // Métricas Prometheus (GET /metrics)
+  metrics: {
+    // Si se define, el scrape debe enviar Authorization: Bearer <token>
+    token: process.env.METRICS_TOKEN || '',
+    // Etiqueta user en los contadores de tráfico (una serie por usuario)
+    perUserLabels: process.env.METRICS_PER_USER_LABELS === 'true'
+  },
+
+  // Canal en vivo por WebSocket (/api/vpn/live)
+  live: {
+    heartbeatIntervalMs: parseInt(process.env.LIVE_HEARTBEAT_INTERVAL_MS || '30000'),
+    // Eventos que se conservan para reanudar tras reconectar
+    replayBufferSize: parseInt(process.env.LIVE_REPLAY_BUFFER || '1000')
+  },
+
   // Configuración Firebase
   firebase: {
     projectId: process.env.FIREBASE_PROJECT_ID || '',
@@ -66,7 +193,9 @@ export const config = {
   // Configuración de logs
   logs: {
     level: process.env.LOG_LEVEL || 'info',
-    file: './logs/server.log'
+    file: './logs/server.log',
+    // Acciones sobre peers y usuarios (JSON por línea)
+    auditFile: process.env.AUDIT_LOG_PATH || './logs/audit.log'
   },
 
   // Configuración de la base de datos (fallback)
@@ -75,11 +204,18 @@ export const config = {
   }
 };
 
+// Las etiquetas de usuario exponen qué uids usan el servidor: /metrics no puede ser público
+if (config.metrics.perUserLabels && !config.metrics.token) {
+  throw new Error('METRICS_PER_USER_LABELS=true requiere METRICS_TOKEN');
+}
+
 // Verificar configuración en desarrollo
 if (config.NODE_ENV === 'development') {
   console.log('🔧 Configuración del servidor:', {
     ...config,
-    jwt: { ...config.jwt, secret: '[HIDDEN]' }
+    jwt: { ...config.jwt, secret: '[HIDDEN]' },
+    admin: { apiToken: config.admin.apiToken ? '[HIDDEN]' : '' },
+    metrics: { ...config.metrics, token: config.metrics.token ? '[HIDDEN]' : '' }
   });
 }
 
@@ -8,6 +8,7 @@ import admin from 'firebase-admin';
 import { getAuth } from 'firebase-admin/auth';
 import { getFirestore } from 'firebase-admin/firestore';
 import path from 'path';
+import { observeFirebaseCall } from '../metrics';
 
 // Configuración del proyecto
 const FIREBASE_CONFIG = {
@@ -15,6 +16,22 @@ const FIREBASE_CONFIG = {
   serviceAccountPath: path.join(__dirname, '../../config/serviceAccountKey.json')
 };
 
+// Token de Firebase o JWT interno rechazado (expired: caducado, hay que renovarlo)
+export class InvalidTokenError extends Error {
+  constructor(public readonly expired: boolean = false) {
+    super(expired ? 'Token expirado' : 'Token inválido');
+    this.name = 'InvalidTokenError';
+  }
+}
+
+// El uid no tiene documento en Firestore
+export class UserNotFoundError extends Error {
+  constructor(uid: string) {
+    super(`Usuario no encontrado: ${uid}`);
+    this.name = 'UserNotFoundError';
+  }
+}
+
 let firebaseApp: admin.app.App | null = null;
 let auth: admin.auth.Auth | null = null;
 let firestore: admin.firestore.Firestore | null = null;
@@ -88,12 +105,12 @@ export async function verifyFirebaseToken(idToken: string): Promise<admin.auth.D
   }
 
   try {
-    const decodedToken = await auth.verifyIdToken(idToken);
+    const decodedToken = await observeFirebaseCall('verifyIdToken', () => auth!.verifyIdToken(idToken));
     console.log(`✅ Token verificado para usuario: ${decodedToken.uid}`);
     return decodedToken;
   } catch (error) {
     console.error('❌ Error verificando token:', error);
-    throw new Error('Token inválido');
+    throw new InvalidTokenError((error as { code?: string }).code === 'auth/id-token-expired');
   }
 }
 
@@ -132,7 +149,7 @@ export async function createOrUpdateUser(userInfo: {
       }
     };
 
-    await userRef.set(userData, { merge: true });
+    await observeFirebaseCall('setUser', () => userRef.set(userData, { merge: true }));
     console.log(`✅ Usuario actualizado en Firestore: ${userInfo.uid}`);
   } catch (error) {
     console.error('❌ Error actualizando usuario:', error);
@@ -149,10 +166,10 @@ export async function getUserInfo(uid: string): Promise<any> {
   }
 
   try {
-    const userDoc = await firestore.collection('users').doc(uid).get();
+    const userDoc = await observeFirebaseCall('getUser', () => firestore!.collection('users').doc(uid).get());
     
     if (!userDoc.exists) {
-      throw new Error('Usuario no encontrado');
+      throw new UserNotFoundError(uid);
     }
 
     return userDoc.data();
@@ -178,10 +195,10 @@ export async function logVpnSession(sessionData: {
   }
 
   try {
-    const sessionRef = await firestore.collection('vpn_sessions').add({
+    const sessionRef = await observeFirebaseCall('addSession', () => firestore!.collection('vpn_sessions').add({
       ...sessionData,
       createdAt: admin.firestore.FieldValue.serverTimestamp()
-    });
+    }));
 
     console.log(`✅ Sesión VPN registrada: ${sessionRef.id}`);
     return sessionRef.id;
@@ -220,7 +237,7 @@ export async function updateUserStats(uid: string, stats: {
       updateData['connectionStats.lastConnectionAt'] = stats.lastConnectionAt;
     }
 
-    await userRef.update(updateData);
+    await observeFirebaseCall('updateUserStats', () => userRef.update(updateData));
     console.log(`✅ Estadísticas actualizadas para usuario: ${uid}`);
   } catch (error) {
     console.error('❌ Error actualizando estadísticas:', error);
@@ -228,15 +245,26 @@ export async function updateUserStats(uid: string, stats: {
   }
 }
 
+/**
+ * Plan de la suscripción VPN del usuario
+ */
+export async function getUserPlan(uid: string): Promise<string | undefined> {
+  const userInfo = await getUserInfo(uid);
+  return userInfo.vpnSubscription?.plan;
+}
+
 /**
  * Verificar suscripción activa
+ *
+ * Un usuario sin documento o sin suscripción no la tiene; un fallo de
+ * Firestore se propaga para no confundir una caída con una suscripción inactiva.
  */
 export async function checkUserSubscription(uid: string): Promise<boolean> {
   try {
     const userInfo = await getUserInfo(uid);
     const subscription = userInfo.vpnSubscription;
     
-    if (!subscription.active) {
+    if (!subscription?.active) {
       return false;
     }
     
@@ -250,8 +278,11 @@ export async function checkUserSubscription(uid: string): Promise<boolean> {
     // Si no tiene fecha de expiración (plan gratuito), está activo
     return true;
   } catch (error) {
+    if (error instanceof UserNotFoundError) {
+      return false;
+    }
     console.error('❌ Error verificando suscripción:', error);
-    return false;
+    throw error;
   }
 }
 
@@ -264,7 +295,7 @@ export async function createCustomToken(uid: string, additionalClaims?: object):
   }
 
   try {
-    const customToken = await auth.createCustomToken(uid, additionalClaims);
+    const customToken = await observeFirebaseCall('createCustomToken', () => auth!.createCustomToken(uid, additionalClaims));
     console.log(`✅ Custom token creado para usuario: ${uid}`);
     return customToken;
   } catch (error) {
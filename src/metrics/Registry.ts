@@ -0,0 +1,184 @@
+/**
+ * METRICS REGISTRY - Contadores, gauges e histogramas en formato Prometheus
+ *
+ * Implementación mínima del formato de exposición de texto (0.0.4): cada
+ * métrica guarda sus series por combinación de etiquetas y `render()` las
+ * vuelca en el orden en que se registraron. Los valores que sólo tienen
+ * sentido en el momento del scrape (peers, handshakes) se rellenan con
+ * collectors, que se ejecutan antes de volcar.
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+export const CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Segundos: de 5 ms a 10 s, adecuado para peticiones HTTP y llamadas a Firebase
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(public readonly name: string, public readonly help: string) {}
+
+  /**
+   * Líneas de las series (sin HELP ni TYPE)
+   */
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values: Map<string, number> = new Map();
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    if (value < 0) {
+      throw new Error(`Un contador no puede decrecer (${this.name})`);
+    }
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${key} ${formatValue(value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values: Map<string, number> = new Map();
+
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  samples(): string[] {
+    return Array.from(this.values, ([key, value]) => `${this.name}${key} ${formatValue(value)}`);
+  }
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private buckets: number[];
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series!.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Cronometrar una operación: la función devuelta registra los segundos
+   * transcurridos (con etiquetas adicionales conocidas al terminar)
+   */
+  startTimer(labels: MetricLabels = {}): (extra?: MetricLabels) => number {
+    const started = process.hrtime.bigint();
+    return (extra = {}) => {
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      this.observe({ ...labels, ...extra }, seconds);
+      return seconds;
+    };
+  }
+
+  samples(): string[] {
+    return Array.from(this.series.values()).flatMap(series => [
+      ...this.buckets.map((bound, index) =>
+        `${this.name}_bucket${labelKey({ ...series.labels, le: formatValue(bound) })} ${series.counts[index]}`
+      ),
+      `${this.name}_bucket${labelKey({ ...series.labels, le: '+Inf' })} ${series.count}`,
+      `${this.name}_sum${labelKey(series.labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${labelKey(series.labels)} ${series.count}`
+    ]);
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Array<() => Promise<void> | void> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Función que actualiza métricas justo antes de cada scrape
+   */
+  addCollector(collector: () => Promise<void> | void): void {
+    this.collectors.push(collector);
+  }
+
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      try {
+        await collector();
+      } catch (error) {
+        // Un collector con errores no debe dejar sin el resto de métricas
+        console.error('⚠️ Error recogiendo métricas:', error);
+      }
+    }
+
+    return Array.from(this.metrics.values(), metric => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Métrica duplicada: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(String(value))}"`).join(',')}}`;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function escapeHelp(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,147 @@
+/**
+ * MÉTRICAS - Definiciones del servidor y puntos de instrumentación
+ *
+ * Se exponen en GET /metrics (formato Prometheus). Las etiquetas se limitan a
+ * valores acotados (instancia, ruta, resultado); las de usuario sólo se añaden
+ * a los contadores de tráfico si se activa METRICS_PER_USER_LABELS, porque
+ * crean una serie por usuario que no desaparece hasta reiniciar.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import { WireGuardPeerEvent } from '../types';
+import { WireGuardInstance } from '../vpn/WireGuardInstance';
+import { MetricLabels, MetricsRegistry } from './Registry';
+
+export { CONTENT_TYPE } from './Registry';
+
+export const registry = new MetricsRegistry();
+
+// Edad del último handshake: de 30 s (recién conectado) a un día
+const HANDSHAKE_AGE_BUCKETS = [30, 60, 120, 180, 300, 600, 1800, 3600, 21600, 86400];
+
+const peers = registry.gauge(
+  'nodex_wireguard_peers',
+  'Peers por instancia: configured (en la interfaz) y connected (handshake en los últimos 3 minutos)'
+);
+const receivedBytes = registry.counter(
+  'nodex_wireguard_received_bytes_total',
+  'Bytes recibidos de los clientes por instancia'
+);
+const sentBytes = registry.counter(
+  'nodex_wireguard_sent_bytes_total',
+  'Bytes enviados a los clientes por instancia'
+);
+const peersByHandshakeAge = registry.gauge(
+  'nodex_wireguard_peers_by_handshake_age',
+  'Peers por instancia cuyo último handshake tiene como mucho le segundos en el momento del scrape (acumulado, le="+Inf" = todos los que tuvieron handshake)'
+);
+const configsIssued = registry.counter(
+  'nodex_wireguard_configs_issued_total',
+  'Configuraciones de cliente emitidas por instancia y resultado (created, rotated, reused)'
+);
+const configFailures = registry.counter(
+  'nodex_wireguard_config_failures_total',
+  'Peticiones de configuración de cliente fallidas por instancia y motivo'
+);
+const httpDuration = registry.histogram(
+  'nodex_http_request_duration_seconds',
+  'Duración de las peticiones HTTP por método, ruta y código de estado'
+);
+const nodexHandshakes = registry.counter(
+  'nodex_handshakes_total',
+  'Handshakes del protocolo Nodex por resultado (success, failure, error)'
+);
+const firebaseDuration = registry.histogram(
+  'nodex_firebase_request_duration_seconds',
+  'Duración de las llamadas a Firebase por operación y resultado'
+);
+
+export interface WireGuardMetricsOptions {
+  /** Añadir la etiqueta user a los contadores de tráfico */
+  perUserLabels?: boolean;
+}
+
+/**
+ * Medir las instancias WireGuard: tráfico a partir de los eventos `transfer`
+ * (ya descuentan los reinicios de contadores de la interfaz y no se emiten
+ * con muestras fallidas) y peers y handshakes muestreando `wg` en cada scrape
+ */
+export function trackWireGuardInstances(instances: WireGuardInstance[], options: WireGuardMetricsOptions = {}): void {
+  for (const instance of instances) {
+    instance.server.on('transfer', (event: WireGuardPeerEvent) => {
+      const labels: MetricLabels = options.perUserLabels
+        ? { instance: instance.config.id, user: event.userId }
+        : { instance: instance.config.id };
+      receivedBytes.inc(labels, event.data.rxBytes || 0);
+      sentBytes.inc(labels, event.data.txBytes || 0);
+    });
+  }
+
+  registry.addCollector(async () => {
+    for (const instance of instances) {
+      const stats = await instance.server.getConnectionStats();
+      const id = instance.config.id;
+      // Sin muestra válida se conservan los gauges del scrape anterior
+      if (stats.error) continue;
+
+      peers.set({ instance: id, state: 'configured' }, stats.totalPeers);
+      peers.set({ instance: id, state: 'connected' }, stats.activePeers);
+
+      // Instantánea: cada bucket se recalcula entero (no acumula entre scrapes como un histograma)
+      const ages = stats.peers
+        .filter(peer => peer.lastHandshake)
+        .map(peer => Math.max(0, (stats.collectedAt.getTime() - peer.lastHandshake!.getTime()) / 1000));
+      for (const bound of HANDSHAKE_AGE_BUCKETS) {
+        peersByHandshakeAge.set({ instance: id, le: bound }, ages.filter(age => age <= bound).length);
+      }
+      peersByHandshakeAge.set({ instance: id, le: '+Inf' }, ages.length);
+    }
+  });
+}
+
+export function recordConfigIssued(instance: string, result: 'created' | 'rotated' | 'reused'): void {
+  configsIssued.inc({ instance, result });
+}
+
+/**
+ * @param reason Motivo acotado (p. ej. device_limit o pool_exhausted), nunca el mensaje de error
+ */
+export function recordConfigFailure(instance: string, reason: string): void {
+  configFailures.inc({ instance, reason });
+}
+
+export function recordNodexHandshake(result: 'success' | 'failure' | 'error'): void {
+  nodexHandshakes.inc({ result });
+}
+
+/**
+ * Cronometrar una llamada a Firebase (outcome = ok o error)
+ */
+export async function observeFirebaseCall<T>(operation: string, call: () => Promise<T>): Promise<T> {
+  const end = firebaseDuration.startTimer({ operation });
+  try {
+    const result = await call();
+    end({ outcome: 'ok' });
+    return result;
+  } catch (error) {
+    end({ outcome: 'error' });
+    throw error;
+  }
+}
+
+/**
+ * MIDDLEWARE - Latencia de las peticiones HTTP
+ *
+ * La ruta es el patrón de Express (/api/vpn/users/:userId), no la URL, para no
+ * crear una serie por id; las peticiones sin ruta se agrupan como "unmatched".
+ */
+export function httpMetrics(req: Request, res: Response, next: NextFunction): void {
+  const end = httpDuration.startTimer({ method: req.method });
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    end({ route, status: res.statusCode });
+  });
+
+  next();
+}
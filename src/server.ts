@@ -6,21 +6,176 @@ import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
+import * as path from 'path';
 import config from './config';
-import { WireGuardServer } from './vpn/WireGuardServer';
-import authRoutes from './api/auth';
+import { WireGuardServer, DeviceLimitError, InvalidClientKeyError, PrivateKeyUnavailableError } from './vpn/WireGuardServer';
+import { createWireGuardBackend } from './vpn/WireGuardBackend';
+import { createFirewallBackend } from './vpn/FirewallBackend';
+import { parsePortForward } from './vpn/FirewallManager';
+import { InvalidClientProfileError } from './vpn/ClientProfile';
+import { CLIENT_CONFIG_FORMATS, ClientConfigFormat, serializeClientConfig } from './vpn/ClientConfigFormat';
+import { QR_ERROR_CORRECTIONS, QR_FORMATS, QR_MAX_SIZE, QR_MIN_SIZE, QrErrorCorrection, QrFormat } from './vpn/ConfigQrCode';
+import { IpPoolExhaustedError } from './vpn/IpAddressPool';
+import { DEVICE_ID_PATTERN, createPeerStore } from './vpn/PeerStore';
+import { QuotaManager } from './vpn/QuotaManager';
+import { AuditLog } from './vpn/AuditLog';
+import { PeerReaper } from './vpn/PeerReaper';
+import { BanInput, BanList, BannedError } from './vpn/BanList';
+import { LiveEventHub } from './vpn/LiveEventHub';
+import { createTrafficShaper } from './vpn/TrafficShaper';
+import { WireGuardInstance, describeInstance, parseInstanceConfigs } from './vpn/WireGuardInstance';
+import { DiagnosticCheck, DiagnosticOptions, createHostChecks, runDiagnostics } from './vpn/Diagnostics';
+import authRoutes, { verifyAuthToken, verifyMetricsToken } from './api/auth';
 import vpnRoutes from './api/vpn';
+import { LiveChannel } from './api/live';
 import usersRoutes from './api/users';
-import { initFirebase } from './firebase';
-import { ApiResponse } from './types';
+import { getUserPlan, initFirebase, updateUserStats } from './firebase';
+import { CONTENT_TYPE, httpMetrics, recordConfigFailure, recordConfigIssued, registry, trackWireGuardInstances } from './metrics';
+import { ApiResponse, DevicePlatform, DiagnosticReport, WireGuardInstanceConfig } from './types';
 
 const app = express();
 
-// Inicializar servidor WireGuard
-const wireGuardServer = new WireGuardServer(
-  config.vpn.serverIp, 
-  config.vpn.wireGuardPort || 51820
+const DEVICE_PLATFORMS: DevicePlatform[] = ['ios', 'android', 'macos', 'windows', 'linux', 'other'];
+
+// Formatos de configuración seleccionables con la cabecera Accept
+// (application/json mantiene la respuesta ApiResponse con el INI en `config`)
+const CONFIG_MEDIA_TYPES: Record<string, ClientConfigFormat> = {
+  'text/plain': 'wg-quick',
+  'application/vnd.nodex.wireguard+json': 'json',
+  'application/x-apple-aspen-config': 'mobileconfig',
+  'application/x-wireguard-android': 'android'
+};
+
+// Instancias WireGuard: la principal sale de las variables WG_* y las adicionales de WG_INSTANCES
+const instanceConfigs = parseInstanceConfigs({
+  id: config.vpn.instanceId,
+  name: config.vpn.instanceName,
+  interface: config.vpn.interface,
+  port: config.vpn.wireGuardPort || 51820,
+  clientSubnet: config.vpn.clientSubnet,
+  serverVpnIp: config.vpn.serverVpnIp,
+  location: config.vpn.location,
+  flag: config.vpn.flag,
+  keyRotationPort: config.vpn.keyRotationPort,
+  ipv6Prefix: config.vpn.ipv6Prefix,
+  ipv6ServerIp: config.vpn.ipv6ServerIp,
+  portForwards: config.vpn.portForwards
+}, config.vpn.instances);
+
+// Log de auditoría (retiradas de peers, bloqueos...)
+const auditLog = new AuditLog(config.logs.auditFile);
+
+// Bloqueos de usuarios, dispositivos y public keys (guardados en el store de la principal)
+const banList = new BanList(auditLog);
+
+const instances = new Map<string, WireGuardInstance>(
+  instanceConfigs.map((instanceConfig, index) => [instanceConfig.id, createInstance(instanceConfig, index === 0)])
 );
+const primaryInstance = instances.values().next().value as WireGuardInstance;
+
+/**
+ * Servidor WireGuard de una instancia; las adicionales guardan keys, peers y
+ * reglas de firewall aparte para no pisar las de la principal
+ */
+function createInstance(instanceConfig: WireGuardInstanceConfig, primary: boolean): WireGuardInstance {
+  const namespace = primary ? undefined : instanceConfig.id;
+  const peerStore = createPeerStore(config.vpn.peerStore, {
+    filePath: config.vpn.peerStorePath,
+    databaseUrl: config.database.url,
+    namespace
+  });
+  
+  const server = new WireGuardServer(
+    config.vpn.serverIp,
+    instanceConfig.port,
+    {
+      backend: createWireGuardBackend(config.vpn.backend),
+      interfaceName: instanceConfig.interface,
+      configDir: primary ? config.vpn.configDir : path.join(config.vpn.configDir, instanceConfig.id),
+      clientSubnet: instanceConfig.clientSubnet,
+      serverVpnIp: instanceConfig.serverVpnIp,
+      ipCooldownMs: config.vpn.ipCooldownMs,
+      staticIps: primary ? config.vpn.staticIps : undefined,
+      maxDevicesPerUser: config.vpn.maxDevicesPerUser,
+      pollIntervalMs: config.vpn.pollIntervalMs,
+      firewall: {
+        backend: createFirewallBackend(config.vpn.firewallBackend, namespace),
+        egressInterface: config.vpn.egressInterface,
+        portForwards: instanceConfig.portForwards.map(parsePortForward),
+        interPeer: config.vpn.interPeer,
+        dryRun: config.vpn.firewallDryRun
+      },
+      shaper: createTrafficShaper(config.vpn.shaper),
+      bandwidthPlans: instanceConfig.bandwidthPlans || config.vpn.bandwidthPlans,
+      defaultPlan: instanceConfig.defaultPlan || config.vpn.defaultPlan,
+      clientDefaults: {
+        dns: config.vpn.dns,
+        mtu: config.vpn.clientMtu,
+        persistentKeepalive: config.vpn.persistentKeepalive
+      },
+      platformProfiles: config.vpn.clientProfiles,
+      keyRotation: {
+        port: instanceConfig.keyRotationPort,
+        gracePeriodMs: config.vpn.keyRotationGraceHours * 60 * 60 * 1000
+      },
+      ipv6: config.vpn.ipv6Enabled ? {
+        prefix: instanceConfig.ipv6Prefix,
+        serverIp: instanceConfig.ipv6ServerIp,
+        dns: config.vpn.dns6
+      } : undefined,
+      peerStore,
+      banList
+    }
+  );
+  
+  return { config: instanceConfig, server, peerStore, primary };
+}
+
+/**
+ * Instancia pedida por id (por defecto la principal); undefined si no existe
+ */
+function resolveInstance(id: unknown): WireGuardInstance | undefined {
+  return id === undefined || id === '' ? primaryInstance : instances.get(String(id));
+}
+
+/**
+ * Instancias en las que el usuario tiene el dispositivo (sólo la pedida si se indica)
+ */
+function findDeviceInstances(userId: string, deviceId: string, instanceId: unknown): WireGuardInstance[] {
+  const candidates = instanceId === undefined ? Array.from(instances.values()) : [instances.get(String(instanceId))];
+  return candidates.filter((instance): instance is WireGuardInstance =>
+    !!instance && instance.server.getUserPeers(userId).some(peer => peer.deviceId === deviceId)
+  );
+}
+
+// Cuotas mensuales de datos por usuario (uso guardado en el store de la principal)
+const quotaManager = new QuotaManager(Array.from(instances.values(), instance => instance.server), primaryInstance.peerStore, {
+  planLimits: config.vpn.quotaPlans,
+  action: config.vpn.quotaAction,
+  throttleLimit: { downloadKbps: config.vpn.quotaThrottleKbps, uploadKbps: config.vpn.quotaThrottleKbps },
+  cycleDay: config.vpn.quotaCycleDay,
+  warningThresholds: config.vpn.quotaWarningThresholds,
+  reportUsage: config.firebase.projectId
+    ? (uid, bytes) => updateUserStats(uid, { dataUsed: bytes })
+    : undefined
+});
+
+// Limpieza de peers inactivos y caducados (desactivada: sólo informe en GET /api/vpn/reaper)
+const peerReaper = new PeerReaper(Array.from(instances.values()), {
+  enabled: config.vpn.reaperEnabled,
+  idleAfterMs: config.vpn.reaperIdleHours * 60 * 60 * 1000,
+  idleAction: config.vpn.reaperAction,
+  intervalMs: config.vpn.reaperIntervalMinutes * 60 * 1000,
+  audit: auditLog
+});
+
+// Canal en vivo (WebSocket): estado de los dispositivos, tráfico, avisos de cuota y desconexiones
+const liveEvents = new LiveEventHub(config.live.replayBufferSize);
+liveEvents.attach(Array.from(instances.values()), quotaManager);
+const liveChannel = new LiveChannel(liveEvents, { heartbeatIntervalMs: config.live.heartbeatIntervalMs });
+
+// Métricas de peers y tráfico de todas las instancias
+trackWireGuardInstances(Array.from(instances.values()), { perUserLabels: config.metrics.perUserLabels });
 
 // Middleware de seguridad
 app.use(helmet({
@@ -46,10 +201,14 @@ if (config.NODE_ENV === 'development') {
   app.use(morgan('combined'));
 }
 
+// Latencia de las peticiones por ruta y estado
+app.use(httpMetrics);
+
 // Health check
 app.get('/health', async (req, res) => {
-  const stats = await wireGuardServer.getConnectionStats();
-  
+  const instanceStats = await Promise.all(
+    Array.from(instances.values(), async instance => ({ instance, stats: await instance.server.getConnectionStats() }))
+  );
   const response: ApiResponse = {
     success: true,
     data: {
@@ -59,9 +218,15 @@ app.get('/health', async (req, res) => {
       timestamp: new Date(),
       vpnServer: {
         type: 'WireGuard',
-        status: wireGuardServer.isRunning() ? 'running' : 'stopped',
-        connections: stats.totalPeers || 0,
-        peers: stats.peers || []
+        status: Array.from(instances.values()).every(instance => instance.server.isRunning()) ? 'running' : 'stopped',
+        connections: instanceStats.reduce((total, { stats }) => total + stats.totalPeers, 0),
+        activeConnections: instanceStats.reduce((total, { stats }) => total + stats.activePeers, 0),
+        instances: instanceStats.map(({ instance, stats }) => ({
+          id: instance.config.id,
+          status: instance.server.isRunning() ? 'running' : 'stopped',
+          connections: stats.totalPeers,
+          activeConnections: stats.activePeers
+        }))
       }
     },
     timestamp: new Date()
@@ -69,31 +234,45 @@ app.get('/health', async (req, res) => {
   res.json(response);
 });
 
+// Métricas en formato Prometheus
+app.get('/metrics', verifyMetricsToken, async (req, res) => {
+  try {
+    res.set('Content-Type', CONTENT_TYPE).send(await registry.render());
+  } catch (error) {
+    console.error('❌ Error generando métricas:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Error generando métricas',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/vpn', vpnRoutes);
 app.use('/api/users', usersRoutes);
 
-// Ruta para obtener información del servidor
+// Ruta para obtener información del servidor (?instance=<id>, por defecto la principal)
 app.get('/api/server/info', async (req, res) => {
-  const serverConfig = wireGuardServer.getServerConfig();
-  const stats = await wireGuardServer.getConnectionStats();
+  const instance = resolveInstance(req.query.instance);
+  if (!instance) {
+    return res.status(404).json({
+      success: false,
+      error: 'Instancia WireGuard desconocida',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+  
+  const info = await describeInstance(instance);
   
   const response: ApiResponse = {
     success: true,
     data: {
-      name: 'Nodex VPN Server',
+      ...info,
       type: 'WireGuard',
-      location: 'Europe',
-      flag: '🇪🇸',
-      address: serverConfig.address,
-      port: serverConfig.port,
-      publicKey: serverConfig.publicKey,
-      ping: 25,
-      load: Math.round((stats.totalPeers / 100) * 100), // Estimado
-      available: wireGuardServer.isRunning(),
+      keyRotation: instance.server.getServerConfig().keyRotation,
       maxConnections: 100,
-      activeConnections: stats.totalPeers || 0,
       protocol: 'WireGuard'
     },
     timestamp: new Date()
@@ -151,28 +330,114 @@ app.post('/api/vpn/ikev2-config', async (req, res) => {
 });
 
 // Nuevo endpoint para generar configuración WireGuard
-app.post('/api/vpn/wireguard-config', async (req, res) => {
+app.post('/api/vpn/wireguard-config', verifyAuthToken, async (req, res) => {
   try {
     console.log('🔄 INICIANDO generación de configuración WireGuard...');
-    console.log('📥 Request body:', req.body);
     
-    const userId = req.body.userId || 'anonymous-' + Date.now();
-    console.log('👤 User ID:', userId);
+    // El dispositivo siempre es del usuario autenticado, nunca del body
+    const userId: string = (req as any).user.uid;
+    const { deviceId, deviceName, platform, rotate, publicKey, profile } = req.body;
+    const expiresAt = req.body.expiresAt !== undefined ? new Date(req.body.expiresAt) : undefined;
+    const instance = resolveInstance(req.body.instance ?? req.query.instance);
+    console.log('👤 User ID:', userId, '📱 Device:', deviceId || '(default)', '🖧 Instancia:', instance?.config.id);
+    
+    if (!instance) {
+      return res.status(404).json({
+        success: false,
+        error: `Instancia WireGuard desconocida; disponibles: ${Array.from(instances.keys()).join(', ')}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    const requestedFormat = req.body.format || req.query.format;
+    const accepted = req.accepts(['application/json', ...Object.keys(CONFIG_MEDIA_TYPES)]);
+    const format: ClientConfigFormat | undefined = requestedFormat || (accepted ? CONFIG_MEDIA_TYPES[accepted] : undefined);
     
-    console.log('🔧 Llamando a wireGuardServer.generateClientConfig...');
-    const config = await wireGuardServer.generateClientConfig(userId);
+    if (format && !CLIENT_CONFIG_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format debe ser uno de: ${CLIENT_CONFIG_FORMATS.join(', ')}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (deviceId !== undefined && (typeof deviceId !== 'string' || !DEVICE_ID_PATTERN.test(deviceId))) {
+      return res.status(400).json({
+        success: false,
+        error: 'deviceId debe tener de 1 a 64 caracteres: letras, dígitos, _ o -',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (platform && !DEVICE_PLATFORMS.includes(platform)) {
+      return res.status(400).json({
+        success: false,
+        error: `platform debe ser uno de: ${DEVICE_PLATFORMS.join(', ')}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (expiresAt && (isNaN(expiresAt.getTime()) || expiresAt <= new Date())) {
+      return res.status(400).json({
+        success: false,
+        error: 'expiresAt debe ser una fecha ISO 8601 futura',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (!publicKey && config.vpn.requireClientKeys) {
+      return res.status(400).json({
+        success: false,
+        error: 'publicKey requerida: el dispositivo debe generar sus propias keys',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    const plan = await lookupUserPlan(userId);
+    
+    console.log('🔧 Llamando a generateClientConfig...');
+    const issued = await instance.server.generateClientConfig(userId, {
+      deviceId,
+      deviceName,
+      platform,
+      rotate: rotate === true,
+      publicKey,
+      plan,
+      profile,
+      expiresAt
+    });
     
-    console.log('✅ Configuración generada exitosamente');
-    console.log('📋 Tipo de configuración:', typeof config);
-    console.log('📋 Longitud de configuración:', config ? config.length : 'N/A');
-    console.log('📋 Primeros 200 caracteres:', config ? config.substring(0, 200) + '...' : 'NULL');
+    console.log(`✅ Configuración ${issued.created ? 'generada' : issued.rotated ? 'rotada' : 'reutilizada'} exitosamente`);
+    recordConfigIssued(instance.config.id, issued.created ? 'created' : issued.rotated ? 'rotated' : 'reused');
+    console.log('📋 Longitud de configuración:', issued.config.length);
+    
+    // Formatos de archivo: se descargan tal cual (metadatos en cabeceras)
+    if (format && format !== 'json') {
+      const file = serializeClientConfig(issued.document, format, issued.peer.platform);
+      res.set({
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+        'X-Device-Id': issued.peer.deviceId || '',
+        'X-Instance-Id': instance.config.id,
+        'X-Private-Key-Required': String(issued.privateKeyRequired)
+      });
+      return res.send(file.body);
+    }
     
     const response: ApiResponse = {
       success: true,
       data: {
-        config,
-        serverInfo: wireGuardServer.getServerConfig(),
-        userId
+        config: format === 'json' ? issued.document : issued.config,
+        format: format || 'wg-quick',
+        serverInfo: instance.server.getServerConfig(),
+        instance: instance.config.id,
+        userId,
+        deviceId: issued.peer.deviceId,
+        created: issued.created,
+        rotated: issued.rotated,
+        expiresAt: issued.peer.expiresAt,
+        privateKeyRequired: issued.privateKeyRequired
       },
       timestamp: new Date()
     };
@@ -193,7 +458,229 @@ app.post('/api/vpn/wireguard-config', async (req, res) => {
       error: error instanceof Error ? error.message : 'Error generando configuración',
       timestamp: new Date()
     };
-    res.status(500).json(response);
+    recordConfigFailure(resolveInstance(req.body.instance ?? req.query.instance)?.config.id || 'unknown', describeIssueFailure(error));
+    res.status(issueFailureStatus(error)).json(response);
+  }
+});
+
+/**
+ * Plan del usuario (límite de velocidad y cuota): sale de su suscripción en Firestore, nunca del body
+ */
+async function lookupUserPlan(userId: string): Promise<string | undefined> {
+  return config.firebase.projectId ? await getUserPlan(userId).catch(() => undefined) : undefined;
+}
+
+/**
+ * Código HTTP de un fallo de emisión de configuración
+ */
+function issueFailureStatus(error: unknown): number {
+  if (error instanceof IpPoolExhaustedError) return 503;
+  if (error instanceof DeviceLimitError) return 409;
+  if (error instanceof BannedError) return 403;
+  if (error instanceof InvalidClientKeyError || error instanceof InvalidClientProfileError) return 400;
+  return 500;
+}
+
+/**
+ * Motivo de un fallo de emisión para las métricas (valores acotados)
+ */
+function describeIssueFailure(error: unknown): string {
+  if (error instanceof IpPoolExhaustedError) return 'pool_exhausted';
+  if (error instanceof DeviceLimitError) return 'device_limit';
+  if (error instanceof BannedError) return 'banned';
+  if (error instanceof InvalidClientKeyError) return 'invalid_key';
+  if (error instanceof InvalidClientProfileError) return 'invalid_profile';
+  return 'error';
+}
+
+// Dispositivos WireGuard del usuario autenticado
+app.get('/api/vpn/wireguard-devices', verifyAuthToken, async (req, res) => {
+  const user = (req as any).user;
+  const devices = Array.from(instances.values()).flatMap(instance => instance.server.getUserPeers(user.uid).map(peer => ({
+    instance: instance.config.id,
+    deviceId: peer.deviceId,
+    deviceName: peer.deviceName,
+    platform: peer.platform,
+    address: peer.allowedIPs,
+    createdAt: peer.createdAt,
+    lastSeenAt: peer.lastSeenAt,
+    expiresAt: peer.expiresAt,
+    // Emitida con una key del servidor rotada: hay que volver a pedir la configuración
+    configStale: instance.server.isConfigStale(peer)
+  })));
+  
+  const response: ApiResponse = {
+    success: true,
+    data: { devices },
+    timestamp: new Date()
+  };
+  res.json(response);
+});
+
+// Cuota de datos del ciclo actual del usuario autenticado
+app.get('/api/vpn/quota', verifyAuthToken, async (req, res) => {
+  const user = (req as any).user;
+  
+  const response: ApiResponse = {
+    success: true,
+    data: quotaManager.getStatus(user.uid),
+    timestamp: new Date()
+  };
+  res.json(response);
+});
+
+// Rotar la preshared key de un dispositivo (mantiene su par de keys)
+app.post('/api/vpn/wireguard-devices/:deviceId/rotate-psk', verifyAuthToken, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const [instance] = findDeviceInstances(user.uid, req.params.deviceId, req.query.instance);
+    
+    if (!instance) {
+      return res.status(404).json({
+        success: false,
+        error: 'Dispositivo no encontrado',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    const issued = await instance.server.rotatePresharedKey(user.uid, req.params.deviceId);
+    
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        config: issued.config,
+        instance: instance.config.id,
+        deviceId: req.params.deviceId,
+        privateKeyRequired: issued.privateKeyRequired
+      },
+      timestamp: new Date()
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('❌ ERROR rotando preshared key:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error rotando preshared key',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+// Emitir keys para un dispositivo y devolver su configuración como QR (png, svg, terminal o utf8)
+// La private key no se guarda: un dispositivo existente recibe keys nuevas
+app.post('/api/vpn/wireguard-devices/:deviceId/qr', verifyAuthToken, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const deviceId = req.params.deviceId;
+    const format = (req.query.format || 'png') as QrFormat;
+    const errorCorrection = String(req.query.ecc || 'M').toUpperCase() as QrErrorCorrection;
+    const size = req.query.size ? parseInt(String(req.query.size)) : undefined;
+    
+    if (!QR_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format debe ser uno de: ${QR_FORMATS.join(', ')}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (!QR_ERROR_CORRECTIONS.includes(errorCorrection)) {
+      return res.status(400).json({
+        success: false,
+        error: `ecc debe ser uno de: ${QR_ERROR_CORRECTIONS.join(', ')}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (size !== undefined && (isNaN(size) || size < QR_MIN_SIZE || size > QR_MAX_SIZE)) {
+      return res.status(400).json({
+        success: false,
+        error: `size debe estar entre ${QR_MIN_SIZE} y ${QR_MAX_SIZE}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (!DEVICE_ID_PATTERN.test(deviceId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'deviceId debe tener de 1 a 64 caracteres: letras, dígitos, _ o -',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    if (config.vpn.requireClientKeys) {
+      return res.status(409).json({
+        success: false,
+        error: 'El servidor no genera keys: el dispositivo debe pedir su configuración con publicKey',
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    // Un dispositivo existente rota sus keys en su instancia; uno nuevo se crea en la pedida
+    const [existing] = findDeviceInstances(user.uid, deviceId, req.query.instance);
+    const instance = existing || resolveInstance(req.query.instance);
+    if (!instance) {
+      return res.status(404).json({
+        success: false,
+        error: `Instancia WireGuard desconocida; disponibles: ${Array.from(instances.keys()).join(', ')}`,
+        timestamp: new Date()
+      } as ApiResponse);
+    }
+    
+    const issued = await instance.server.generateClientConfig(user.uid, {
+      deviceId,
+      rotate: !!existing,
+      plan: await lookupUserPlan(user.uid)
+    });
+    recordConfigIssued(instance.config.id, issued.created ? 'created' : 'rotated');
+    
+    const qr = await instance.server.renderClientConfigQr(issued, { format, size, errorCorrection });
+    
+    // Contiene la private key del dispositivo
+    res.set({
+      'Cache-Control': 'no-store',
+      'X-Device-Id': deviceId,
+      'X-Instance-Id': instance.config.id
+    });
+    res.type(qr.contentType).send(qr.data);
+  } catch (error) {
+    console.error('❌ ERROR generando QR de configuración:', error);
+    recordConfigFailure(resolveInstance(req.query.instance)?.config.id || 'unknown', describeIssueFailure(error));
+    res.status(error instanceof PrivateKeyUnavailableError ? 409 : issueFailureStatus(error)).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error generando QR',
+      timestamp: new Date()
+    } as ApiResponse);
+  }
+});
+
+// Eliminar un dispositivo WireGuard del usuario autenticado (de todas las instancias salvo ?instance=<id>)
+app.delete('/api/vpn/wireguard-devices/:deviceId', verifyAuthToken, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const removedFrom = findDeviceInstances(user.uid, req.params.deviceId, req.query.instance);
+    
+    for (const instance of removedFrom) {
+      await instance.server.removeClient(user.uid, req.params.deviceId, 'user-removed');
+    }
+    
+    const response: ApiResponse = {
+      success: true,
+      data: {
+        deviceId: req.params.deviceId,
+        removed: true,
+        instances: removedFrom.map(instance => instance.config.id)
+      },
+      timestamp: new Date()
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('❌ ERROR eliminando dispositivo WireGuard:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Error eliminando dispositivo',
+      timestamp: new Date()
+    } as ApiResponse);
   }
 });
 
@@ -237,17 +724,37 @@ async function startServer() {
       console.log('⚠️  Firebase no configurado, usando autenticación simple');
     }
     
-    // Iniciar servidor WireGuard
-    await wireGuardServer.start();
-    console.log(`✅ WireGuard Server iniciado en ${config.vpn.serverIp}:${config.vpn.wireGuardPort || 51820}`);
+    // Iniciar instancias WireGuard
+    for (const instance of instances.values()) {
+      await instance.server.start();
+      console.log(`✅ WireGuard Server ${instance.config.id} iniciado en ${config.vpn.serverIp}:${instance.config.port} (${instance.config.interface})`);
+    }
+    await quotaManager.start();
+    await banList.load(primaryInstance.peerStore);
+    await revokeBannedPeers('startup');
+    peerReaper.start();
+    if (!config.vpn.reaperEnabled) {
+      const pending = peerReaper.report().candidates.length;
+      console.log(`🧹 Limpieza de peers desactivada (${pending} dispositivos se retirarían; ver GET /api/vpn/reaper)`);
+    }
+
+    // Autodiagnóstico de arranque (sólo informa; las correcciones van por la API o el CLI)
+    const report = await runServerDiagnostics();
+    console.log(`🩺 Diagnóstico: ${report.summary.pass} ok, ${report.summary.warn} avisos, ${report.summary.fail} fallos`);
+    for (const check of report.checks.filter(result => result.status !== 'pass')) {
+      console.log(`${check.status === 'fail' ? '❌' : '⚠️ '} [${check.instance || 'host'}] ${check.id}: ${check.evidence}`);
+    }
     
     // Iniciar servidor HTTP
     const server = app.listen(config.PORT, () => {
       console.log(`✅ Servidor HTTP corriendo en puerto ${config.PORT}`);
       console.log(`🌍 Entorno: ${config.NODE_ENV}`);
       console.log(`🔗 API: http://${config.vpn.serverIp}:${config.PORT}`);
-      console.log(`🔒 VPN: WireGuard en ${config.vpn.serverIp}:${config.vpn.wireGuardPort || 51820}`);
+      for (const instance of instances.values()) {
+        console.log(`🔒 VPN: WireGuard ${instance.config.id} en ${config.vpn.serverIp}:${instance.config.port}`);
+      }
     });
+    liveChannel.attach(server);
 
     // Manejo de cierre graceful
     process.on('SIGTERM', async () => {
@@ -260,6 +767,18 @@ async function startServer() {
       await shutdown(server);
     });
 
+    // Rotar la key de todas las instancias: kill -USR2 <pid>
+    process.on('SIGUSR2', async () => {
+      console.log('🔑 Recibida señal SIGUSR2, rotando keys del servidor...');
+      for (const instance of instances.values()) {
+        try {
+          await instance.server.rotateServerKey();
+        } catch (error) {
+          console.error(`❌ Error rotando la key de la instancia ${instance.config.id}:`, error);
+        }
+      }
+    });
+
   } catch (error) {
     console.error('❌ Error al iniciar servidor:', error);
     process.exit(1);
@@ -270,8 +789,14 @@ async function startServer() {
  * Cierre graceful del servidor
  */
 async function shutdown(server: any) {
-  console.log('🔄 Cerrando servidor WireGuard...');
-  await wireGuardServer.stop();
+  console.log('🔄 Cerrando servidores WireGuard...');
+  liveChannel.close();
+  liveEvents.detach();
+  peerReaper.stop();
+  await quotaManager.stop();
+  for (const instance of instances.values()) {
+    await instance.server.stop();
+  }
   
   console.log('🔄 Cerrando servidor HTTP...');
   server.close(() => {
@@ -304,7 +829,93 @@ startServer();
  * Exportar instancia de WireGuard server para diagnósticos
  */
 export function getWireGuardServer(): WireGuardServer {
-  return wireGuardServer;
+  return primaryInstance.server;
+}
+
+/**
+ * Autodiagnóstico del host y de cada instancia
+ */
+export function runServerDiagnostics(options: DiagnosticOptions = {}): Promise<DiagnosticReport> {
+  // Las pruebas de conectividad del host no dicen nada en simulación
+  const checks: DiagnosticCheck[] = config.vpn.backend === 'linux' ? createHostChecks() : [];
+  for (const instance of instances.values()) {
+    checks.push(...instance.server.getDiagnosticChecks().map(check => ({ ...check, instance: instance.config.id })));
+  }
+  return runDiagnostics(checks, options);
+}
+
+/**
+ * Revocar en todas las instancias los dispositivos con bloqueo vigente
+ */
+async function revokeBannedPeers(actor: string): Promise<number> {
+  let revoked = 0;
+  for (const instance of instances.values()) {
+    for (const peer of await instance.server.revokeBannedPeers()) {
+      revoked++;
+      await auditLog.record({
+        action: 'peer-removed',
+        actor,
+        userId: peer.userId,
+        deviceId: peer.deviceId,
+        instance: instance.config.id,
+        reason: 'banned'
+      }).catch(error => console.error('⚠️ Error escribiendo el log de auditoría:', error));
+    }
+  }
+  return revoked;
+}
+
+/**
+ * Bloquear un usuario, dispositivo o public key y revocar sus peers actuales
+ */
+export async function addBan(input: BanInput, actor: string) {
+  const ban = await banList.add(input, actor);
+  const revokedPeers = await revokeBannedPeers(actor);
+  return { ban, revokedPeers };
+}
+
+/**
+ * Fijar, ampliar o quitar (undefined) la caducidad de un dispositivo en todas las instancias
+ *
+ * @returns Instancias en las que estaba el dispositivo
+ */
+export async function setDeviceExpiry(userId: string, deviceId: string, expiresAt: Date | undefined, actor: string): Promise<string[]> {
+  const updated: string[] = [];
+  for (const instance of instances.values()) {
+    if (!await instance.server.setPeerExpiry(userId, deviceId, expiresAt)) continue;
+
+    updated.push(instance.config.id);
+    await auditLog.record({
+      action: 'expiry-changed',
+      actor,
+      userId,
+      deviceId,
+      instance: instance.config.id,
+      details: { expiresAt: expiresAt || null }
+    }).catch(error => console.error('⚠️ Error escribiendo el log de auditoría:', error));
+  }
+  return updated;
+}
+
+/**
+ * Lista de bloqueos
+ */
+export function getBanList(): BanList {
+  return banList;
+}
+
+/**
+ * Limpieza de peers inactivos y caducados
+ */
+export function getPeerReaper(): PeerReaper {
+  return peerReaper;
+}
+
+/**
+ * Todas las instancias WireGuard (la principal primero)
+ */
+export function getWireGuardInstances(): WireGuardInstance[] {
+  return Array.from(instances.values());
 }
 
 export default app; 
\ No newline at end of file
@@ -19,18 +19,259 @@ export interface WireGuardConfig {
   serverVpnIp: string;
   clientSubnet: string;
   dns: string[];
+  backend: 'linux' | 'simulation';
+  configDir: string;
+  ipCooldownMs: number;
+  staticIps: Record<string, string>;
+  peerStore: 'json' | 'sqlite';
+  peerStorePath: string;
+  maxDevicesPerUser: number;
+  requireClientKeys: boolean;
+  ipv6Enabled: boolean;
+  ipv6Prefix?: string;
+  ipv6ServerIp?: string;
+  dns6: string[];
+  pollIntervalMs: number;
+  firewallBackend: 'iptables' | 'nftables' | 'simulation';
+  egressInterface: string;
+  portForwards: string[];
+  interPeer: 'allow' | 'deny';
+  firewallDryRun: boolean;
+  shaper: 'tc' | 'simulation';
+  bandwidthPlans: Record<string, BandwidthLimit>;
+  defaultPlan: string;
+  quotaPlans: Record<string, number>;
+  quotaAction: 'throttle' | 'suspend';
+  quotaThrottleKbps: number;
+  quotaCycleDay: number;
+  /** Avisos de cuota al consumir estas fracciones del tope (0.8 = 80 %) */
+  quotaWarningThresholds: number[];
+  reaperEnabled: boolean;
+  reaperIdleHours: number;
+  reaperAction: 'remove' | 'suspend';
+  reaperIntervalMinutes: number;
+  keyRotationPort?: number;
+  keyRotationGraceHours: number;
+  clientMtu?: number;
+  persistentKeepalive: number;
+  clientProfiles: Partial<Record<DevicePlatform, ClientProfile>>;
+  instanceId: string;
+  instanceName: string;
+  location: string;
+  flag: string;
+  /** Instancias adicionales (JSON de WG_INSTANCES, validado al arrancar) */
+  instances: unknown[];
 }
 
+// Instancia WireGuard del proceso (interfaz, puerto, subred y key propias)
+export interface WireGuardInstanceConfig {
+  id: string;
+  name: string;
+  interface: string;
+  port: number;
+  clientSubnet: string;
+  serverVpnIp: string;
+  location: string;
+  flag: string;
+  keyRotationPort?: number;
+  ipv6Prefix?: string;
+  ipv6ServerIp?: string;
+  portForwards: string[];
+  /** Límites por plan propios (por defecto los globales) */
+  bandwidthPlans?: Record<string, BandwidthLimit>;
+  defaultPlan?: string;
+}
+
+// Estado de la rotación de keys del servidor
+export interface ServerKeyRotationStatus {
+  active: boolean;
+  currentPublicKey: string;
+  previousPublicKey?: string;
+  startedAt?: Date;
+  /** Momento en que la key anterior deja de aceptarse */
+  retireAt?: Date;
+  /** Dispositivos que aún no pidieron su nueva configuración */
+  pendingPeers: number;
+}
+
+// Resultado de una comprobación del autodiagnóstico
+export type DiagnosticStatus = 'pass' | 'warn' | 'fail';
+
+export interface DiagnosticCheckResult {
+  /** Identificador estable para alertas (p. ej. 'ip-forwarding') */
+  id: string;
+  title: string;
+  /** Instancia WireGuard comprobada (ausente en las comprobaciones del host) */
+  instance?: string;
+  status: DiagnosticStatus;
+  /** Lo observado en el sistema */
+  evidence: string;
+  /** Cómo corregirlo (sólo si no pasa) */
+  remediation?: string;
+  /** En modo fix: true si tras la corrección la comprobación pasa (el estado es el de después) */
+  fixed?: boolean;
+  durationMs: number;
+}
+
+// Informe del autodiagnóstico
+export interface DiagnosticReport {
+  /** Peor estado de todas las comprobaciones */
+  status: DiagnosticStatus;
+  fix: boolean;
+  summary: Record<DiagnosticStatus, number>;
+  checks: DiagnosticCheckResult[];
+  startedAt: Date;
+  durationMs: number;
+}
+
+// Motivo por el que la limpieza de peers retira un dispositivo
+export type ReapReason = 'idle' | 'expired';
+
+// Dispositivo que la limpieza retira (o retiraría en el informe)
+export interface ReapCandidate {
+  instance: string;
+  userId: string;
+  deviceId: string;
+  reason: ReapReason;
+  action: 'remove' | 'suspend';
+  createdAt?: Date;
+  lastSeenAt?: Date;
+  expiresAt?: Date;
+}
+
+// Resultado de una pasada de la limpieza de peers
+export interface ReapReport {
+  /** false = informe de lo que se retiraría, sin cambios */
+  applied: boolean;
+  /** Job periódico activo (WG_REAPER_ENABLED) */
+  enabled: boolean;
+  /** 0 = sin retirada por inactividad */
+  idleHours: number;
+  idleAction: 'remove' | 'suspend';
+  candidates: ReapCandidate[];
+  generatedAt: Date;
+}
+
+// Bloqueo de un usuario, un dispositivo o una public key
+export interface BanRecord {
+  id: string;
+  /** Usuario bloqueado (todos sus dispositivos salvo que se indique deviceId) */
+  userId?: string;
+  deviceId?: string;
+  publicKey?: string;
+  reason: string;
+  /** Quién lo creó */
+  actor: string;
+  createdAt: Date;
+  /** Sin fecha = indefinido */
+  expiresAt?: Date;
+  liftedAt?: Date;
+  liftedBy?: string;
+}
+
+// Acciones registradas en el log de auditoría
+export type AuditAction = 'peer-removed' | 'peer-suspended' | 'ban-added' | 'ban-lifted' | 'expiry-changed';
+
+// Entrada del log de auditoría (una línea JSON por entrada)
+export interface AuditEntry {
+  at: Date;
+  action: AuditAction;
+  /** Quién la ejecutó ('reaper', id del operador...) */
+  actor: string;
+  userId?: string;
+  deviceId?: string;
+  instance?: string;
+  reason?: string;
+  details?: Record<string, unknown>;
+}
+
+// Uso de datos de un usuario en el ciclo de facturación actual
+export interface QuotaStatus {
+  userId: string;
+  plan: string;
+  cycleStart: Date;
+  cycleEnd: Date;
+  usedBytes: number;
+  /** null = plan sin tope */
+  limitBytes: number | null;
+  remainingBytes: number | null;
+  status: 'ok' | 'throttled' | 'suspended';
+}
+
+// Aviso de consumo de cuota (threshold 1 = agotada y restricción aplicada)
+export interface QuotaWarning {
+  threshold: number;
+  quota: QuotaStatus;
+}
+
+// Límite de velocidad de un plan (kbit/s; 0 o ausente = sin límite)
+export interface BandwidthLimit {
+  downloadKbps?: number;
+  uploadKbps?: number;
+}
+
+// Perfil de la configuración de cliente (los campos ausentes heredan el valor por defecto)
+export interface ClientProfile {
+  /** Rutas por el túnel (por defecto 0.0.0.0/0 y ::/0) */
+  includedRoutes?: string[];
+  /** Rutas que salen fuera del túnel (p. ej. la LAN local) */
+  excludedRoutes?: string[];
+  dns?: string[];
+  mtu?: number;
+  /** Segundos; 0 desactiva el keepalive */
+  persistentKeepalive?: number;
+  /** Sólo Android: paquetes de las apps que usan el túnel */
+  includedApplications?: string[];
+  /** Sólo Android: paquetes de las apps que salen fuera del túnel */
+  excludedApplications?: string[];
+}
+
+// Plataforma del dispositivo de un peer
+export type DevicePlatform = 'ios' | 'android' | 'macos' | 'windows' | 'linux' | 'other';
+
 // Peer de WireGuard
 export interface WireGuardPeer {
   userId: string;
+  deviceId?: string;
+  deviceName?: string;
+  platform?: DevicePlatform;
   publicKey: string;
-  privateKey: string;
+  /**
+   * Sólo en registros antiguos: la private key generada por el servidor ya no
+   * se guarda y loadPeers la borra al rehidratar
+   */
+  privateKey?: string;
+  /** PSK por peer (capa simétrica adicional, resistencia post-cuántica) */
+  presharedKey?: string;
   allowedIPs: string;
   endpoint?: string;
   lastHandshake?: Date;
+  /** Epoch en segundos del último handshake, tal como lo reporta `wg` */
+  latestHandshakeEpoch?: number;
   bytesReceived?: number;
   bytesSent?: number;
+  persistentKeepalive?: number;
+  /** Handshake en los últimos 3 minutos */
+  connected?: boolean;
+  /** Plan contratado (determina el límite de velocidad) */
+  plan?: string;
+  /** Límite aplicado actualmente en la interfaz */
+  bandwidthLimit?: BandwidthLimit;
+  /** Perfil pedido por el dispositivo (sobre los valores por defecto de su plataforma) */
+  profile?: ClientProfile;
+  /** Public key del servidor con la que se emitió su configuración */
+  serverPublicKey?: string;
+  createdAt?: Date;
+  lastSeenAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+  /** Suspendido temporalmente (p. ej. cuota agotada): fuera de la interfaz pero no revocado */
+  suspendedAt?: Date;
+  suspendedReason?: string;
+  /** Configuración temporal (prueba, invitado): se retira al vencer */
+  expiresAt?: Date;
+  /** Alta o reactivación tras inactividad (la limpieza cuenta la inactividad desde aquí) */
+  activatedAt?: Date;
 }
 
 // Configuración del cliente WireGuard
@@ -90,6 +331,7 @@ export interface ServerInfo {
   available: boolean;
   protocol?: 'nodex' | 'wireguard';
   publicKey?: string; // Para WireGuard
+  activeConnections?: number;
 }
 
 // Usuario autenticado
@@ -122,16 +364,95 @@ export enum PacketType {
   ERROR = 0x06
 }
 
+// Credencial del AUTH_REQUEST del protocolo Nodex (payload JSON)
+export interface NodexCredential {
+  /** jwt: token interno de /api/auth/login; firebase: ID token; dev: sólo en development */
+  type: 'jwt' | 'firebase' | 'dev';
+  token?: string;
+  /** Usuario simulado (type = 'dev') */
+  userId?: string;
+}
+
+// Motivos de rechazo del handshake Nodex (campo code de AUTH_RESPONSE y ERROR)
+export type NodexAuthErrorCode =
+  | 'malformed_request'
+  | 'unsupported_credential'
+  | 'invalid_token'
+  | 'token_expired'
+  | 'subscription_inactive'
+  | 'auth_unavailable'
+  | 'unexpected_packet'
+  | 'internal_error';
+
 // Evento de conexión VPN
 export interface VpnConnectionEvent {
   clientId: string;
   userId: string;
-  event: 'connected' | 'disconnected' | 'error';
+  event: 'connected' | 'disconnected' | 'error' | WireGuardPeerEventType;
   timestamp: Date;
   data?: any;
   protocol?: 'nodex' | 'wireguard';
 }
 
+// Eventos de ciclo de vida de peers WireGuard (diferencias entre muestras de `wg`)
+export type WireGuardPeerEventType =
+  | 'peer-added'
+  | 'peer-removed'
+  | 'handshake'
+  | 'peer-online'
+  | 'peer-offline'
+  | 'endpoint-changed'
+  | 'transfer';
+
+// Evento de peer WireGuard; clientId es la clave usuario:dispositivo
+export interface WireGuardPeerEvent extends VpnConnectionEvent {
+  event: WireGuardPeerEventType;
+  protocol: 'wireguard';
+  deviceId: string;
+  publicKey: string;
+  data: WireGuardPeerEventData;
+}
+
+export interface WireGuardPeerEventData {
+  endpoint?: string;
+  /** Endpoint anterior (endpoint-changed) */
+  previousEndpoint?: string;
+  lastHandshake?: Date;
+  /** Bytes desde la muestra anterior (transfer) */
+  rxBytes?: number;
+  txBytes?: number;
+  /** Contadores acumulados de la interfaz */
+  bytesReceived?: number;
+  bytesSent?: number;
+  /** true si los contadores se reiniciaron (interfaz recreada) */
+  counterReset?: boolean;
+  /** Milisegundos desde la muestra anterior */
+  intervalMs?: number;
+}
+
+// Dispositivo sacado de la interfaz por el servidor (revocado o suspendido)
+export interface ForcedDisconnect {
+  userId: string;
+  deviceId: string;
+  action: 'revoked' | 'suspended';
+  reason: string;
+  timestamp: Date;
+}
+
+// Eventos del canal en vivo (WebSocket)
+export type LiveEventType = 'peer-status' | 'traffic' | 'quota-warning' | 'disconnected';
+
+export interface LiveEvent {
+  /** Secuencia creciente del proceso (para reanudar tras reconectar) */
+  seq: number;
+  type: LiveEventType;
+  userId: string;
+  deviceId?: string;
+  instance?: string;
+  data: Record<string, unknown>;
+  timestamp: Date;
+}
+
 // Configuración de Firebase
 export interface FirebaseConfig {
   projectId: string;
@@ -165,6 +486,13 @@ export interface TunnelConfig {
 export interface WireGuardStats {
   peers: WireGuardPeer[];
   totalPeers: number;
+  /** Peers con handshake reciente */
+  activePeers: number;
   interface: string;
+  listenPort?: number;
+  /** Porcentaje de ocupación del pool de IPs */
   serverLoad: number;
+  collectedAt: Date;
+  /** Motivo si no se pudo leer alguna interfaz: los peers no reflejan su estado real */
+  error?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,35 @@
+/**
+ * AUDIT LOG - Registro de acciones sobre peers y usuarios
+ *
+ * Una línea JSON por entrada, sólo se añade: conserva quién retiró o suspendió
+ * un dispositivo y por qué aunque el peer ya no esté en la interfaz.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AuditEntry } from '../types';
+
+export class AuditLog {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private ready?: Promise<unknown>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Añadir una entrada (las escrituras se encadenan para no intercalar líneas)
+   */
+  record(entry: Omit<AuditEntry, 'at'>): Promise<void> {
+    const line = JSON.stringify({ at: new Date(), ...entry }) + '\n';
+    const write = async () => {
+      this.ready = this.ready || fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await this.ready;
+      await fs.appendFile(this.filePath, line, { mode: 0o600 });
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+}
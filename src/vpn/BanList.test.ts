@@ -0,0 +1,78 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AuditLog } from './AuditLog';
+import { BanList, InvalidBanError } from './BanList';
+import { JsonFilePeerStore } from './JsonFilePeerStore';
+
+describe('BanList', () => {
+  let dir: string;
+  let store: JsonFilePeerStore;
+  let bans: BanList;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nodex-bans-'));
+    store = new JsonFilePeerStore(path.join(dir, 'peers.json'));
+    await store.open();
+    bans = new BanList(new AuditLog(path.join(dir, 'audit.log')));
+    await bans.load(store);
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('bloquea un usuario en todos sus dispositivos', async () => {
+    await bans.add({ userId: 'alice', reason: 'abuso' }, 'admin');
+
+    expect(bans.isBanned({ userId: 'alice', deviceId: 'phone' })).toBe(true);
+    expect(bans.isBanned({ userId: 'alice' })).toBe(true);
+    expect(bans.isBanned({ userId: 'bob' })).toBe(false);
+  });
+
+  it('bloquea un dispositivo concreto o una public key', async () => {
+    await bans.add({ userId: 'alice', deviceId: 'phone', reason: 'abuso' }, 'admin');
+    await bans.add({ publicKey: 'KEY=', reason: 'filtrada' }, 'admin');
+
+    expect(bans.isBanned({ userId: 'alice', deviceId: 'phone' })).toBe(true);
+    expect(bans.isBanned({ userId: 'alice', deviceId: 'laptop' })).toBe(false);
+    expect(bans.isBanned({ userId: 'bob', publicKey: 'KEY=' })).toBe(true);
+  });
+
+  it('deja de aplicar un bloqueo levantado', async () => {
+    const ban = await bans.add({ userId: 'alice', reason: 'abuso' }, 'admin');
+    await bans.lift(ban.id, 'admin');
+
+    expect(bans.isBanned({ userId: 'alice' })).toBe(false);
+    expect(bans.list()).toEqual([]);
+    expect(bans.list(true)).toHaveLength(1);
+  });
+
+  it('valida el destino, el motivo y la caducidad', async () => {
+    await expect(bans.add({ reason: 'abuso' }, 'admin')).rejects.toThrow(InvalidBanError);
+    await expect(bans.add({ userId: 'alice', publicKey: 'KEY=', reason: 'abuso' }, 'admin')).rejects.toThrow(InvalidBanError);
+    await expect(bans.add({ userId: 'alice', reason: ' ' }, 'admin')).rejects.toThrow('reason es obligatorio');
+    await expect(bans.add({ userId: 'alice', reason: 'abuso', expiresAt: new Date(Date.now() - 1000) }, 'admin'))
+      .rejects.toThrow(InvalidBanError);
+  });
+
+  it('recupera los bloqueos guardados con sus fechas', async () => {
+    const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+    await bans.add({ userId: 'alice', reason: 'abuso', expiresAt }, 'admin');
+    await store.close();
+
+    const reopened = new JsonFilePeerStore(path.join(dir, 'peers.json'));
+    await reopened.open();
+    const reloaded = new BanList(new AuditLog(path.join(dir, 'audit.log')));
+    await reloaded.load(reopened);
+
+    const [ban] = reloaded.list();
+    expect(ban.createdAt).toBeInstanceOf(Date);
+    expect(ban.expiresAt).toEqual(expiresAt);
+    expect(reloaded.isBanned({ userId: 'alice' })).toBe(true);
+    await reopened.close();
+  });
+});
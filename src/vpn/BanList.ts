@@ -0,0 +1,196 @@
+/**
+ * BAN LIST - Bloqueos de usuarios, dispositivos y public keys
+ *
+ * Revocar un peer sólo lo saca de la interfaz: el mismo usuario podría pedir
+ * otra configuración al momento. Un bloqueo (abuso, contracargo...) impide
+ * emitir configuración al usuario, al dispositivo o a la public key indicados
+ * hasta que se levante o venza. Se guarda en el store de la instancia
+ * principal, así que sobrevive a reinicios.
+ */
+
+import { randomUUID } from 'crypto';
+import { BanRecord, WireGuardPeer } from '../types';
+import { AuditLog } from './AuditLog';
+import { DEFAULT_DEVICE_ID, PeerStore } from './PeerStore';
+
+// Datos para crear un bloqueo: public key, o usuario (con o sin dispositivo)
+export interface BanInput {
+  userId?: string;
+  deviceId?: string;
+  publicKey?: string;
+  reason: string;
+  expiresAt?: Date;
+}
+
+// Lo que se comprueba al emitir configuración o generar la del servidor
+export type BanSubject = Pick<WireGuardPeer, 'userId' | 'deviceId'> & { publicKey?: string };
+
+export class BannedError extends Error {
+  constructor(public readonly ban: BanRecord) {
+    super(`Acceso bloqueado para ${describeTarget(ban)}${ban.expiresAt ? ` hasta ${ban.expiresAt.toISOString()}` : ''}`);
+    this.name = 'BannedError';
+  }
+}
+
+export class InvalidBanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidBanError';
+  }
+}
+
+export class BanNotFoundError extends Error {
+  constructor(id: string) {
+    super(`No existe el bloqueo ${id}`);
+    this.name = 'BanNotFoundError';
+  }
+}
+
+const STATE_KEY = 'bans';
+
+export class BanList {
+  private store?: PeerStore;
+  private audit: AuditLog;
+  private bans: BanRecord[] = [];
+
+  constructor(audit: AuditLog) {
+    this.audit = audit;
+  }
+
+  /**
+   * Cargar los bloqueos guardados (el store debe estar abierto)
+   *
+   * Hasta entonces la lista está vacía: las instancias se crean antes de abrir
+   * el store de la principal.
+   */
+  async load(store: PeerStore): Promise<void> {
+    this.store = store;
+    const saved = await store.getState<BanRecord[]>(STATE_KEY);
+    this.bans = (saved || []).map(reviveBan);
+    console.log(`✅ ${this.getActive().length} bloqueos activos`);
+  }
+
+  /**
+   * Bloqueos vigentes (o todos, incluidos los levantados y vencidos)
+   */
+  list(includeInactive: boolean = false): BanRecord[] {
+    return includeInactive ? [...this.bans] : this.getActive();
+  }
+
+  async add(input: BanInput, actor: string): Promise<BanRecord> {
+    const ban: BanRecord = {
+      id: randomUUID(),
+      ...parseTarget(input),
+      reason: (input.reason || '').trim(),
+      actor,
+      createdAt: new Date(),
+      expiresAt: input.expiresAt
+    };
+
+    if (!ban.reason) {
+      throw new InvalidBanError('reason es obligatorio');
+    }
+    if (ban.expiresAt && (isNaN(ban.expiresAt.getTime()) || ban.expiresAt <= ban.createdAt)) {
+      throw new InvalidBanError('expiresAt debe ser una fecha futura');
+    }
+
+    this.bans.push(ban);
+    await this.persist();
+    await this.record('ban-added', ban, actor);
+    console.log(`🚫 Bloqueo ${ban.id} para ${describeTarget(ban)} (${ban.reason})`);
+    return ban;
+  }
+
+  async lift(id: string, actor: string): Promise<BanRecord> {
+    const ban = this.bans.find(entry => entry.id === id);
+    if (!ban) {
+      throw new BanNotFoundError(id);
+    }
+    if (ban.liftedAt) return ban;
+
+    ban.liftedAt = new Date();
+    ban.liftedBy = actor;
+    await this.persist();
+    await this.record('ban-lifted', ban, actor);
+    console.log(`✅ Bloqueo ${ban.id} levantado para ${describeTarget(ban)}`);
+    return ban;
+  }
+
+  /**
+   * Bloqueo vigente que afecta a un usuario, dispositivo o public key
+   */
+  findActive(subject: BanSubject): BanRecord | undefined {
+    const deviceId = subject.deviceId || DEFAULT_DEVICE_ID;
+
+    return this.getActive().find(ban => {
+      if (ban.publicKey) return ban.publicKey === subject.publicKey;
+      if (ban.userId !== subject.userId) return false;
+      return !ban.deviceId || ban.deviceId === deviceId;
+    });
+  }
+
+  isBanned(subject: BanSubject): boolean {
+    return !!this.findActive(subject);
+  }
+
+  private getActive(now: Date = new Date()): BanRecord[] {
+    return this.bans.filter(ban => !ban.liftedAt && (!ban.expiresAt || ban.expiresAt > now));
+  }
+
+  private persist(): Promise<void> {
+    if (!this.store) {
+      throw new Error('Lista de bloqueos no cargada');
+    }
+    return this.store.setState(STATE_KEY, this.bans);
+  }
+
+  private record(action: 'ban-added' | 'ban-lifted', ban: BanRecord, actor: string): Promise<void> {
+    return this.audit.record({
+      action,
+      actor,
+      userId: ban.userId,
+      deviceId: ban.deviceId,
+      reason: ban.reason,
+      details: { banId: ban.id, publicKey: ban.publicKey, expiresAt: ban.expiresAt }
+    }).catch(error => console.error('⚠️ Error escribiendo el log de auditoría:', error));
+  }
+}
+
+/**
+ * Un bloqueo apunta a una public key o a un usuario (todo él o un dispositivo)
+ */
+function parseTarget(input: BanInput): Pick<BanRecord, 'userId' | 'deviceId' | 'publicKey'> {
+  if (input.publicKey) {
+    if (input.userId || input.deviceId) {
+      throw new InvalidBanError('publicKey no se combina con userId ni deviceId');
+    }
+    return { publicKey: input.publicKey };
+  }
+  if (!input.userId) {
+    throw new InvalidBanError('Se requiere userId (con deviceId opcional) o publicKey');
+  }
+  return { userId: input.userId, deviceId: input.deviceId };
+}
+
+function describeTarget(ban: BanRecord): string {
+  if (ban.publicKey) return 'esta public key';
+  return ban.deviceId ? `el dispositivo ${ban.userId}:${ban.deviceId}` : `el usuario ${ban.userId}`;
+}
+
+/**
+ * Bloqueo guardado (las fechas llegan del store como strings)
+ */
+function reviveBan(ban: BanRecord): BanRecord {
+  return {
+    id: ban.id,
+    userId: ban.userId,
+    deviceId: ban.deviceId,
+    publicKey: ban.publicKey,
+    reason: ban.reason,
+    actor: ban.actor,
+    createdAt: new Date(ban.createdAt),
+    expiresAt: ban.expiresAt ? new Date(ban.expiresAt) : undefined,
+    liftedAt: ban.liftedAt ? new Date(ban.liftedAt) : undefined,
+    liftedBy: ban.liftedBy
+  };
+}
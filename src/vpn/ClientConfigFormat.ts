@@ -0,0 +1,195 @@
+/**
+ * CLIENT CONFIG FORMAT - Modelo de la configuración de cliente y sus serializadores
+ *
+ * - wg-quick: INI estándar (Linux, Windows, macOS, import manual)
+ * - json: documento estructurado para las apps propias
+ * - mobileconfig: perfil de Apple con payload VPN para la app WireGuard (iOS/macOS)
+ * - android: INI de la app WireGuard para Android (admite split tunneling por app)
+ */
+
+import { randomUUID } from 'crypto';
+
+export type ClientConfigFormat = 'wg-quick' | 'json' | 'mobileconfig' | 'android';
+
+export const CLIENT_CONFIG_FORMATS: ClientConfigFormat[] = ['wg-quick', 'json', 'mobileconfig', 'android'];
+
+// Configuración de cliente independiente del formato
+export interface ClientConfigDocument {
+  /** Nombre del túnel en la app */
+  name: string;
+  interface: {
+    /** Ausente cuando la app genera sus propias keys */
+    privateKey?: string;
+    addresses: string[];
+    dns: string[];
+    mtu?: number;
+    /** Apps de Android que usan el túnel (el resto sale directo) */
+    includedApplications?: string[];
+    /** Apps de Android que no usan el túnel */
+    excludedApplications?: string[];
+  };
+  peer: {
+    publicKey: string;
+    presharedKey?: string;
+    endpoint: string;
+    allowedIPs: string[];
+    persistentKeepalive?: number;
+  };
+}
+
+export interface SerializedClientConfig {
+  format: ClientConfigFormat;
+  contentType: string;
+  filename: string;
+  body: string;
+}
+
+// La app de Android limita el nombre del túnel a 15 caracteres de este juego
+const ANDROID_TUNNEL_NAME = /[^a-zA-Z0-9_=+.-]/g;
+const ANDROID_TUNNEL_NAME_LENGTH = 15;
+
+/**
+ * Serializar una configuración en el formato pedido
+ *
+ * @param platform Para mobileconfig elige la app de macOS o la de iOS
+ */
+export function serializeClientConfig(
+  document: ClientConfigDocument,
+  format: ClientConfigFormat,
+  platform?: string
+): SerializedClientConfig {
+  switch (format) {
+    case 'wg-quick':
+      return {
+        format,
+        contentType: 'text/plain; charset=utf-8',
+        filename: `${document.name}.conf`,
+        body: toIni(document, false)
+      };
+    case 'json':
+      return {
+        format,
+        contentType: 'application/json; charset=utf-8',
+        filename: `${document.name}.json`,
+        body: JSON.stringify(document, null, 2)
+      };
+    case 'mobileconfig':
+      return {
+        format,
+        contentType: 'application/x-apple-aspen-config',
+        filename: `${document.name}.mobileconfig`,
+        body: toMobileConfig(document, platform === 'macos' ? 'com.wireguard.macos' : 'com.wireguard.ios')
+      };
+    case 'android': {
+      const name = androidTunnelName(document.name);
+      return {
+        format,
+        contentType: 'text/plain; charset=utf-8',
+        filename: `${name}.conf`,
+        body: toIni(document, true)
+      };
+    }
+    default:
+      throw new Error(`Formato de configuración desconocido: ${format}`);
+  }
+}
+
+/**
+ * Nombre de túnel válido para la app de Android (el del archivo importado)
+ */
+export function androidTunnelName(name: string): string {
+  return name.replace(ANDROID_TUNNEL_NAME, '-').substring(0, ANDROID_TUNNEL_NAME_LENGTH) || 'nodex';
+}
+
+/**
+ * INI wg-quick; las claves de apps sólo las entiende la app de Android
+ * (wg-quick rechaza claves desconocidas)
+ */
+function toIni(document: ClientConfigDocument, android: boolean): string {
+  const { interface: iface, peer } = document;
+  const lines = ['[Interface]'];
+
+  if (iface.privateKey) lines.push(`PrivateKey = ${iface.privateKey}`);
+  lines.push(`Address = ${iface.addresses.join(', ')}`);
+  if (iface.dns.length > 0) lines.push(`DNS = ${iface.dns.join(', ')}`);
+  if (iface.mtu) lines.push(`MTU = ${iface.mtu}`);
+  if (android && iface.includedApplications?.length) {
+    lines.push(`IncludedApplications = ${iface.includedApplications.join(', ')}`);
+  } else if (android && iface.excludedApplications?.length) {
+    lines.push(`ExcludedApplications = ${iface.excludedApplications.join(', ')}`);
+  }
+
+  lines.push('', '[Peer]', `PublicKey = ${peer.publicKey}`);
+  if (peer.presharedKey) lines.push(`PresharedKey = ${peer.presharedKey}`);
+  lines.push(`Endpoint = ${peer.endpoint}`, `AllowedIPs = ${peer.allowedIPs.join(', ')}`);
+  if (peer.persistentKeepalive) lines.push(`PersistentKeepalive = ${peer.persistentKeepalive}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * Perfil de configuración de Apple con un payload com.apple.vpn.managed
+ * para la app WireGuard (la configuración va en VendorConfig.WgQuickConfig)
+ */
+function toMobileConfig(document: ClientConfigDocument, vpnSubType: string): string {
+  const identifier = `com.nodex.vpn.${document.name.replace(/[^a-zA-Z0-9.-]/g, '-')}`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>PayloadDisplayName</key>
+  <string>${escapeXml(document.name)}</string>
+  <key>PayloadType</key>
+  <string>Configuration</string>
+  <key>PayloadVersion</key>
+  <integer>1</integer>
+  <key>PayloadIdentifier</key>
+  <string>${escapeXml(identifier)}</string>
+  <key>PayloadUUID</key>
+  <string>${randomUUID().toUpperCase()}</string>
+  <key>PayloadContent</key>
+  <array>
+    <dict>
+      <key>PayloadDisplayName</key>
+      <string>VPN</string>
+      <key>PayloadType</key>
+      <string>com.apple.vpn.managed</string>
+      <key>PayloadVersion</key>
+      <integer>1</integer>
+      <key>PayloadIdentifier</key>
+      <string>${escapeXml(identifier)}.vpn</string>
+      <key>PayloadUUID</key>
+      <string>${randomUUID().toUpperCase()}</string>
+      <key>UserDefinedName</key>
+      <string>${escapeXml(document.name)}</string>
+      <key>VPNType</key>
+      <string>VPN</string>
+      <key>VPNSubType</key>
+      <string>${vpnSubType}</string>
+      <key>VendorConfig</key>
+      <dict>
+        <key>WgQuickConfig</key>
+        <string>${escapeXml(toIni(document, false))}</string>
+      </dict>
+      <key>VPN</key>
+      <dict>
+        <key>RemoteAddress</key>
+        <string>${escapeXml(document.peer.endpoint)}</string>
+        <key>AuthenticationMethod</key>
+        <string>Password</string>
+      </dict>
+    </dict>
+  </array>
+</dict>
+</plist>
+`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,43 @@
+import { InvalidClientProfileError, parseClientProfile, resolveClientProfile } from './ClientProfile';
+
+describe('resolveClientProfile', () => {
+  it('resta las rutas excluidas de las incluidas para obtener AllowedIPs', () => {
+    const resolved = resolveClientProfile(
+      { dns: ['1.1.1.1'], persistentKeepalive: 25 },
+      { excludedRoutes: ['0.0.0.0/1'] },
+      { includedRoutes: ['0.0.0.0/0'] }
+    );
+
+    expect(resolved.allowedIPs).toEqual(['128.0.0.0/1']);
+    expect(resolved.dns).toEqual(['1.1.1.1']);
+    expect(resolved.persistentKeepalive).toBe(25);
+  });
+
+  it('enruta todo el tráfico sin rutas configuradas', () => {
+    expect(resolveClientProfile({}).allowedIPs).toEqual(['0.0.0.0/0', '::/0']);
+  });
+
+  it('rechaza un perfil cuyas exclusiones cubren todas las rutas', () => {
+    expect(() => resolveClientProfile({}, { includedRoutes: ['10.0.0.0/24'], excludedRoutes: ['10.0.0.0/8'] }))
+      .toThrow(InvalidClientProfileError);
+  });
+
+  it('la lista de apps más específica reemplaza a la otra', () => {
+    const resolved = resolveClientProfile(
+      { excludedApplications: ['com.example.bank'] },
+      { includedApplications: ['com.example.browser'] }
+    );
+
+    expect(resolved.includedApplications).toEqual(['com.example.browser']);
+    expect(resolved.excludedApplications).toBeUndefined();
+  });
+});
+
+describe('parseClientProfile', () => {
+  it('valida rutas, DNS y MTU', () => {
+    expect(() => parseClientProfile({ excludedRoutes: ['10.0.0.0/33'] })).toThrow('Ruta inválida en excludedRoutes');
+    expect(() => parseClientProfile({ dns: ['dns.example.com'] })).toThrow('Servidor DNS inválido');
+    expect(() => parseClientProfile({ mtu: 100 })).toThrow(InvalidClientProfileError);
+    expect(parseClientProfile({ includedRoutes: [' 10.0.0.0/8 '], mtu: '1420' })).toEqual({ includedRoutes: ['10.0.0.0/8'], mtu: 1420 });
+  });
+});
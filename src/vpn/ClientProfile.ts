@@ -0,0 +1,158 @@
+/**
+ * CLIENT PROFILE - Rutas, DNS, MTU y keepalive de la configuración de cliente
+ *
+ * El perfil efectivo de un dispositivo se compone, de menor a mayor prioridad,
+ * de los valores del servidor, el perfil de su plataforma y el que pidió la app.
+ * Las rutas excluidas se restan de las incluidas para obtener AllowedIPs
+ * (WireGuard no admite exclusiones directamente).
+ */
+
+import { ClientProfile } from '../types';
+import { parseCidr, parseIp, subtractCidrs } from './IpAddress';
+
+// Todo el tráfico por el túnel. ::/0 se enruta siempre: sin IPv6 en el servidor
+// el tráfico se descarta en lugar de salir por la red móvil fuera de la VPN
+export const FULL_TUNNEL_ROUTES = ['0.0.0.0/0', '::/0'];
+
+// Rango de MTU admitido (1280 es el mínimo de IPv6)
+const MIN_MTU = 1280;
+const MAX_MTU = 9000;
+
+// Nombre de paquete Android (com.example.app)
+const ANDROID_PACKAGE = /^[a-zA-Z][a-zA-Z0-9_]*(\.[a-zA-Z][a-zA-Z0-9_]*)+$/;
+
+// Perfil con todos los valores resueltos
+export interface ResolvedClientProfile {
+  allowedIPs: string[];
+  dns: string[];
+  mtu?: number;
+  /** undefined = sin keepalive */
+  persistentKeepalive?: number;
+  includedApplications?: string[];
+  excludedApplications?: string[];
+}
+
+export class InvalidClientProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidClientProfileError';
+  }
+}
+
+/**
+ * Validar y normalizar un perfil recibido (de la API o de la configuración)
+ */
+export function parseClientProfile(input: unknown): ClientProfile {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new InvalidClientProfileError('profile debe ser un objeto');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const profile: ClientProfile = {};
+
+  if (raw.includedRoutes !== undefined) {
+    profile.includedRoutes = parseRoutes(raw.includedRoutes, 'includedRoutes');
+    if (profile.includedRoutes.length === 0) {
+      throw new InvalidClientProfileError('includedRoutes no puede estar vacío');
+    }
+  }
+  if (raw.excludedRoutes !== undefined) {
+    profile.excludedRoutes = parseRoutes(raw.excludedRoutes, 'excludedRoutes');
+  }
+
+  if (raw.dns !== undefined) {
+    profile.dns = toStringList(raw.dns, 'dns').map(server => {
+      try {
+        parseIp(server);
+        return server.trim();
+      } catch {
+        throw new InvalidClientProfileError(`Servidor DNS inválido: ${server}`);
+      }
+    });
+    if (profile.dns.length === 0) {
+      throw new InvalidClientProfileError('dns no puede estar vacío');
+    }
+  }
+
+  if (raw.mtu !== undefined) {
+    const mtu = Number(raw.mtu);
+    if (!Number.isInteger(mtu) || mtu < MIN_MTU || mtu > MAX_MTU) {
+      throw new InvalidClientProfileError(`mtu debe ser un entero entre ${MIN_MTU} y ${MAX_MTU}`);
+    }
+    profile.mtu = mtu;
+  }
+
+  if (raw.persistentKeepalive !== undefined) {
+    const keepalive = Number(raw.persistentKeepalive);
+    if (!Number.isInteger(keepalive) || keepalive < 0 || keepalive > 65535) {
+      throw new InvalidClientProfileError('persistentKeepalive debe ser un entero entre 0 y 65535');
+    }
+    profile.persistentKeepalive = keepalive;
+  }
+
+  for (const field of ['includedApplications', 'excludedApplications'] as const) {
+    if (raw[field] === undefined) continue;
+    profile[field] = toStringList(raw[field], field).map(name => {
+      if (!ANDROID_PACKAGE.test(name)) {
+        throw new InvalidClientProfileError(`Paquete Android inválido en ${field}: ${name}`);
+      }
+      return name;
+    });
+  }
+  if (profile.includedApplications?.length && profile.excludedApplications?.length) {
+    throw new InvalidClientProfileError('includedApplications y excludedApplications son excluyentes');
+  }
+
+  return profile;
+}
+
+/**
+ * Combinar perfiles campo a campo (los posteriores prevalecen)
+ */
+export function resolveClientProfile(...profiles: Array<ClientProfile | undefined>): ResolvedClientProfile {
+  const merged: ClientProfile = {};
+  for (const profile of profiles) {
+    for (const [field, value] of Object.entries(profile || {})) {
+      if (value !== undefined) {
+        (merged as Record<string, unknown>)[field] = value;
+      }
+    }
+    // Las listas de apps son excluyentes: la más específica reemplaza a la otra
+    if (profile?.includedApplications) delete merged.excludedApplications;
+    if (profile?.excludedApplications) delete merged.includedApplications;
+  }
+
+  const allowedIPs = subtractCidrs(merged.includedRoutes || FULL_TUNNEL_ROUTES, merged.excludedRoutes || []);
+  if (allowedIPs.length === 0) {
+    throw new InvalidClientProfileError('Las rutas excluidas cubren todas las incluidas');
+  }
+
+  return {
+    allowedIPs,
+    dns: merged.dns || [],
+    mtu: merged.mtu,
+    persistentKeepalive: merged.persistentKeepalive || undefined,
+    includedApplications: merged.includedApplications,
+    excludedApplications: merged.excludedApplications
+  };
+}
+
+function parseRoutes(value: unknown, field: string): string[] {
+  return toStringList(value, field).map(route => {
+    try {
+      parseCidr(route);
+      return route.trim();
+    } catch {
+      throw new InvalidClientProfileError(`Ruta inválida en ${field}: ${route}`);
+    }
+  });
+}
+
+function toStringList(value: unknown, field: string): string[] {
+  const list = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) {
+    throw new InvalidClientProfileError(`${field} debe ser una lista de strings`);
+  }
+  return list.map(item => item.trim()).filter(item => item);
+}
@@ -0,0 +1,71 @@
+/**
+ * CONFIG QR CODE - Configuración de cliente como código QR
+ *
+ * Las apps oficiales de WireGuard (Android/iOS) importan un túnel escaneando
+ * el texto wg-quick completo, así que el QR codifica la configuración tal cual.
+ */
+
+import QRCode from 'qrcode';
+
+export type QrFormat = 'png' | 'svg' | 'terminal' | 'utf8';
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export const QR_FORMATS: QrFormat[] = ['png', 'svg', 'terminal', 'utf8'];
+export const QR_ERROR_CORRECTIONS: QrErrorCorrection[] = ['L', 'M', 'Q', 'H'];
+export const QR_MIN_SIZE = 128;
+export const QR_MAX_SIZE = 2048;
+
+export interface QrOptions {
+  format?: QrFormat;
+  /** Ancho en píxeles (PNG/SVG) */
+  size?: number;
+  /** Nivel de corrección de errores (por defecto M; H reduce la capacidad) */
+  errorCorrection?: QrErrorCorrection;
+  /** Módulos de margen blanco alrededor del código */
+  margin?: number;
+}
+
+export interface QrImage {
+  contentType: string;
+  data: Buffer | string;
+}
+
+const CONTENT_TYPES: Record<QrFormat, string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  terminal: 'text/plain; charset=utf-8',
+  utf8: 'text/plain; charset=utf-8'
+};
+
+/**
+ * Renderizar una configuración wg-quick como QR
+ *
+ * - terminal: bloques con colores ANSI (para `curl` en una consola)
+ * - utf8: bloques Unicode sin colores (logs, texto plano)
+ */
+export async function renderConfigQr(config: string, options: QrOptions = {}): Promise<QrImage> {
+  const format = options.format || 'png';
+  const errorCorrectionLevel = options.errorCorrection || 'M';
+  const margin = options.margin ?? 4;
+  const width = Math.min(Math.max(options.size || 512, QR_MIN_SIZE), QR_MAX_SIZE);
+
+  let data: Buffer | string;
+  switch (format) {
+    case 'png':
+      data = await QRCode.toBuffer(config, { type: 'png', errorCorrectionLevel, margin, width });
+      break;
+    case 'svg':
+      data = await QRCode.toString(config, { type: 'svg', errorCorrectionLevel, margin, width });
+      break;
+    case 'terminal':
+      data = await QRCode.toString(config, { type: 'terminal', errorCorrectionLevel, small: true });
+      break;
+    case 'utf8':
+      data = await QRCode.toString(config, { type: 'utf8', errorCorrectionLevel, margin });
+      break;
+    default:
+      throw new Error(`Formato de QR desconocido: ${format}`);
+  }
+
+  return { contentType: CONTENT_TYPES[format], data };
+}
@@ -0,0 +1,160 @@
+/**
+ * DIAGNOSTICS - Autodiagnóstico del servidor VPN
+ *
+ * Cada comprobación devuelve un estado (pass/warn/fail), la evidencia en la que
+ * se basa y una pista para corregirla. Comprobar nunca modifica el sistema: sólo
+ * en modo fix las comprobaciones que saben corregirse lo intentan y se vuelven a
+ * ejecutar para informar del estado resultante.
+ */
+
+import { promises as dns } from 'dns';
+import { DiagnosticCheckResult, DiagnosticReport, DiagnosticStatus } from '../types';
+import { execAsync } from './SystemCommand';
+
+export interface DiagnosticOutcome {
+  status: DiagnosticStatus;
+  evidence: string;
+  remediation?: string;
+}
+
+export interface DiagnosticCheck {
+  id: string;
+  title: string;
+  instance?: string;
+  run(): Promise<DiagnosticOutcome>;
+  /** Corrección; sólo se llama en modo fix y si la comprobación no pasa */
+  fix?(): Promise<void>;
+}
+
+export interface DiagnosticOptions {
+  /** Aplicar las correcciones disponibles */
+  fix?: boolean;
+  /** Ejecutar sólo estos ids */
+  only?: string[];
+  /** Ejecutar sólo las comprobaciones de esta instancia (y las del host) */
+  instance?: string;
+}
+
+const STATUS_ORDER: DiagnosticStatus[] = ['pass', 'warn', 'fail'];
+
+// Destinos de las pruebas de conectividad del host
+const PROBE_IP = '8.8.8.8';
+const PROBE_HOSTNAME = 'google.com';
+const PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Ejecutar las comprobaciones en orden y componer el informe
+ */
+export async function runDiagnostics(checks: DiagnosticCheck[], options: DiagnosticOptions = {}): Promise<DiagnosticReport> {
+  const startedAt = new Date();
+  const selected = checks.filter(check =>
+    (!options.only?.length || options.only.includes(check.id)) &&
+    (!options.instance || !check.instance || check.instance === options.instance)
+  );
+
+  const results: DiagnosticCheckResult[] = [];
+  for (const check of selected) {
+    results.push(await runCheck(check, !!options.fix));
+  }
+
+  const summary: Record<DiagnosticStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  results.forEach(result => summary[result.status]++);
+
+  return {
+    status: results.reduce<DiagnosticStatus>((worst, result) => worseStatus(worst, result.status), 'pass'),
+    fix: !!options.fix,
+    summary,
+    checks: results,
+    startedAt,
+    durationMs: Date.now() - startedAt.getTime()
+  };
+}
+
+/**
+ * Conectividad del host (sólo tienen sentido contra el sistema real)
+ */
+export function createHostChecks(): DiagnosticCheck[] {
+  return [
+    {
+      id: 'internet',
+      title: 'Conectividad del servidor a internet',
+      run: async () => {
+        try {
+          await execAsync(`ping -c 1 -W 3 ${PROBE_IP}`, { timeout: PROBE_TIMEOUT_MS });
+          return { status: 'pass', evidence: `${PROBE_IP} responde a ping` };
+        } catch (error) {
+          return {
+            status: 'fail',
+            evidence: `${PROBE_IP} no responde a ping`,
+            remediation: 'Revisar la ruta por defecto (`ip route`) y la interfaz de salida (WG_EGRESS_INTERFACE)'
+          };
+        }
+      }
+    },
+    {
+      id: 'dns',
+      title: 'Resolución DNS desde el servidor',
+      run: async () => {
+        const resolver = new dns.Resolver({ timeout: PROBE_TIMEOUT_MS, tries: 1 });
+        resolver.setServers([PROBE_IP]);
+        try {
+          const addresses = await resolver.resolve4(PROBE_HOSTNAME);
+          return { status: 'pass', evidence: `${PROBE_HOSTNAME} -> ${addresses[0]} (vía ${PROBE_IP})` };
+        } catch (error) {
+          return {
+            status: 'fail',
+            evidence: `No se pudo resolver ${PROBE_HOSTNAME} vía ${PROBE_IP}: ${error instanceof Error ? error.message : error}`,
+            remediation: 'Comprobar que el firewall del proveedor permite DNS (UDP/TCP 53) de salida'
+          };
+        }
+      }
+    }
+  ];
+}
+
+async function runCheck(check: DiagnosticCheck, fix: boolean): Promise<DiagnosticCheckResult> {
+  const started = Date.now();
+  let outcome = await safeRun(check);
+  let fixed: boolean | undefined;
+
+  if (fix && check.fix && outcome.status !== 'pass') {
+    try {
+      await check.fix();
+      outcome = await safeRun(check);
+      // Sólo cuenta como corregido si la comprobación pasa tras aplicar la corrección
+      fixed = outcome.status === 'pass';
+    } catch (error) {
+      outcome = {
+        ...outcome,
+        evidence: `${outcome.evidence}; la corrección falló: ${error instanceof Error ? error.message : error}`
+      };
+      fixed = false;
+    }
+  }
+
+  return {
+    id: check.id,
+    title: check.title,
+    instance: check.instance,
+    status: outcome.status,
+    evidence: outcome.evidence,
+    remediation: outcome.status === 'pass' ? undefined : outcome.remediation,
+    fixed,
+    durationMs: Date.now() - started
+  };
+}
+
+async function safeRun(check: DiagnosticCheck): Promise<DiagnosticOutcome> {
+  try {
+    return await check.run();
+  } catch (error) {
+    return {
+      status: 'fail',
+      evidence: `Error ejecutando la comprobación: ${error instanceof Error ? error.message : error}`
+    };
+  }
+}
+
+function worseStatus(a: DiagnosticStatus, b: DiagnosticStatus): DiagnosticStatus {
+  return STATUS_ORDER.indexOf(b) > STATUS_ORDER.indexOf(a) ? b : a;
+}
@@ -0,0 +1,93 @@
+/**
+ * FIREWALL BACKEND - Abstracción de iptables/nftables
+ *
+ * Las reglas se describen de forma independiente del backend; cada backend las
+ * traduce y las instala en una cadena/tabla propia para poder reemplazarlas de
+ * forma idempotente y retirarlas sin tocar reglas ajenas (Docker, ufw...).
+ */
+
+import { IptablesFirewallBackend } from './IptablesFirewallBackend';
+import { NftablesFirewallBackend } from './NftablesFirewallBackend';
+import { SimulatedFirewallBackend } from './SimulatedFirewallBackend';
+
+export type FirewallFamily = 'ipv4' | 'ipv6';
+export type FirewallHook = 'input' | 'output' | 'forward' | 'prerouting' | 'postrouting';
+export type FirewallAction = 'accept' | 'drop' | 'masquerade' | 'dnat';
+
+// Regla de firewall declarativa
+export interface FirewallRule {
+  /** Identificador estable; se guarda como comentario para detectar deriva */
+  id: string;
+  family: FirewallFamily;
+  hook: FirewallHook;
+  inInterface?: string;
+  outInterface?: string;
+  source?: string;
+  destination?: string;
+  protocol?: 'tcp' | 'udp';
+  destinationPort?: number;
+  /** Sólo conexiones ya establecidas (conntrack RELATED,ESTABLISHED) */
+  established?: boolean;
+  action: FirewallAction;
+  /** Destino de DNAT (dirección y puerto) */
+  toAddress?: string;
+  toPort?: number;
+}
+
+// Reglas instaladas según el sistema
+export interface FirewallState {
+  /** Ids de las reglas propias encontradas */
+  ruleIds: string[];
+  /** Reglas en nuestras cadenas/tablas que no llevan id conocido */
+  unexpected: string[];
+  /** Enganches ausentes (saltos desde las cadenas del sistema o tabla propia) */
+  missingHooks: string[];
+}
+
+export type FirewallBackendType = 'iptables' | 'nftables' | 'simulation';
+
+export interface FirewallBackend {
+  readonly name: FirewallBackendType;
+
+  /**
+   * Comandos/script que se ejecutarían para instalar las reglas (dry-run)
+   */
+  render(rules: FirewallRule[]): string;
+
+  /**
+   * Reemplazar las reglas propias por las indicadas (idempotente)
+   */
+  apply(rules: FirewallRule[]): Promise<void>;
+
+  /**
+   * Reglas propias instaladas en las familias indicadas (por defecto todas)
+   */
+  inspect(families?: FirewallFamily[]): Promise<FirewallState>;
+
+  /**
+   * Retirar todo lo instalado por este backend
+   */
+  teardown(): Promise<void>;
+}
+
+// Prefijo de los comentarios con los que se marcan las reglas propias
+export const RULE_COMMENT_PREFIX = 'nodex:';
+
+/**
+ * Crear backend de firewall según configuración
+ *
+ * @param namespace Separa las cadenas/tabla propias de cada instancia WireGuard
+ *                  (sin él se usan las de siempre: NODEX-*, inet nodex)
+ */
+export function createFirewallBackend(type: FirewallBackendType, namespace?: string): FirewallBackend {
+  switch (type) {
+    case 'iptables':
+      return new IptablesFirewallBackend(namespace);
+    case 'nftables':
+      return new NftablesFirewallBackend(namespace);
+    case 'simulation':
+      return new SimulatedFirewallBackend();
+    default:
+      throw new Error(`Backend de firewall desconocido: ${type}`);
+  }
+}
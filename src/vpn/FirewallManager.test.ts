@@ -0,0 +1,120 @@
+import { FirewallManager, FirewallPolicy, parsePortForward } from './FirewallManager';
+import { IptablesFirewallBackend } from './IptablesFirewallBackend';
+import { NftablesFirewallBackend } from './NftablesFirewallBackend';
+import { SimulatedFirewallBackend } from './SimulatedFirewallBackend';
+
+function makePolicy(overrides: Partial<FirewallPolicy> = {}): FirewallPolicy {
+  return {
+    tunnelInterface: 'wg0',
+    egressInterface: 'eth0',
+    listenPort: 51820,
+    subnets: ['10.0.0.0/24'],
+    portForwards: [],
+    interPeer: 'allow',
+    ...overrides
+  };
+}
+
+describe('parsePortForward', () => {
+  it('acepta destinos IPv4 e IPv6 con puerto opcional', () => {
+    expect(parsePortForward('tcp:8080=10.0.0.5:80')).toEqual({
+      protocol: 'tcp', port: 8080, destination: '10.0.0.5', destinationPort: 80
+    });
+    expect(parsePortForward('udp:9000=[fd00::5]')).toEqual({
+      protocol: 'udp', port: 9000, destination: 'fd00::5', destinationPort: undefined
+    });
+  });
+
+  it('rechaza formatos inválidos', () => {
+    expect(() => parsePortForward('icmp:1=10.0.0.5')).toThrow('Port forward inválido');
+    expect(() => parsePortForward('tcp:8080')).toThrow('Port forward inválido');
+  });
+});
+
+describe('FirewallManager', () => {
+  it('planifica entrada, reenvío y NAT por cada subred', () => {
+    const manager = new FirewallManager(new SimulatedFirewallBackend(), makePolicy({ subnets: ['10.0.0.0/24', 'fd00::/64'] }));
+
+    const ids = manager.buildRules().map(rule => rule.id);
+
+    for (const suffix of ['v4', 'v6']) {
+      expect(ids).toEqual(expect.arrayContaining([
+        `input-wireguard-port-${suffix}`,
+        `input-tunnel-${suffix}`,
+        `forward-inter-peer-${suffix}`,
+        `forward-egress-${suffix}`,
+        `forward-return-${suffix}`,
+        `nat-masquerade-${suffix}`
+      ]));
+    }
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('la política entre peers precede al resto del reenvío', () => {
+    const rules = new FirewallManager(new SimulatedFirewallBackend(), makePolicy({ interPeer: 'deny' })).buildRules();
+    const forward = rules.filter(rule => rule.hook === 'forward');
+
+    expect(forward[0]).toMatchObject({ id: 'forward-inter-peer-v4', inInterface: 'wg0', outInterface: 'wg0', action: 'drop' });
+  });
+
+  it('traduce los port forwards a DNAT y reenvío hacia el peer', () => {
+    const rules = new FirewallManager(new SimulatedFirewallBackend(), makePolicy({
+      portForwards: [parsePortForward('tcp:8080=10.0.0.5:80')]
+    })).buildRules();
+
+    expect(rules.find(rule => rule.id === 'dnat-tcp-8080')).toMatchObject({
+      hook: 'prerouting', destinationPort: 8080, action: 'dnat', toAddress: '10.0.0.5', toPort: 80
+    });
+    expect(rules.find(rule => rule.id === 'forward-dnat-tcp-8080')).toMatchObject({
+      hook: 'forward', destination: '10.0.0.5', destinationPort: 80, action: 'accept'
+    });
+  });
+
+  it('incluye las interfaces adicionales con ids propios', () => {
+    const ids = new FirewallManager(new SimulatedFirewallBackend(), makePolicy({
+      additionalTunnels: [{ interfaceName: 'wg0-r', listenPort: 51821 }]
+    })).buildRules().map(rule => rule.id);
+
+    expect(ids).toContain('input-wireguard-port-v4');
+    expect(ids).toContain('input-wireguard-port-v4-wg0-r');
+    expect(ids.filter(id => id === 'nat-masquerade-v4')).toHaveLength(1);
+  });
+
+  it('detecta deriva y la corrige al aplicar', async () => {
+    const backend = new SimulatedFirewallBackend();
+    const manager = new FirewallManager(backend, makePolicy());
+
+    expect((await manager.checkDrift()).inSync).toBe(false);
+
+    await manager.apply();
+    expect(await manager.checkDrift()).toMatchObject({ inSync: true, missing: [], stale: [] });
+
+    await manager.teardown();
+    expect(backend.getRules()).toEqual([]);
+  });
+
+  it('en dry-run no instala nada', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const backend = new SimulatedFirewallBackend();
+    const manager = new FirewallManager(backend, makePolicy(), { dryRun: true });
+
+    try {
+      await manager.apply();
+      expect(backend.getRules()).toEqual([]);
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('marca cada regla con su id en las cadenas o la tabla propias', () => {
+    const policy = makePolicy({ interPeer: 'deny' });
+
+    const iptables = new FirewallManager(new IptablesFirewallBackend('gaming'), policy).plan();
+    const nftables = new FirewallManager(new NftablesFirewallBackend('gaming'), policy).plan();
+
+    expect(iptables).toContain('-A NODEX-GAMING-FORWARD -i wg0 -o wg0 -m comment --comment nodex:forward-inter-peer-v4 -j DROP');
+    expect(iptables).toContain('iptables -t nat -C POSTROUTING -j NODEX-GAMING-POSTROUTING');
+    expect(nftables).toContain('table inet nodex_gaming {');
+    expect(nftables).toContain('iifname "wg0" oifname "wg0" drop comment "nodex:forward-inter-peer-v4"');
+  });
+});
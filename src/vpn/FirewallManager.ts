@@ -0,0 +1,206 @@
+/**
+ * FIREWALL MANAGER - Estado deseado del firewall a partir de la configuración
+ *
+ * Calcula las reglas necesarias para el túnel (entrada, reenvío, NAT, port
+ * forwards y política entre peers), las aplica mediante un FirewallBackend y
+ * compara lo instalado con lo esperado para informar de deriva.
+ */
+
+import { FirewallBackend, FirewallFamily, FirewallRule } from './FirewallBackend';
+import { ipFamily, parseCidr } from './IpAddress';
+
+// Redirección de un puerto público hacia un peer
+export interface PortForward {
+  protocol: 'tcp' | 'udp';
+  port: number;
+  /** IP del peer dentro del túnel */
+  destination: string;
+  /** Puerto en el peer (por defecto el mismo) */
+  destinationPort?: number;
+}
+
+// Interfaz WireGuard adicional con su puerto
+export interface FirewallTunnel {
+  interfaceName: string;
+  listenPort: number;
+}
+
+export interface FirewallPolicy {
+  /** Interfaz WireGuard (wg0) */
+  tunnelInterface: string;
+  /** Interfaz de salida a internet */
+  egressInterface: string;
+  /** Puerto UDP de WireGuard */
+  listenPort: number;
+  /** Otras interfaces del servidor (p. ej. la identidad anterior durante una rotación de keys) */
+  additionalTunnels?: FirewallTunnel[];
+  /** Subredes de clientes (una por familia) */
+  subnets: string[];
+  portForwards: PortForward[];
+  /** Tráfico directo entre peers del túnel */
+  interPeer: 'allow' | 'deny';
+}
+
+export interface FirewallManagerOptions {
+  /** Sólo mostrar las reglas planificadas, sin aplicarlas */
+  dryRun?: boolean;
+}
+
+// Diferencias entre el estado deseado y el instalado
+export interface FirewallDriftReport {
+  backend: string;
+  inSync: boolean;
+  /** Ids de reglas esperadas que no están instaladas */
+  missing: string[];
+  /** Reglas propias instaladas que ya no forman parte del estado deseado */
+  stale: string[];
+  /** Reglas ajenas dentro de nuestras cadenas/tablas */
+  unexpected: string[];
+  missingHooks: string[];
+  checkedAt: Date;
+}
+
+/**
+ * Parsear un port forward "tcp:8080=10.0.0.5:80" (IPv6: "udp:9000=[fd00::5]:9000")
+ */
+export function parsePortForward(spec: string): PortForward {
+  const match = spec.trim().match(/^(tcp|udp):(\d+)=(?:\[([0-9a-fA-F:]+)\]|([\d.]+))(?::(\d+))?$/);
+  if (!match) {
+    throw new Error(`Port forward inválido: ${spec} (formato tcp:8080=10.0.0.5:80)`);
+  }
+
+  const [, protocol, port, ipv6, ipv4, destinationPort] = match;
+  return {
+    protocol: protocol as PortForward['protocol'],
+    port: parseInt(port),
+    destination: ipv6 || ipv4,
+    destinationPort: destinationPort ? parseInt(destinationPort) : undefined
+  };
+}
+
+export class FirewallManager {
+  private backend: FirewallBackend;
+  private policy: FirewallPolicy;
+  private dryRun: boolean;
+  private applied: boolean = false;
+
+  constructor(backend: FirewallBackend, policy: FirewallPolicy, options: FirewallManagerOptions = {}) {
+    this.backend = backend;
+    this.policy = policy;
+    this.dryRun = options.dryRun ?? false;
+  }
+
+  isDryRun(): boolean {
+    return this.dryRun;
+  }
+
+  /**
+   * Reglas deseadas para la política actual
+   */
+  buildRules(): FirewallRule[] {
+    const { tunnelInterface: wg, egressInterface: egress, listenPort } = this.policy;
+    const tunnels: FirewallTunnel[] = [{ interfaceName: wg, listenPort }, ...(this.policy.additionalTunnels || [])];
+    const rules: FirewallRule[] = [];
+
+    for (const subnet of this.policy.subnets) {
+      const family: FirewallFamily = parseCidr(subnet).family === 6 ? 'ipv6' : 'ipv4';
+
+      tunnels.forEach((tunnel, index) => {
+        // Las interfaces adicionales llevan su nombre en el id para no colisionar
+        const suffix = (family === 'ipv6' ? 'v6' : 'v4') + (index > 0 ? `-${tunnel.interfaceName}` : '');
+        const tun = tunnel.interfaceName;
+
+        rules.push(
+          { id: `input-wireguard-port-${suffix}`, family, hook: 'input', protocol: 'udp', destinationPort: tunnel.listenPort, action: 'accept' },
+          { id: `input-tunnel-${suffix}`, family, hook: 'input', inInterface: tun, action: 'accept' },
+          { id: `output-tunnel-${suffix}`, family, hook: 'output', outInterface: tun, action: 'accept' },
+          // La política entre peers va primero: el resto de reglas de reenvío no la cubren
+          {
+            id: `forward-inter-peer-${suffix}`, family, hook: 'forward', inInterface: tun, outInterface: tun,
+            action: this.policy.interPeer === 'allow' ? 'accept' : 'drop'
+          },
+          { id: `forward-egress-${suffix}`, family, hook: 'forward', inInterface: tun, outInterface: egress, source: subnet, action: 'accept' },
+          { id: `forward-return-${suffix}`, family, hook: 'forward', inInterface: egress, outInterface: tun, established: true, action: 'accept' }
+        );
+      });
+
+      const suffix = family === 'ipv6' ? 'v6' : 'v4';
+      rules.push(
+        { id: `nat-masquerade-${suffix}`, family, hook: 'postrouting', outInterface: egress, source: subnet, action: 'masquerade' }
+      );
+    }
+
+    for (const forward of this.policy.portForwards) {
+      const family: FirewallFamily = ipFamily(forward.destination) === 6 ? 'ipv6' : 'ipv4';
+      const id = `${forward.protocol}-${forward.port}`;
+      const destinationPort = forward.destinationPort || forward.port;
+
+      rules.push(
+        {
+          id: `dnat-${id}`, family, hook: 'prerouting', inInterface: egress, protocol: forward.protocol,
+          destinationPort: forward.port, action: 'dnat', toAddress: forward.destination, toPort: destinationPort
+        },
+        {
+          id: `forward-dnat-${id}`, family, hook: 'forward', inInterface: egress, outInterface: wg,
+          protocol: forward.protocol, destination: forward.destination, destinationPort, action: 'accept'
+        }
+      );
+    }
+
+    return rules;
+  }
+
+  /**
+   * Reglas planificadas tal como las ejecutaría el backend
+   */
+  plan(): string {
+    return this.backend.render(this.buildRules());
+  }
+
+  /**
+   * Aplicar el estado deseado (en dry-run sólo se imprime)
+   */
+  async apply(): Promise<void> {
+    if (this.dryRun) {
+      console.log(`📝 Firewall en dry-run (${this.backend.name}), reglas planificadas:\n${this.plan()}`);
+      return;
+    }
+
+    await this.backend.apply(this.buildRules());
+    this.applied = true;
+  }
+
+  /**
+   * Comparar las reglas instaladas con las deseadas
+   */
+  async checkDrift(): Promise<FirewallDriftReport> {
+    const rules = this.buildRules();
+    const families = Array.from(new Set(rules.map(rule => rule.family)));
+    const state = await this.backend.inspect(families);
+    const wanted = new Set(rules.map(rule => rule.id));
+    const installed = new Set(state.ruleIds);
+
+    const missing = Array.from(wanted).filter(id => !installed.has(id));
+    const stale = Array.from(installed).filter(id => !wanted.has(id));
+
+    return {
+      backend: this.backend.name,
+      inSync: missing.length === 0 && stale.length === 0 && state.unexpected.length === 0 && state.missingHooks.length === 0,
+      missing,
+      stale,
+      unexpected: state.unexpected,
+      missingHooks: state.missingHooks,
+      checkedAt: new Date()
+    };
+  }
+
+  /**
+   * Retirar las reglas propias (no hace nada si no se aplicaron)
+   */
+  async teardown(): Promise<void> {
+    if (this.dryRun || !this.applied) return;
+
+    await this.backend.teardown();
+    this.applied = false;
+  }
+}
@@ -0,0 +1,40 @@
+import { subtractCidrs } from './IpAddress';
+
+describe('subtractCidrs', () => {
+  it('resta una subred privada de la ruta por defecto', () => {
+    expect(subtractCidrs(['0.0.0.0/0'], ['192.168.0.0/16'])).toEqual([
+      '0.0.0.0/1',
+      '128.0.0.0/2',
+      '192.0.0.0/9',
+      '192.128.0.0/11',
+      '192.160.0.0/13',
+      '192.169.0.0/16',
+      '192.170.0.0/15',
+      '192.172.0.0/14',
+      '192.176.0.0/12',
+      '192.192.0.0/10',
+      '193.0.0.0/8',
+      '194.0.0.0/7',
+      '196.0.0.0/6',
+      '200.0.0.0/5',
+      '208.0.0.0/4',
+      '224.0.0.0/3'
+    ]);
+  });
+
+  it('trata cada familia por separado', () => {
+    expect(subtractCidrs(['0.0.0.0/0', '::/0'], ['::/1'])).toEqual(['0.0.0.0/0', '8000::/1']);
+  });
+
+  it('une rutas incluidas contiguas o solapadas', () => {
+    expect(subtractCidrs(['10.0.0.0/25', '10.0.0.128/25', '10.0.0.0/26'], [])).toEqual(['10.0.0.0/24']);
+  });
+
+  it('ignora exclusiones fuera de las rutas incluidas', () => {
+    expect(subtractCidrs(['10.0.0.0/24'], ['172.16.0.0/12'])).toEqual(['10.0.0.0/24']);
+  });
+
+  it('devuelve una lista vacía si las exclusiones lo cubren todo', () => {
+    expect(subtractCidrs(['10.0.0.0/24'], ['10.0.0.0/8'])).toEqual([]);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * IP ADDRESS - Utilidades IPv4/IPv6 sobre bigint
+ */
+
+export type IpFamily = 4 | 6;
+
+export interface ParsedCidr {
+  family: IpFamily;
+  network: bigint;
+  prefixLength: number;
+}
+
+export function addressBits(family: IpFamily): number {
+  return family === 4 ? 32 : 128;
+}
+
+export function ipFamily(ip: string): IpFamily {
+  return ip.includes(':') ? 6 : 4;
+}
+
+/**
+ * Convertir una dirección IPv4 o IPv6 a entero
+ */
+export function parseIp(ip: string): { family: IpFamily; value: bigint } {
+  const address = ip.trim();
+  return ipFamily(address) === 4
+    ? { family: 4, value: parseIpv4(address) }
+    : { family: 6, value: parseIpv6(address) };
+}
+
+export function formatIp(value: bigint, family: IpFamily): string {
+  return family === 4 ? formatIpv4(value) : formatIpv6(value);
+}
+
+/**
+ * Parsear CIDR normalizando la dirección de red (10.0.0.7/24 -> 10.0.0.0/24)
+ */
+export function parseCidr(cidr: string): ParsedCidr {
+  const [address, prefix] = cidr.trim().split('/');
+  const { family, value } = parseIp(address);
+  const bits = addressBits(family);
+  const prefixLength = prefix === undefined ? bits : Number(prefix);
+
+  if (!/^\d+$/.test(String(prefixLength)) || prefixLength < 0 || prefixLength > bits) {
+    throw new Error(`Subred inválida: ${cidr}`);
+  }
+
+  return { family, network: value & prefixMask(prefixLength, family), prefixLength };
+}
+
+export function formatCidr(cidr: ParsedCidr): string {
+  return `${formatIp(cidr.network, cidr.family)}/${cidr.prefixLength}`;
+}
+
+export function prefixMask(prefixLength: number, family: IpFamily): bigint {
+  const bits = BigInt(addressBits(family));
+  const all = (1n << bits) - 1n;
+  return (all << (bits - BigInt(prefixLength))) & all;
+}
+
+/**
+ * Última dirección de la subred
+ */
+export function lastAddress(cidr: ParsedCidr): bigint {
+  return cidr.network | (~prefixMask(cidr.prefixLength, cidr.family) & ((1n << BigInt(addressBits(cidr.family))) - 1n));
+}
+
+/**
+ * Rutas de `included` menos las de `excluded`, como lista mínima de CIDRs
+ * (0.0.0.0/0 menos 192.168.0.0/16 -> 0.0.0.0/1, 128.0.0.0/2, ...)
+ */
+export function subtractCidrs(included: string[], excluded: string[]): string[] {
+  const result: string[] = [];
+
+  for (const family of [4, 6] as IpFamily[]) {
+    const ofFamily = (cidrs: string[]) => mergeRanges(
+      cidrs.map(parseCidr).filter(cidr => cidr.family === family).map(cidr => [cidr.network, lastAddress(cidr)])
+    );
+
+    let ranges = ofFamily(included);
+    for (const [excludedStart, excludedEnd] of ofFamily(excluded)) {
+      ranges = ranges.flatMap(([start, end]): Array<[bigint, bigint]> => {
+        if (excludedEnd < start || excludedStart > end) return [[start, end]];
+        const pieces: Array<[bigint, bigint]> = [];
+        if (excludedStart > start) pieces.push([start, excludedStart - 1n]);
+        if (excludedEnd < end) pieces.push([excludedEnd + 1n, end]);
+        return pieces;
+      });
+    }
+
+    for (const [start, end] of ranges) {
+      result.push(...rangeToCidrs(start, end, family));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Ordenar y unir rangos solapados o contiguos
+ */
+function mergeRanges(ranges: Array<[bigint, bigint]>): Array<[bigint, bigint]> {
+  const sorted = [...ranges].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const merged: Array<[bigint, bigint]> = [];
+
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1] + 1n) {
+      last[1] = end > last[1] ? end : last[1];
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Cubrir un rango con los bloques CIDR alineados más grandes posibles
+ */
+function rangeToCidrs(start: bigint, end: bigint, family: IpFamily): string[] {
+  const bits = addressBits(family);
+  const cidrs: string[] = [];
+
+  while (start <= end) {
+    let size = 0;
+    while (
+      size < bits &&
+      (start & ((1n << BigInt(size + 1)) - 1n)) === 0n &&
+      start + (1n << BigInt(size + 1)) - 1n <= end
+    ) {
+      size++;
+    }
+
+    cidrs.push(formatCidr({ family, network: start, prefixLength: bits - size }));
+    start += 1n << BigInt(size);
+  }
+
+  return cidrs;
+}
+
+function parseIpv4(ip: string): bigint {
+  const parts = ip.split('.');
+  if (parts.length !== 4) {
+    throw new Error(`Dirección IPv4 inválida: ${ip}`);
+  }
+
+  return parts.reduce((acc, part) => {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) {
+      throw new Error(`Dirección IPv4 inválida: ${ip}`);
+    }
+    return (acc << 8n) | BigInt(part);
+  }, 0n);
+}
+
+function formatIpv4(value: bigint): string {
+  return [24n, 16n, 8n, 0n].map(shift => Number((value >> shift) & 0xffn)).join('.');
+}
+
+function parseIpv6(ip: string): bigint {
+  const invalid = () => new Error(`Dirección IPv6 inválida: ${ip}`);
+  const halves = ip.split('::');
+  if (halves.length > 2) throw invalid();
+
+  const toGroups = (part: string) => part ? part.split(':') : [];
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+
+  if ((halves.length === 1 && missing !== 0) || (halves.length === 2 && missing < 1)) {
+    throw invalid();
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  return groups.reduce((acc, group) => {
+    if (!/^[0-9a-fA-F]{1,4}$/.test(group)) throw invalid();
+    return (acc << 16n) | BigInt(parseInt(group, 16));
+  }, 0n);
+}
+
+/**
+ * Formato canónico RFC 5952 (minúsculas, `::` en la racha de ceros más larga)
+ */
+function formatIpv6(value: bigint): string {
+  const groups: number[] = [];
+  for (let shift = 112n; shift >= 0n; shift -= 16n) {
+    groups.push(Number((value >> shift) & 0xffffn));
+  }
+
+  let bestStart = -1;
+  let bestLength = 0;
+  for (let i = 0; i < 8;) {
+    if (groups[i] !== 0) { i++; continue; }
+    let j = i;
+    while (j < 8 && groups[j] === 0) j++;
+    if (j - i > bestLength && j - i > 1) {
+      bestStart = i;
+      bestLength = j - i;
+    }
+    i = j;
+  }
+
+  const hex = groups.map(group => group.toString(16));
+  if (bestStart === -1) return hex.join(':');
+
+  return `${hex.slice(0, bestStart).join(':')}::${hex.slice(bestStart + bestLength).join(':')}`;
+}
@@ -0,0 +1,74 @@
+import { IpAddressPool, IpPoolExhaustedError } from './IpAddressPool';
+
+describe('IpAddressPool', () => {
+  it('asigna direcciones saltando red, servidor y broadcast', () => {
+    const pool = new IpAddressPool({ subnet: '10.0.0.0/29', serverIp: '10.0.0.1', cooldownMs: 0 });
+
+    const assigned = ['a', 'b', 'c', 'd', 'e'].map(owner => pool.allocate(owner));
+
+    expect(assigned).toEqual(['10.0.0.2', '10.0.0.3', '10.0.0.4', '10.0.0.5', '10.0.0.6']);
+    expect(() => pool.allocate('f')).toThrow(IpPoolExhaustedError);
+    expect(pool.getUsage()).toEqual({ capacity: 5, allocated: 5, coolingDown: 0 });
+  });
+
+  it('devuelve la misma IP al mismo propietario', () => {
+    const pool = new IpAddressPool({ subnet: '10.0.0.0/24', serverIp: '10.0.0.1' });
+
+    expect(pool.allocate('a')).toBe('10.0.0.2');
+    expect(pool.allocate('a')).toBe('10.0.0.2');
+    expect(pool.getAddress('a')).toBe('10.0.0.2');
+  });
+
+  it('no reutiliza una IP liberada hasta que termina el enfriamiento', () => {
+    const pool = new IpAddressPool({ subnet: '10.0.0.0/30', serverIp: '10.0.0.1', cooldownMs: 60000 });
+    pool.allocate('a');
+    pool.release('a');
+
+    expect(pool.getUsage().coolingDown).toBe(1);
+    expect(() => pool.allocate('b')).toThrow(IpPoolExhaustedError);
+
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+    try {
+      expect(pool.allocate('b')).toBe('10.0.0.2');
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('respeta las reservas estáticas por usuario', () => {
+    const pool = new IpAddressPool({
+      subnet: '10.0.0.0/24',
+      serverIp: '10.0.0.1',
+      staticReservations: { alice: '10.0.0.50' }
+    });
+
+    expect(pool.allocate('alice:phone', 'alice')).toBe('10.0.0.50');
+    expect(pool.allocate('bob:phone', 'bob')).toBe('10.0.0.2');
+  });
+
+  it('restaura el estado serializado', () => {
+    const pool = new IpAddressPool({ subnet: '10.0.0.0/24', serverIp: '10.0.0.1' });
+    pool.allocate('a');
+    pool.allocate('b');
+    pool.release('a');
+
+    const restored = new IpAddressPool({ subnet: '10.0.0.0/24', serverIp: '10.0.0.1' });
+    restored.restore(JSON.parse(JSON.stringify(pool.toJSON())));
+
+    expect(restored.getAddress('b')).toBe('10.0.0.3');
+    expect(restored.getAddress('a')).toBeUndefined();
+    expect(restored.allocate('c')).toBe('10.0.0.4');
+  });
+
+  it('asigna direcciones IPv6', () => {
+    const pool = new IpAddressPool({ subnet: 'fd00::/64', serverIp: 'fd00::1' });
+
+    expect(pool.allocate('a')).toBe('fd00::2');
+    expect(pool.getHostPrefix()).toBe(128);
+  });
+
+  it('rechaza una IP del servidor fuera de la subred', () => {
+    expect(() => new IpAddressPool({ subnet: '10.0.0.0/24', serverIp: '10.0.1.1' })).toThrow();
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * IP ADDRESS POOL - Asignación de IPs del túnel para peers WireGuard
+ *
+ * Reparte direcciones IPv4 o IPv6 de una subred reservando red, broadcast y la
+ * IP del servidor. Las direcciones liberadas pasan un periodo de enfriamiento
+ * antes de volver a asignarse, para que un cliente antiguo no colisione con uno nuevo.
+ */
+
+import {
+  IpFamily,
+  addressBits,
+  formatCidr,
+  formatIp,
+  lastAddress,
+  parseCidr,
+  parseIp
+} from './IpAddress';
+
+export interface IpPoolOptions {
+  /** Subred de clientes en notación CIDR (ej. 10.0.0.0/24 o fd00::/64) */
+  subnet: string;
+  /** IP del servidor dentro de la subred */
+  serverIp: string;
+  /** Tiempo mínimo antes de reutilizar una IP liberada */
+  cooldownMs?: number;
+  /** Reservas estáticas: userId -> IP */
+  staticReservations?: Record<string, string>;
+}
+
+// Estado serializable del pool
+export interface IpPoolState {
+  subnet: string;
+  /** Siguiente IP nunca usada (número en estados antiguos sólo IPv4) */
+  cursor: string | number;
+  allocations: Record<string, string>; // owner -> IP
+  released: Record<string, number>;    // IP -> timestamp de liberación
+}
+
+export class IpPoolExhaustedError extends Error {
+  constructor(subnet: string) {
+    super(`Pool de IPs agotado en ${subnet}`);
+    this.name = 'IpPoolExhaustedError';
+  }
+}
+
+export class IpAddressPool {
+  private family: IpFamily;
+  private subnet: string;
+  private prefixLength: number;
+  private firstHost: bigint;
+  private lastHost: bigint;
+  private serverIp: bigint;
+  private cooldownMs: number;
+  private cursor: bigint;
+  private allocations: Map<string, bigint> = new Map();
+  private owners: Map<bigint, string> = new Map();
+  private released: Map<bigint, number> = new Map();
+  private reservations: Map<string, bigint> = new Map();
+  private reserved: Set<bigint> = new Set();
+
+  constructor(options: IpPoolOptions) {
+    const cidr = parseCidr(options.subnet);
+    const broadcast = lastAddress(cidr);
+    const bits = addressBits(cidr.family);
+
+    this.family = cidr.family;
+    this.prefixLength = cidr.prefixLength;
+    this.subnet = formatCidr(cidr);
+
+    if (this.prefixLength >= bits - 1) {
+      // En /31 y /32 (o /127, /128) no existen direcciones de red ni broadcast (RFC 3021)
+      this.firstHost = cidr.network;
+      this.lastHost = broadcast;
+    } else if (this.family === 6) {
+      // IPv6 no tiene broadcast; la dirección de red es anycast del router (RFC 4291)
+      this.firstHost = cidr.network + 1n;
+      this.lastHost = broadcast;
+    } else {
+      this.firstHost = cidr.network + 1n;
+      this.lastHost = broadcast - 1n;
+    }
+
+    this.serverIp = this.parse(options.serverIp);
+    if (!this.contains(this.serverIp)) {
+      throw new Error(`La IP del servidor ${options.serverIp} no pertenece a ${this.subnet}`);
+    }
+
+    this.cooldownMs = options.cooldownMs ?? 10 * 60 * 1000;
+    this.cursor = this.firstHost;
+
+    for (const [userId, ip] of Object.entries(options.staticReservations || {})) {
+      if (this.isSameFamily(ip)) this.reserve(userId, ip);
+    }
+  }
+
+  /**
+   * Asignar IP a un propietario (idempotente: devuelve la que ya tenga)
+   */
+  allocate(owner: string, userId?: string): string {
+    const existing = this.allocations.get(owner);
+    if (existing !== undefined) {
+      return this.format(existing);
+    }
+
+    const ip = this.takeReservation(userId) ?? this.takeFresh() ?? this.takeReleased();
+    if (ip === undefined) {
+      throw new IpPoolExhaustedError(this.subnet);
+    }
+
+    this.allocations.set(owner, ip);
+    this.owners.set(ip, owner);
+    this.released.delete(ip);
+
+    return this.format(ip);
+  }
+
+  /**
+   * Registrar una IP ya asignada (peers rehidratados sin estado de pool)
+   */
+  claim(owner: string, ip: string): void {
+    const value = this.parse(ip);
+    const holder = this.owners.get(value);
+
+    if (!this.isAssignable(value)) {
+      throw new Error(`IP fuera de rango o no asignable: ${ip}`);
+    }
+    if (holder && holder !== owner) {
+      throw new Error(`IP ${ip} ya asignada a ${holder}`);
+    }
+
+    const previous = this.allocations.get(owner);
+    if (previous !== undefined && previous !== value) {
+      this.owners.delete(previous);
+    }
+
+    this.allocations.set(owner, value);
+    this.owners.set(value, owner);
+    this.released.delete(value);
+    if (value >= this.cursor && !this.reserved.has(value)) {
+      this.cursor = value + 1n;
+    }
+  }
+
+  /**
+   * Liberar la IP de un propietario (queda en enfriamiento)
+   */
+  release(owner: string): void {
+    const ip = this.allocations.get(owner);
+    if (ip === undefined) return;
+
+    this.allocations.delete(owner);
+    this.owners.delete(ip);
+
+    if (!this.reserved.has(ip)) {
+      this.released.set(ip, Date.now());
+    }
+  }
+
+  /**
+   * Reservar una IP fija para un usuario
+   */
+  reserve(userId: string, ip: string): void {
+    const value = this.parse(ip);
+
+    if (!this.isAssignable(value)) {
+      throw new Error(`IP reservada fuera de rango o no asignable: ${ip}`);
+    }
+
+    const holder = this.owners.get(value);
+    if (holder && holder !== userId) {
+      console.warn(`⚠️ IP reservada ${ip} está asignada a ${holder}; se respetará cuando se libere`);
+    }
+
+    this.reservations.set(userId, value);
+    this.reserved.add(value);
+  }
+
+  getAddress(owner: string): string | undefined {
+    const ip = this.allocations.get(owner);
+    return ip === undefined ? undefined : this.format(ip);
+  }
+
+  getFamily(): IpFamily {
+    return this.family;
+  }
+
+  getSubnet(): string {
+    return this.subnet;
+  }
+
+  getPrefixLength(): number {
+    return this.prefixLength;
+  }
+
+  /**
+   * Prefijo de una dirección individual (/32 o /128)
+   */
+  getHostPrefix(): number {
+    return addressBits(this.family);
+  }
+
+  /**
+   * ¿Pertenece la IP a esta familia de direcciones?
+   */
+  isSameFamily(ip: string): boolean {
+    try {
+      return parseIp(ip).family === this.family;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Resumen de ocupación del pool
+   */
+  getUsage(): { capacity: number; allocated: number; coolingDown: number } {
+    const now = Date.now();
+    let coolingDown = 0;
+
+    for (const releasedAt of this.released.values()) {
+      if (now - releasedAt < this.cooldownMs) coolingDown++;
+    }
+
+    return {
+      capacity: Number(this.lastHost - this.firstHost + 1n - (this.contains(this.serverIp) ? 1n : 0n)),
+      allocated: this.allocations.size,
+      coolingDown
+    };
+  }
+
+  /**
+   * Exportar estado para persistencia
+   */
+  toJSON(): IpPoolState {
+    const allocations: Record<string, string> = {};
+    const released: Record<string, number> = {};
+
+    for (const [owner, ip] of this.allocations) {
+      allocations[owner] = this.format(ip);
+    }
+    for (const [ip, releasedAt] of this.released) {
+      released[this.format(ip)] = releasedAt;
+    }
+
+    return { subnet: this.subnet, cursor: this.format(this.cursor), allocations, released };
+  }
+
+  /**
+   * Restaurar estado persistido (se ignoran IPs que ya no pertenecen a la subred)
+   */
+  restore(state: IpPoolState): void {
+    this.allocations.clear();
+    this.owners.clear();
+    this.released.clear();
+
+    const sameSubnet = state.subnet === this.subnet;
+    this.cursor = this.firstHost;
+
+    if (sameSubnet) {
+      const cursor = typeof state.cursor === 'number' ? BigInt(state.cursor) : this.parse(state.cursor);
+      this.cursor = cursor < this.firstHost ? this.firstHost
+        : cursor > this.lastHost ? this.lastHost + 1n
+        : cursor;
+    }
+
+    for (const [owner, address] of Object.entries(state.allocations || {})) {
+      const ip = this.tryParse(address);
+      if (ip === undefined || !this.isAssignable(ip) || this.owners.has(ip)) {
+        console.warn(`⚠️ Asignación descartada al restaurar pool: ${owner} -> ${address}`);
+        continue;
+      }
+      this.allocations.set(owner, ip);
+      this.owners.set(ip, owner);
+      if (!sameSubnet && ip >= this.cursor) this.cursor = ip + 1n;
+    }
+
+    for (const [address, releasedAt] of Object.entries(state.released || {})) {
+      const ip = this.tryParse(address);
+      if (ip !== undefined && this.isAssignable(ip) && !this.owners.has(ip)) {
+        this.released.set(ip, releasedAt);
+      }
+    }
+  }
+
+  private takeReservation(userId?: string): bigint | undefined {
+    if (!userId) return undefined;
+
+    const ip = this.reservations.get(userId);
+    if (ip === undefined || this.owners.has(ip)) return undefined;
+
+    return ip;
+  }
+
+  /**
+   * Siguiente IP nunca usada
+   */
+  private takeFresh(): bigint | undefined {
+    while (this.cursor <= this.lastHost) {
+      const ip = this.cursor;
+      this.cursor += 1n;
+      if (ip === this.serverIp || this.reserved.has(ip) || this.owners.has(ip) || this.released.has(ip)) {
+        continue;
+      }
+      return ip;
+    }
+    return undefined;
+  }
+
+  /**
+   * IP liberada hace más tiempo, si ya superó el enfriamiento
+   */
+  private takeReleased(): bigint | undefined {
+    const now = Date.now();
+    let candidate: bigint | undefined;
+    let oldest = Infinity;
+
+    for (const [ip, releasedAt] of this.released) {
+      if (now - releasedAt >= this.cooldownMs && releasedAt < oldest) {
+        candidate = ip;
+        oldest = releasedAt;
+      }
+    }
+
+    return candidate;
+  }
+
+  private contains(ip: bigint): boolean {
+    return ip >= this.firstHost && ip <= this.lastHost;
+  }
+
+  private isAssignable(ip: bigint): boolean {
+    return this.contains(ip) && ip !== this.serverIp;
+  }
+
+  private parse(ip: string): bigint {
+    const parsed = parseIp(ip);
+    if (parsed.family !== this.family) {
+      throw new Error(`${ip} no es una dirección IPv${this.family}`);
+    }
+    return parsed.value;
+  }
+
+  private tryParse(ip: string): bigint | undefined {
+    try {
+      return this.parse(ip);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private format(ip: bigint): string {
+    return formatIp(ip, this.family);
+  }
+}
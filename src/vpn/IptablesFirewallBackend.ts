@@ -0,0 +1,218 @@
+/**
+ * IPTABLES FIREWALL BACKEND - Reglas en cadenas propias NODEX-*
+ *
+ * Cada cadena del sistema (INPUT, FORWARD, POSTROUTING...) salta al inicio a su
+ * cadena NODEX-* equivalente. Las cadenas propias se reemplazan completas con
+ * iptables-restore --noflush, de forma atómica por tabla y sin tocar reglas ajenas.
+ */
+
+import {
+  FirewallBackend,
+  FirewallFamily,
+  FirewallHook,
+  FirewallRule,
+  FirewallState,
+  RULE_COMMENT_PREFIX
+} from './FirewallBackend';
+import { execAsync, runWithInput } from './SystemCommand';
+
+interface HookChain {
+  table: 'filter' | 'nat';
+  builtin: string;
+  chain: string;
+}
+
+const HOOK_CHAINS: Record<FirewallHook, HookChain> = {
+  input: { table: 'filter', builtin: 'INPUT', chain: 'NODEX-INPUT' },
+  output: { table: 'filter', builtin: 'OUTPUT', chain: 'NODEX-OUTPUT' },
+  forward: { table: 'filter', builtin: 'FORWARD', chain: 'NODEX-FORWARD' },
+  prerouting: { table: 'nat', builtin: 'PREROUTING', chain: 'NODEX-PREROUTING' },
+  postrouting: { table: 'nat', builtin: 'POSTROUTING', chain: 'NODEX-POSTROUTING' }
+};
+
+const FAMILIES: FirewallFamily[] = ['ipv4', 'ipv6'];
+const HOOKS = Object.keys(HOOK_CHAINS) as FirewallHook[];
+
+export class IptablesFirewallBackend implements FirewallBackend {
+  readonly name = 'iptables' as const;
+
+  private hookChains: Record<FirewallHook, HookChain>;
+
+  /**
+   * @param namespace Las cadenas pasan a NODEX-<NAMESPACE>-* para que cada
+   *                  instancia WireGuard tenga las suyas
+   */
+  constructor(namespace?: string) {
+    const prefix = namespace ? `NODEX-${namespace.toUpperCase()}-` : 'NODEX-';
+    this.hookChains = Object.fromEntries(
+      HOOKS.map(hook => [hook, { ...HOOK_CHAINS[hook], chain: HOOK_CHAINS[hook].chain.replace('NODEX-', prefix) }])
+    ) as Record<FirewallHook, HookChain>;
+  }
+
+  render(rules: FirewallRule[]): string {
+    const sections: string[] = [];
+
+    for (const family of FAMILIES) {
+      const familyRules = rules.filter(rule => rule.family === family);
+      if (familyRules.length === 0) continue;
+
+      sections.push(
+        `# ${this.binary(family)}-restore --noflush`,
+        this.restoreScript(familyRules).trimEnd(),
+        ...HOOKS.map(hook => this.jumpCommand(family, hook))
+      );
+    }
+
+    return sections.join('\n') + '\n';
+  }
+
+  async apply(rules: FirewallRule[]): Promise<void> {
+    for (const family of FAMILIES) {
+      const familyRules = rules.filter(rule => rule.family === family);
+
+      // Sin reglas para la familia (p. ej. IPv6 deshabilitado) se retira lo que hubiera
+      if (familyRules.length === 0) {
+        await this.teardownFamily(family);
+        continue;
+      }
+
+      await runWithInput('sudo', [`${this.binary(family)}-restore`, '--noflush'], this.restoreScript(familyRules));
+
+      for (const hook of HOOKS) {
+        await this.ensureJump(family, hook);
+      }
+    }
+  }
+
+  async inspect(families: FirewallFamily[] = FAMILIES): Promise<FirewallState> {
+    const state: FirewallState = { ruleIds: [], unexpected: [], missingHooks: [] };
+
+    for (const family of families) {
+      for (const hook of HOOKS) {
+        const { table, builtin, chain } = this.hookChains[hook];
+        const binary = this.binary(family);
+
+        try {
+          const { stdout } = await execAsync(`sudo ${binary} -t ${table} -S ${chain}`);
+          for (const line of stdout.split('\n')) {
+            if (!line.startsWith('-A ')) continue;
+            const match = line.match(new RegExp(`--comment "?${RULE_COMMENT_PREFIX}([^\\s"]+)`));
+            if (match) {
+              state.ruleIds.push(match[1]);
+            } else {
+              state.unexpected.push(`${binary} ${line}`);
+            }
+          }
+        } catch (error) {
+          state.missingHooks.push(`${binary} -t ${table} ${chain}`);
+          continue;
+        }
+
+        if (!(await this.hasJump(family, hook))) {
+          state.missingHooks.push(`${binary} -t ${table} ${builtin} -> ${chain}`);
+        }
+      }
+    }
+
+    return state;
+  }
+
+  async teardown(): Promise<void> {
+    for (const family of FAMILIES) {
+      await this.teardownFamily(family);
+    }
+  }
+
+  private async teardownFamily(family: FirewallFamily): Promise<void> {
+    const binary = this.binary(family);
+
+    for (const hook of HOOKS) {
+      const { table, builtin, chain } = this.hookChains[hook];
+
+      // Puede haber saltos duplicados de versiones anteriores
+      while (await this.hasJump(family, hook)) {
+        await execAsync(`sudo ${binary} -t ${table} -D ${builtin} -j ${chain}`);
+      }
+      await execAsync(`sudo ${binary} -t ${table} -F ${chain}`).catch(() => {});
+      await execAsync(`sudo ${binary} -t ${table} -X ${chain}`).catch(() => {});
+    }
+  }
+
+  private async ensureJump(family: FirewallFamily, hook: FirewallHook): Promise<void> {
+    if (await this.hasJump(family, hook)) return;
+
+    const { table, builtin, chain } = this.hookChains[hook];
+    await execAsync(`sudo ${this.binary(family)} -t ${table} -I ${builtin} 1 -j ${chain}`);
+  }
+
+  private async hasJump(family: FirewallFamily, hook: FirewallHook): Promise<boolean> {
+    const { table, builtin, chain } = this.hookChains[hook];
+    try {
+      await execAsync(`sudo ${this.binary(family)} -t ${table} -C ${builtin} -j ${chain}`);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Script para iptables-restore: declarar una cadena con --noflush la vacía
+   */
+  private restoreScript(rules: FirewallRule[]): string {
+    const lines: string[] = [];
+
+    for (const table of ['filter', 'nat'] as const) {
+      const hooks = HOOKS.filter(hook => this.hookChains[hook].table === table);
+      lines.push(`*${table}`);
+      hooks.forEach(hook => lines.push(`:${this.hookChains[hook].chain} - [0:0]`));
+      rules
+        .filter(rule => hooks.includes(rule.hook))
+        .forEach(rule => lines.push(this.ruleArgs(rule).join(' ')));
+      lines.push('COMMIT');
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  private jumpCommand(family: FirewallFamily, hook: FirewallHook): string {
+    const { table, builtin, chain } = this.hookChains[hook];
+    const binary = this.binary(family);
+    return `${binary} -t ${table} -C ${builtin} -j ${chain} || ${binary} -t ${table} -I ${builtin} 1 -j ${chain}`;
+  }
+
+  private ruleArgs(rule: FirewallRule): string[] {
+    const args = ['-A', this.hookChains[rule.hook].chain];
+
+    if (rule.inInterface) args.push('-i', rule.inInterface);
+    if (rule.outInterface) args.push('-o', rule.outInterface);
+    if (rule.source) args.push('-s', rule.source);
+    if (rule.destination) args.push('-d', rule.destination);
+    if (rule.protocol) args.push('-p', rule.protocol);
+    if (rule.destinationPort) args.push('--dport', String(rule.destinationPort));
+    if (rule.established) args.push('-m', 'conntrack', '--ctstate', 'RELATED,ESTABLISHED');
+    args.push('-m', 'comment', '--comment', `${RULE_COMMENT_PREFIX}${rule.id}`);
+
+    switch (rule.action) {
+      case 'accept':
+        args.push('-j', 'ACCEPT');
+        break;
+      case 'drop':
+        args.push('-j', 'DROP');
+        break;
+      case 'masquerade':
+        args.push('-j', 'MASQUERADE');
+        break;
+      case 'dnat': {
+        const address = rule.family === 'ipv6' ? `[${rule.toAddress}]` : rule.toAddress;
+        args.push('-j', 'DNAT', '--to-destination', rule.toPort ? `${address}:${rule.toPort}` : rule.toAddress!);
+        break;
+      }
+    }
+
+    return args;
+  }
+
+  private binary(family: FirewallFamily): string {
+    return family === 'ipv6' ? 'ip6tables' : 'iptables';
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * JSON FILE PEER STORE - Peers persistidos en un archivo JSON
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { WireGuardPeer } from '../types';
+import { DEFAULT_DEVICE_ID, PeerStore } from './PeerStore';
+
+interface StoreFile {
+  version: number;
+  peers: WireGuardPeer[];
+  state: Record<string, unknown>;
+}
+
+export class JsonFilePeerStore implements PeerStore {
+  readonly type = 'json' as const;
+
+  private filePath: string;
+  private data: StoreFile = { version: 1, peers: [], state: {} };
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    try {
+      const content = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      this.data = {
+        version: content.version || 1,
+        peers: (content.peers || []).map((peer: WireGuardPeer) => this.revivePeer(peer)),
+        state: content.state || {}
+      };
+      console.log(`✅ Peer store JSON cargado: ${this.data.peers.length} peers (${this.filePath})`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new Error(`Error leyendo peer store ${this.filePath}: ${error}`);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.writeQueue;
+  }
+
+  async loadPeers(): Promise<WireGuardPeer[]> {
+    return this.data.peers.map(peer => ({ ...peer }));
+  }
+
+  async savePeer(peer: WireGuardPeer): Promise<void> {
+    const deviceId = peer.deviceId || DEFAULT_DEVICE_ID;
+    const index = this.findIndex(peer.userId, deviceId);
+    const record = { ...peer, deviceId };
+
+    if (index === -1) {
+      this.data.peers.push(record);
+    } else {
+      this.data.peers[index] = record;
+    }
+
+    await this.persist();
+  }
+
+  async deletePeer(userId: string, deviceId: string): Promise<void> {
+    const index = this.findIndex(userId, deviceId);
+    if (index === -1) return;
+
+    this.data.peers.splice(index, 1);
+    await this.persist();
+  }
+
+  async getState<T>(key: string): Promise<T | undefined> {
+    return this.data.state[key] as T | undefined;
+  }
+
+  async setState<T>(key: string, value: T): Promise<void> {
+    this.data.state[key] = value;
+    await this.persist();
+  }
+
+  private findIndex(userId: string, deviceId: string): number {
+    return this.data.peers.findIndex(peer =>
+      peer.userId === userId && (peer.deviceId || DEFAULT_DEVICE_ID) === deviceId
+    );
+  }
+
+  /**
+   * Escribir a un temporal y renombrar, encadenando escrituras para que no se pisen
+   */
+  private persist(): Promise<void> {
+    const write = async () => {
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmpPath, JSON.stringify(this.data, null, 2), { mode: 0o600 });
+      await fs.rename(tmpPath, this.filePath);
+    };
+
+    this.writeQueue = this.writeQueue.then(write, write);
+    return this.writeQueue;
+  }
+
+  /**
+   * Las fechas llegan del JSON como strings
+   */
+  private revivePeer(peer: WireGuardPeer): WireGuardPeer {
+    return {
+      ...peer,
+      createdAt: peer.createdAt ? new Date(peer.createdAt) : undefined,
+      lastSeenAt: peer.lastSeenAt ? new Date(peer.lastSeenAt) : undefined,
+      revokedAt: peer.revokedAt ? new Date(peer.revokedAt) : undefined,
+      suspendedAt: peer.suspendedAt ? new Date(peer.suspendedAt) : undefined,
+      lastHandshake: peer.lastHandshake ? new Date(peer.lastHandshake) : undefined,
+      expiresAt: peer.expiresAt ? new Date(peer.expiresAt) : undefined,
+      activatedAt: peer.activatedAt ? new Date(peer.activatedAt) : undefined
+    };
+  }
+}
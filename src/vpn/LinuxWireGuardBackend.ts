@@ -0,0 +1,94 @@
+/**
+ * LINUX WIREGUARD BACKEND - Driver real (wg, wg-quick, ip, sysctl)
+ */
+
+import { promises as fs } from 'fs';
+import { BackendPeer, WireGuardBackend } from './WireGuardBackend';
+import { runCommand, runWithInput } from './SystemCommand';
+
+// Archivo propio en sysctl.d: se sobrescribe en cada arranque en lugar de acumular líneas
+const SYSCTL_CONF_PATH = '/etc/sysctl.d/99-nodex-wireguard.conf';
+
+export class LinuxWireGuardBackend implements WireGuardBackend {
+  readonly name = 'linux' as const;
+  readonly simulated = false;
+
+  /**
+   * Verificar instalación de WireGuard
+   */
+  async checkInstallation(): Promise<void> {
+    try {
+      await runCommand('which', ['wg']);
+      await runCommand('which', ['wg-quick']);
+    } catch (error) {
+      throw new Error('WireGuard no está instalado. Ejecute: sudo apt install wireguard');
+    }
+  }
+
+  async interfaceUp(interfaceName: string, configPath: string): Promise<void> {
+    await runCommand('sudo', ['wg-quick', 'up', configPath]);
+  }
+
+  async interfaceDown(interfaceName: string, configPath: string): Promise<void> {
+    await runCommand('sudo', ['wg-quick', 'down', configPath]);
+  }
+
+  async interfaceExists(interfaceName: string): Promise<boolean> {
+    try {
+      await runCommand('ip', ['link', 'show', interfaceName]);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async syncConfig(interfaceName: string, configPath: string): Promise<void> {
+    // syncconf no acepta las directivas propias de wg-quick (Address, DNS...):
+    // se le pasa por stdin la configuración sin ellas
+    const stripped = await runCommand('sudo', ['wg-quick', 'strip', configPath]);
+    await runWithInput('sudo', ['wg', 'syncconf', interfaceName, '/dev/stdin'], stripped);
+  }
+
+  async addPeer(interfaceName: string, peer: BackendPeer): Promise<void> {
+    // `wg set` espera la lista separada por comas sin espacios
+    const allowedIPs = peer.allowedIPs.split(',').map(address => address.trim()).filter(Boolean).join(',');
+    const args = ['wg', 'set', interfaceName, 'peer', peer.publicKey, 'allowed-ips', allowedIPs];
+
+    // La preshared key se pasa por stdin para no exponerla en la línea de comandos
+    if (peer.presharedKey) {
+      await runWithInput('sudo', [...args, 'preshared-key', '/dev/stdin'], peer.presharedKey);
+    } else {
+      await runWithInput('sudo', args, '');
+    }
+  }
+
+  async removePeer(interfaceName: string, publicKey: string): Promise<void> {
+    await runCommand('sudo', ['wg', 'set', interfaceName, 'peer', publicKey, 'remove']);
+  }
+
+  async dumpStats(interfaceName: string): Promise<string> {
+    return runCommand('sudo', ['wg', 'show', interfaceName, 'dump']);
+  }
+
+  async addRoute(interfaceName: string, cidr: string): Promise<void> {
+    await runCommand('sudo', ['ip', ...(cidr.includes(':') ? ['-6'] : []), 'route', 'replace', cidr, 'dev', interfaceName]);
+  }
+
+  async enableForwarding(ipv6: boolean = false): Promise<void> {
+    const settings = ['net.ipv4.ip_forward=1'];
+    if (ipv6) settings.push('net.ipv6.conf.all.forwarding=1');
+
+    for (const setting of settings) {
+      await runCommand('sudo', ['sysctl', '-w', setting]);
+    }
+
+    // Persistir para reinicios del sistema
+    await runWithInput('sudo', ['tee', SYSCTL_CONF_PATH], settings.join('\n') + '\n')
+      .catch(error => console.warn(`⚠️ No se pudo escribir ${SYSCTL_CONF_PATH}:`, error));
+  }
+
+  async isForwardingEnabled(family: 'ipv4' | 'ipv6'): Promise<boolean> {
+    const file = family === 'ipv6' ? '/proc/sys/net/ipv6/conf/all/forwarding' : '/proc/sys/net/ipv4/ip_forward';
+    return (await fs.readFile(file, 'utf8')).trim() === '1';
+  }
+}
@@ -0,0 +1,79 @@
+import { EventEmitter } from 'events';
+import { LiveEvent, WireGuardPeerEvent } from '../types';
+import { LiveEventHub } from './LiveEventHub';
+import { WireGuardInstance } from './WireGuardInstance';
+
+function publishTraffic(hub: LiveEventHub, userId: string): LiveEvent {
+  return hub.publish({ type: 'traffic', userId, deviceId: 'phone', data: { rxBytes: 1, txBytes: 1 } });
+}
+
+describe('LiveEventHub', () => {
+  it('numera los eventos y los entrega a los suscriptores', () => {
+    const hub = new LiveEventHub();
+    const received: number[] = [];
+    const unsubscribe = hub.subscribe(event => received.push(event.seq));
+
+    publishTraffic(hub, 'alice');
+    publishTraffic(hub, 'bob');
+    unsubscribe();
+    publishTraffic(hub, 'alice');
+
+    expect(received).toEqual([1, 2]);
+    expect(hub.lastSeq).toBe(3);
+  });
+
+  it('reenvía los eventos posteriores a since que cumplen el filtro', () => {
+    const hub = new LiveEventHub();
+    ['alice', 'bob', 'alice', 'bob'].forEach(userId => publishTraffic(hub, userId));
+
+    const missed = hub.replay(1, event => event.userId === 'alice');
+
+    expect(missed?.map(event => event.seq)).toEqual([3]);
+    expect(hub.replay(4)).toEqual([]);
+  });
+
+  it('no reanuda si faltan eventos en el búfer o since es de otro proceso', () => {
+    const hub = new LiveEventHub(2);
+    ['alice', 'alice', 'alice', 'alice'].forEach(userId => publishTraffic(hub, userId));
+
+    expect(hub.replay(1)).toBeUndefined();
+    expect(hub.replay(2)?.map(event => event.seq)).toEqual([3, 4]);
+    expect(hub.replay(10)).toBeUndefined();
+  });
+
+  it('un suscriptor con errores no impide la entrega al resto', () => {
+    const hub = new LiveEventHub();
+    const received: LiveEvent[] = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    hub.subscribe(() => { throw new Error('fallo'); });
+    hub.subscribe(event => received.push(event));
+
+    publishTraffic(hub, 'alice');
+
+    expect(received).toHaveLength(1);
+    jest.restoreAllMocks();
+  });
+
+  it('traduce los eventos de las instancias y deja de escuchar al desconectarse', () => {
+    const hub = new LiveEventHub();
+    const server = new EventEmitter();
+    hub.attach([{ config: { id: 'gaming' }, server } as unknown as WireGuardInstance]);
+    const peerEvent = (event: WireGuardPeerEvent['event'], data: WireGuardPeerEvent['data']): WireGuardPeerEvent => ({
+      clientId: 'alice:phone', userId: 'alice', deviceId: 'phone', publicKey: 'PUB=',
+      event, protocol: 'wireguard', timestamp: new Date(), data
+    });
+
+    server.emit('transfer', peerEvent('transfer', { rxBytes: 2000, txBytes: 500, intervalMs: 1000 }));
+    server.emit('peer-offline', peerEvent('peer-offline', {}));
+
+    expect(hub.replay(0)).toMatchObject([
+      { type: 'traffic', instance: 'gaming', data: { rxBytesPerSecond: 2000, txBytesPerSecond: 500 } },
+      { type: 'peer-status', instance: 'gaming', data: { status: 'offline' } }
+    ]);
+
+    hub.detach();
+    server.emit('transfer', peerEvent('transfer', { rxBytes: 1, txBytes: 1 }));
+    expect(hub.lastSeq).toBe(2);
+    expect(server.listenerCount('transfer')).toBe(0);
+  });
+});
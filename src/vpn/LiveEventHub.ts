@@ -0,0 +1,167 @@
+/**
+ * LIVE EVENT HUB - Eventos para el canal en vivo (WebSocket)
+ *
+ * Traduce los eventos del monitor de WireGuard (handshakes, online/offline,
+ * transferencia), los avisos de cuota y las desconexiones forzadas a eventos
+ * de usuario con una secuencia creciente. Conserva los últimos en un búfer
+ * para que un cliente que reconecta pueda pedir lo que se perdió; `epoch`
+ * cambia en cada arranque, así que una secuencia de otro proceso no se reanuda.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { ForcedDisconnect, LiveEvent, QuotaWarning, WireGuardPeerEvent } from '../types';
+import { QuotaManager } from './QuotaManager';
+import { WireGuardInstance } from './WireGuardInstance';
+
+export type LiveListener = (event: LiveEvent) => void;
+
+// Eventos de origen que se escuchan y su payload
+interface SourceEvents {
+  'handshake': WireGuardPeerEvent;
+  'peer-online': WireGuardPeerEvent;
+  'peer-offline': WireGuardPeerEvent;
+  'transfer': WireGuardPeerEvent;
+  'forced-disconnect': ForcedDisconnect;
+  'quota-warning': QuotaWarning;
+}
+
+const PEER_STATUS_EVENTS = ['handshake', 'peer-online', 'peer-offline'] as const;
+
+export class LiveEventHub {
+  readonly epoch: string = randomUUID();
+  private seq: number = 0;
+  private buffer: LiveEvent[] = [];
+  private bufferSize: number;
+  private listeners: Set<LiveListener> = new Set();
+  /** Funciones que retiran cada handler de su emisor */
+  private subscriptions: Array<() => void> = [];
+
+  constructor(bufferSize: number = 1000) {
+    this.bufferSize = Math.max(bufferSize, 0);
+  }
+
+  get lastSeq(): number {
+    return this.seq;
+  }
+
+  /**
+   * Escuchar las instancias WireGuard y las cuotas
+   */
+  attach(instances: WireGuardInstance[], quotaManager?: QuotaManager): void {
+    for (const instance of instances) {
+      const id = instance.config.id;
+
+      for (const type of PEER_STATUS_EVENTS) {
+        this.listen(instance.server, type, event => this.publish({
+          type: 'peer-status',
+          userId: event.userId,
+          deviceId: event.deviceId,
+          instance: id,
+          data: {
+            status: event.event === 'peer-offline' ? 'offline' : 'online',
+            event: event.event,
+            lastHandshake: event.data.lastHandshake,
+            endpoint: event.data.endpoint
+          }
+        }));
+      }
+
+      this.listen(instance.server, 'transfer', event => {
+        const { rxBytes = 0, txBytes = 0, intervalMs } = event.data;
+        this.publish({
+          type: 'traffic',
+          userId: event.userId,
+          deviceId: event.deviceId,
+          instance: id,
+          data: {
+            rxBytes,
+            txBytes,
+            intervalMs,
+            // Sin intervalo entre muestras no hay tasa
+            rxBytesPerSecond: intervalMs ? Math.round(rxBytes * 1000 / intervalMs) : undefined,
+            txBytesPerSecond: intervalMs ? Math.round(txBytes * 1000 / intervalMs) : undefined
+          }
+        });
+      });
+
+      this.listen(instance.server, 'forced-disconnect', notice => this.publish({
+        type: 'disconnected',
+        userId: notice.userId,
+        deviceId: notice.deviceId,
+        instance: id,
+        data: { action: notice.action, reason: notice.reason }
+      }));
+    }
+
+    if (quotaManager) {
+      this.listen(quotaManager, 'quota-warning', ({ threshold, quota }) => this.publish({
+        type: 'quota-warning',
+        userId: quota.userId,
+        data: {
+          threshold,
+          status: quota.status,
+          usedBytes: quota.usedBytes,
+          limitBytes: quota.limitBytes,
+          remainingBytes: quota.remainingBytes,
+          cycleEnd: quota.cycleEnd
+        }
+      }));
+    }
+  }
+
+  detach(): void {
+    for (const unsubscribe of this.subscriptions) {
+      unsubscribe();
+    }
+    this.subscriptions = [];
+    this.listeners.clear();
+  }
+
+  publish(input: Omit<LiveEvent, 'seq' | 'timestamp'>): LiveEvent {
+    const event: LiveEvent = { seq: ++this.seq, ...input, timestamp: new Date() };
+
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.splice(0, this.buffer.length - this.bufferSize);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        // Un suscriptor con errores no debe afectar al resto
+        console.error('⚠️ Error entregando evento en vivo:', error);
+      }
+    }
+    return event;
+  }
+
+  /**
+   * @returns Función para cancelar la suscripción
+   */
+  subscribe(listener: LiveListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Eventos posteriores a `since` que cumplen el filtro
+   *
+   * @returns undefined si algunos ya salieron del búfer (o `since` es de otro
+   *          proceso): el cliente debe recargar el estado por la API REST
+   */
+  replay(since: number, filter: (event: LiveEvent) => boolean = () => true): LiveEvent[] | undefined {
+    if (since > this.seq) return undefined;
+
+    const oldest = this.buffer.length > 0 ? this.buffer[0].seq : this.seq + 1;
+    if (since + 1 < oldest) return undefined;
+
+    return this.buffer.filter(event => event.seq > since && filter(event));
+  }
+
+  private listen<E extends keyof SourceEvents>(emitter: EventEmitter, event: E, handler: (payload: SourceEvents[E]) => void): void {
+    emitter.on(event, handler);
+    this.subscriptions.push(() => emitter.off(event, handler));
+  }
+}
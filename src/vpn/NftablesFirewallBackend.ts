@@ -0,0 +1,137 @@
+/**
+ * NFTABLES FIREWALL BACKEND - Reglas en la tabla propia `inet nodex`
+ *
+ * La tabla se recrea completa en una única transacción de `nft -f`, así que
+ * aplicar es atómico e idempotente y retirarla no afecta a otras tablas.
+ * En nftables un `accept` sólo aplica a esta tabla: si otra tabla descarta el
+ * paquete (firewalld, reglas propias del host) hay que permitirlo allí también.
+ */
+
+import {
+  FirewallBackend,
+  FirewallFamily,
+  FirewallHook,
+  FirewallRule,
+  FirewallState,
+  RULE_COMMENT_PREFIX
+} from './FirewallBackend';
+import { execAsync, runWithInput } from './SystemCommand';
+
+const HOOK_CHAINS: Record<FirewallHook, string> = {
+  input: 'type filter hook input priority filter; policy accept;',
+  output: 'type filter hook output priority filter; policy accept;',
+  forward: 'type filter hook forward priority filter; policy accept;',
+  prerouting: 'type nat hook prerouting priority dstnat; policy accept;',
+  postrouting: 'type nat hook postrouting priority srcnat; policy accept;'
+};
+
+const HOOKS = Object.keys(HOOK_CHAINS) as FirewallHook[];
+
+export class NftablesFirewallBackend implements FirewallBackend {
+  readonly name = 'nftables' as const;
+
+  private table: string;
+
+  /**
+   * @param namespace La tabla pasa a `inet nodex_<namespace>` para que cada
+   *                  instancia WireGuard tenga la suya
+   */
+  constructor(namespace?: string) {
+    this.table = namespace ? `inet nodex_${namespace.replace(/-/g, '_')}` : 'inet nodex';
+  }
+
+  render(rules: FirewallRule[]): string {
+    return `# nft -f -\n${this.script(rules)}`;
+  }
+
+  async apply(rules: FirewallRule[]): Promise<void> {
+    await runWithInput('sudo', ['nft', '-f', '-'], this.script(rules));
+  }
+
+  async inspect(families?: FirewallFamily[]): Promise<FirewallState> {
+    const state: FirewallState = { ruleIds: [], unexpected: [], missingHooks: [] };
+    let output: string;
+
+    try {
+      ({ stdout: output } = await execAsync(`sudo nft list table ${this.table}`));
+    } catch (error) {
+      state.missingHooks.push(`table ${this.table}`);
+      return state;
+    }
+
+    const chains = new Set<string>();
+    for (const rawLine of output.split('\n')) {
+      const line = rawLine.trim();
+      const chain = line.match(/^chain (\S+) \{/);
+      if (chain) {
+        chains.add(chain[1]);
+        continue;
+      }
+      if (!line || line === '}' || line.startsWith('table ') || line.startsWith('type ')) continue;
+
+      const match = line.match(new RegExp(`comment "${RULE_COMMENT_PREFIX}([^"]+)"`));
+      if (match) {
+        state.ruleIds.push(match[1]);
+      } else {
+        state.unexpected.push(`nft ${line}`);
+      }
+    }
+
+    HOOKS.filter(hook => !chains.has(hook))
+      .forEach(hook => state.missingHooks.push(`chain ${this.table} ${hook}`));
+
+    return state;
+  }
+
+  async teardown(): Promise<void> {
+    await execAsync(`sudo nft delete table ${this.table}`).catch(() => {});
+  }
+
+  /**
+   * Crear (vacía) y borrar la tabla antes de declararla: `delete` fallaría si no existe
+   */
+  private script(rules: FirewallRule[]): string {
+    const lines = [`table ${this.table}`, `delete table ${this.table}`, `table ${this.table} {`];
+
+    for (const hook of HOOKS) {
+      lines.push(`  chain ${hook} {`, `    ${HOOK_CHAINS[hook]}`);
+      rules
+        .filter(rule => rule.hook === hook)
+        .forEach(rule => lines.push(`    ${this.ruleExpression(rule)}`));
+      lines.push('  }');
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  private ruleExpression(rule: FirewallRule): string {
+    const ip = rule.family === 'ipv6' ? 'ip6' : 'ip';
+    const parts = [`meta nfproto ${rule.family}`];
+
+    if (rule.inInterface) parts.push(`iifname "${rule.inInterface}"`);
+    if (rule.outInterface) parts.push(`oifname "${rule.outInterface}"`);
+    if (rule.source) parts.push(`${ip} saddr ${rule.source}`);
+    if (rule.destination) parts.push(`${ip} daddr ${rule.destination}`);
+    if (rule.protocol) {
+      parts.push(rule.destinationPort ? `${rule.protocol} dport ${rule.destinationPort}` : `meta l4proto ${rule.protocol}`);
+    }
+    if (rule.established) parts.push('ct state established,related');
+
+    switch (rule.action) {
+      case 'accept':
+      case 'drop':
+      case 'masquerade':
+        parts.push(rule.action);
+        break;
+      case 'dnat': {
+        const address = rule.family === 'ipv6' && rule.toPort ? `[${rule.toAddress}]` : rule.toAddress;
+        parts.push(`dnat ${ip} to ${rule.toPort ? `${address}:${rule.toPort}` : address}`);
+        break;
+      }
+    }
+
+    parts.push(`comment "${RULE_COMMENT_PREFIX}${rule.id}"`);
+    return parts.join(' ');
+  }
+}
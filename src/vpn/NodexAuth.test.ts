@@ -0,0 +1,95 @@
+import * as jwt from 'jsonwebtoken';
+import config from '../config';
+import { checkUserSubscription, isFirebaseAvailable } from '../firebase';
+import { authenticateNodexClient, NodexAuthError } from './NodexAuth';
+
+jest.mock('../config', () => ({
+  __esModule: true,
+  default: { NODE_ENV: 'production', jwt: { secret: 'test-secret' }, admin: {}, metrics: {} }
+}));
+
+jest.mock('../firebase', () => ({
+  ...jest.requireActual('../firebase'),
+  isFirebaseAvailable: jest.fn().mockReturnValue(false),
+  checkUserSubscription: jest.fn()
+}));
+
+const firebaseAvailable = isFirebaseAvailable as jest.Mock;
+const subscriptionCheck = checkUserSubscription as jest.Mock;
+
+function credential(value: unknown): Buffer {
+  return Buffer.from(JSON.stringify(value));
+}
+
+function signToken(claims: object, options: jwt.SignOptions = {}): string {
+  return jwt.sign({ uid: 'alice', ...claims }, 'test-secret', options);
+}
+
+async function rejectionCode(payload: Buffer): Promise<string | undefined> {
+  try {
+    await authenticateNodexClient(payload);
+  } catch (error) {
+    expect(error).toBeInstanceOf(NodexAuthError);
+    return (error as NodexAuthError).code;
+  }
+  return undefined;
+}
+
+describe('authenticateNodexClient', () => {
+  beforeEach(() => {
+    firebaseAvailable.mockReturnValue(false);
+    subscriptionCheck.mockReset();
+    config.NODE_ENV = 'production';
+  });
+
+  it('devuelve el uid de un JWT interno con suscripción', async () => {
+    await expect(authenticateNodexClient(credential({ type: 'jwt', token: signToken({ subscription: true }) })))
+      .resolves.toBe('alice');
+  });
+
+  it('rechaza payloads que no son una credencial', async () => {
+    expect(await rejectionCode(Buffer.from('no es json'))).toBe('malformed_request');
+    expect(await rejectionCode(credential({ type: 'oauth', token: 'x' }))).toBe('unsupported_credential');
+    expect(await rejectionCode(credential({ type: 'jwt' }))).toBe('malformed_request');
+  });
+
+  it('sólo acepta la credencial dev en desarrollo', async () => {
+    expect(await rejectionCode(credential({ type: 'dev', userId: 'bob' }))).toBe('unsupported_credential');
+
+    config.NODE_ENV = 'development';
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      await expect(authenticateNodexClient(credential({ type: 'dev', userId: 'bob' }))).resolves.toBe('dev-bob');
+    } finally {
+      jest.restoreAllMocks();
+    }
+  });
+
+  it('distingue un token inválido de uno expirado', async () => {
+    const expired = signToken({ subscription: true, exp: Math.floor(Date.now() / 1000) - 60 });
+
+    expect(await rejectionCode(credential({ type: 'jwt', token: 'no-es-un-jwt' }))).toBe('invalid_token');
+    expect(await rejectionCode(credential({ type: 'jwt', token: expired }))).toBe('token_expired');
+  });
+
+  it('sin Firebase usa la suscripción firmada en el JWT', async () => {
+    expect(await rejectionCode(credential({ type: 'jwt', token: signToken({ subscription: false }) })))
+      .toBe('subscription_inactive');
+    expect(await rejectionCode(credential({ type: 'firebase', token: 'id-token' }))).toBe('auth_unavailable');
+  });
+
+  it('con Firebase consulta Firestore y no confunde su caída con una suscripción inactiva', async () => {
+    firebaseAvailable.mockReturnValue(true);
+    const token = credential({ type: 'jwt', token: signToken({ subscription: true }) });
+
+    subscriptionCheck.mockResolvedValueOnce(false);
+    expect(await rejectionCode(token)).toBe('subscription_inactive');
+
+    subscriptionCheck.mockRejectedValueOnce(new Error('Firestore no disponible'));
+    expect(await rejectionCode(token)).toBe('auth_unavailable');
+
+    subscriptionCheck.mockResolvedValueOnce(true);
+    await expect(authenticateNodexClient(token)).resolves.toBe('alice');
+    expect(subscriptionCheck).toHaveBeenCalledWith('alice');
+  });
+});
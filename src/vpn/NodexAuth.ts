@@ -0,0 +1,96 @@
+/**
+ * NODEX AUTH - Autenticación del handshake del protocolo Nodex
+ *
+ * El AUTH_REQUEST lleva una credencial JSON: el JWT interno que devuelve
+ * /api/auth/login o un ID token de Firebase, verificados igual que en la API
+ * REST, y después se comprueba que la suscripción del usuario esté activa.
+ * La credencial `dev` (sin token) sólo se acepta con NODE_ENV=development.
+ */
+
+import config from '../config';
+import { authenticateToken, TokenUser } from '../auth';
+import { checkUserSubscription, InvalidTokenError, isFirebaseAvailable } from '../firebase';
+import { NodexAuthErrorCode, NodexCredential } from '../types';
+
+const CREDENTIAL_TYPES: NodexCredential['type'][] = ['jwt', 'firebase', 'dev'];
+
+export class NodexAuthError extends Error {
+  constructor(public readonly code: NodexAuthErrorCode, message: string) {
+    super(message);
+    this.name = 'NodexAuthError';
+  }
+}
+
+/**
+ * Autenticar el payload de un AUTH_REQUEST
+ *
+ * @returns uid del usuario
+ * @throws NodexAuthError con el código que se devuelve al cliente
+ */
+export async function authenticateNodexClient(payload: Buffer): Promise<string> {
+  const credential = parseCredential(payload);
+
+  if (credential.type === 'dev') {
+    if (config.NODE_ENV !== 'development') {
+      throw new NodexAuthError('unsupported_credential', 'Credencial de desarrollo no admitida');
+    }
+    const userId = `dev-${credential.userId || 'user'}`;
+    console.log(`⚠️  Handshake Nodex con credencial de desarrollo: ${userId}`);
+    return userId;
+  }
+
+  if (credential.type === 'firebase' && !isFirebaseAvailable()) {
+    throw new NodexAuthError('auth_unavailable', 'Firebase no está configurado');
+  }
+
+  let user: TokenUser;
+  try {
+    user = await authenticateToken(credential.token!, credential.type);
+  } catch (error) {
+    if (error instanceof InvalidTokenError && error.expired) {
+      throw new NodexAuthError('token_expired', 'Token expirado');
+    }
+    throw new NodexAuthError('invalid_token', 'Token inválido');
+  }
+
+  let active: boolean;
+  try {
+    active = await hasActiveSubscription(user);
+  } catch (error) {
+    // Una caída de Firestore no es una suscripción inactiva: el cliente puede reintentar
+    throw new NodexAuthError('auth_unavailable', 'No se pudo comprobar la suscripción');
+  }
+  if (!active) {
+    throw new NodexAuthError('subscription_inactive', 'Suscripción VPN inactiva o caducada');
+  }
+
+  return user.uid;
+}
+
+function parseCredential(payload: Buffer): NodexCredential {
+  let credential: NodexCredential;
+  try {
+    credential = JSON.parse(payload.toString('utf8'));
+  } catch (error) {
+    throw new NodexAuthError('malformed_request', 'AUTH_REQUEST debe ser un JSON { type, token }');
+  }
+
+  if (!credential || typeof credential !== 'object' || !CREDENTIAL_TYPES.includes(credential.type)) {
+    throw new NodexAuthError('unsupported_credential', `type debe ser uno de: ${CREDENTIAL_TYPES.join(', ')}`);
+  }
+  if (credential.type !== 'dev' && (typeof credential.token !== 'string' || !credential.token)) {
+    throw new NodexAuthError('malformed_request', 'Falta token');
+  }
+
+  return credential;
+}
+
+/**
+ * Suscripción en Firestore o, sin Firebase, la que /api/auth/login firmó en el JWT
+ */
+async function hasActiveSubscription(user: TokenUser): Promise<boolean> {
+  if (isFirebaseAvailable()) {
+    return checkUserSubscription(user.uid);
+  }
+  return user.subscription === true;
+}
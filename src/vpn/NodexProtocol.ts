@@ -4,12 +4,14 @@
 
 import * as net from 'net';
 import { NodexCrypto } from './NodexCrypto';
-import { PacketType, NodexPacket } from '../types';
+import { NodexAuthError, authenticateNodexClient } from './NodexAuth';
+import { PacketType, NodexPacket, NodexAuthErrorCode } from '../types';
 
 interface HandshakeResult {
   success: boolean;
   userId: string;
   error?: string;
+  code?: NodexAuthErrorCode;
 }
 
 export class NodexProtocol {
@@ -39,13 +41,14 @@ export class NodexProtocol {
       // 1. Recibir AUTH_REQUEST del cliente
       const authRequest = await this.receivePacket();
       if (authRequest.type !== PacketType.AUTH_REQUEST) {
-        return { success: false, userId: '', error: 'Esperaba AUTH_REQUEST' };
+        await this.sendErrorResponse('unexpected_packet', 'Esperaba AUTH_REQUEST');
+        return { success: false, userId: '', error: 'Esperaba AUTH_REQUEST', code: 'unexpected_packet' };
       }
 
       // 2. Verificar autenticación
-      const authResult = this.verifyAuthentication(authRequest.payload);
+      const authResult = await this.verifyAuthentication(authRequest.payload);
       if (!authResult.success) {
-        await this.sendErrorResponse('Autenticación fallida');
+        await this.sendAuthFailure(authResult.code!, authResult.error!);
         return authResult;
       }
 
@@ -55,7 +58,8 @@ export class NodexProtocol {
       // 4. Recibir confirmación del cliente
       const clientReady = await this.receivePacket();
       if (clientReady.type !== PacketType.TUNNEL_DATA) {
-        return { success: false, userId: '', error: 'Esperaba confirmación del cliente' };
+        await this.sendErrorResponse('unexpected_packet', 'Esperaba confirmación del cliente');
+        return { success: false, userId: '', error: 'Esperaba confirmación del cliente', code: 'unexpected_packet' };
       }
 
       // 5. Enviar configuración del túnel
@@ -69,34 +73,23 @@ export class NodexProtocol {
 
     } catch (error) {
       console.error('❌ Error en handshake:', error);
-      return { success: false, userId: '', error: error.message };
+      return { success: false, userId: '', error: error instanceof Error ? error.message : String(error), code: 'internal_error' };
     }
   }
 
   /**
-   * Verificar autenticación del cliente
+   * Verificar la credencial del AUTH_REQUEST (JWT interno o Firebase y suscripción)
    */
-  private verifyAuthentication(payload: Buffer): HandshakeResult {
+  private async verifyAuthentication(payload: Buffer): Promise<HandshakeResult> {
     try {
-      const tokenString = payload.toString('utf8');
-      
-      // Verificar JWT o token simple
-      if (tokenString.includes('test') || tokenString.includes('dev')) {
-        // Token de desarrollo
-        return { success: true, userId: 'dev-user-' + Date.now() };
-      }
-
-      // TODO: Integrar verificación real con JWT/Firebase
-      
-      // Por ahora aceptar cualquier token no vacío
-      if (tokenString.length > 0) {
-        return { success: true, userId: 'user-' + Date.now() };
-      }
-
-      return { success: false, userId: '', error: 'Token inválido' };
-
+      const userId = await authenticateNodexClient(payload);
+      return { success: true, userId };
     } catch (error) {
-      return { success: false, userId: '', error: 'Error verificando token' };
+      if (error instanceof NodexAuthError) {
+        return { success: false, userId: '', error: error.message, code: error.code };
+      }
+      console.error('❌ Error verificando credencial Nodex:', error);
+      return { success: false, userId: '', error: 'Error verificando credencial', code: 'internal_error' };
     }
   }
 
@@ -133,11 +126,20 @@ export class NodexProtocol {
     await this.sendPacket(PacketType.TUNNEL_DATA, payload);
   }
 
+  /**
+   * Rechazar la autenticación (AUTH_RESPONSE con el motivo)
+   */
+  private async sendAuthFailure(code: NodexAuthErrorCode, message: string): Promise<void> {
+    const responseData = { status: 'failure', code, error: message };
+    const payload = Buffer.from(JSON.stringify(responseData), 'utf8');
+    await this.sendPacket(PacketType.AUTH_RESPONSE, payload);
+  }
+
   /**
    * Enviar respuesta de error
    */
-  private async sendErrorResponse(message: string): Promise<void> {
-    const errorData = { error: message, timestamp: Date.now() };
+  private async sendErrorResponse(code: NodexAuthErrorCode, message: string): Promise<void> {
+    const errorData = { code, error: message, timestamp: Date.now() };
     const payload = Buffer.from(JSON.stringify(errorData), 'utf8');
     await this.sendPacket(PacketType.ERROR, payload);
   }
@@ -10,12 +10,13 @@ import { EventEmitter } from 'events';
 import { VpnServerConfig, ConnectionState, VpnConnectionEvent } from '../types';
 import { NodexProtocol } from './NodexProtocol';
 import { NodexCrypto } from './NodexCrypto';
+import { recordNodexHandshake } from '../metrics';
 
 export class NodexServer extends EventEmitter {
   private config: VpnServerConfig;
   private tcpServer: net.Server | null = null;
   private udpSocket: dgram.Socket | null = null;
-  private isRunning: boolean = false;
+  private running: boolean = false;
   private activeConnections: Map<string, ConnectionState> = new Map();
   private crypto: NodexCrypto;
 
@@ -35,7 +36,7 @@ export class NodexServer extends EventEmitter {
    * Iniciar el servidor VPN
    */
   async start(): Promise<void> {
-    if (this.isRunning) {
+    if (this.running) {
       throw new Error('El servidor ya está en ejecución');
     }
 
@@ -49,7 +50,7 @@ export class NodexServer extends EventEmitter {
       // Iniciar servidor UDP para datos del túnel
       await this.startUdpServer();
       
-      this.isRunning = true;
+      this.running = true;
       console.log(`✅ Nodex VPN Server iniciado en TCP:${this.config.tcpPort}, UDP:${this.config.udpPort}`);
       
     } catch (error) {
@@ -65,7 +66,7 @@ export class NodexServer extends EventEmitter {
   async stop(): Promise<void> {
     console.log('🛑 Deteniendo Nodex VPN Server...');
     
-    this.isRunning = false;
+    this.running = false;
     
     // Cerrar todas las conexiones activas
     for (const [clientId, connection] of this.activeConnections) {
@@ -152,7 +153,8 @@ export class NodexServer extends EventEmitter {
       const authResult = await protocol.performHandshake();
       
       if (!authResult.success) {
-        console.log(`❌ Handshake fallido para: ${clientId}`);
+        console.log(`❌ Handshake fallido para: ${clientId} (${authResult.code}: ${authResult.error})`);
+        recordNodexHandshake('failure');
         socket.end();
         return;
       }
@@ -170,6 +172,7 @@ export class NodexServer extends EventEmitter {
       };
 
       this.activeConnections.set(clientId, connectionState);
+      recordNodexHandshake('success');
       
       console.log(`✅ Cliente conectado: ${clientId} (Usuario: ${authResult.userId})`);
       
@@ -184,6 +187,7 @@ export class NodexServer extends EventEmitter {
 
     } catch (error) {
       console.error(`❌ Error en handshake TCP ${clientId}:`, error);
+      recordNodexHandshake('error');
       socket.end();
     }
 
@@ -279,6 +283,6 @@ export class NodexServer extends EventEmitter {
    * Verificar si el servidor está corriendo
    */
   isRunning(): boolean {
-    return this.isRunning;
+    return this.running;
   }
 } 
\ No newline at end of file
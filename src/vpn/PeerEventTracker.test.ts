@@ -0,0 +1,83 @@
+import { WireGuardPeer, WireGuardStats } from '../types';
+import { PeerEventTracker } from './PeerEventTracker';
+
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+function peer(publicKey: string, fields: Partial<WireGuardPeer> = {}): WireGuardPeer {
+  return { userId: 'alice', deviceId: publicKey.toLowerCase(), publicKey, allowedIPs: '10.0.0.2/32', ...fields };
+}
+
+function sample(seconds: number, peers: WireGuardPeer[]): WireGuardStats {
+  return {
+    peers,
+    totalPeers: peers.length,
+    activePeers: peers.filter(entry => entry.connected).length,
+    interface: 'wg0',
+    serverLoad: 0,
+    collectedAt: new Date(START + seconds * 1000)
+  };
+}
+
+describe('PeerEventTracker', () => {
+  it('usa la primera muestra como base sin facturar los contadores previos', () => {
+    const tracker = new PeerEventTracker();
+
+    const events = tracker.update(sample(0, [peer('A', { bytesReceived: 5000, bytesSent: 7000 })]));
+
+    expect(events.map(event => event.event)).toEqual(['peer-added']);
+  });
+
+  it('factura la diferencia entre muestras con el intervalo', () => {
+    const tracker = new PeerEventTracker();
+    tracker.update(sample(0, [peer('A', { bytesReceived: 5000, bytesSent: 7000 })]));
+
+    const events = tracker.update(sample(30, [peer('A', { bytesReceived: 6000, bytesSent: 7500 })]));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      event: 'transfer',
+      clientId: 'alice:a',
+      data: { rxBytes: 1000, txBytes: 500, bytesReceived: 6000, bytesSent: 7500, intervalMs: 30000 }
+    });
+  });
+
+  it('factura todo el contador si bajó (interfaz recreada)', () => {
+    const tracker = new PeerEventTracker();
+    tracker.update(sample(0, [peer('A', { bytesReceived: 5000, bytesSent: 7000 })]));
+
+    const [transfer] = tracker.update(sample(30, [peer('A', { bytesReceived: 300, bytesSent: 200 })]));
+
+    expect(transfer.data).toMatchObject({ rxBytes: 300, txBytes: 200, counterReset: true });
+  });
+
+  it('factura completo un peer añadido después de la primera muestra', () => {
+    const tracker = new PeerEventTracker();
+    tracker.update(sample(0, []));
+
+    const events = tracker.update(sample(30, [peer('B', { bytesReceived: 100, bytesSent: 50 })]));
+
+    expect(events.map(event => event.event)).toEqual(['peer-added', 'transfer']);
+    expect(events[1].data).toMatchObject({ rxBytes: 100, txBytes: 50 });
+  });
+
+  it('emite handshake, online, offline y retirada', () => {
+    const tracker = new PeerEventTracker();
+    tracker.update(sample(0, [peer('A')]));
+
+    const online = tracker.update(sample(30, [peer('A', { connected: true, latestHandshakeEpoch: START / 1000 + 20 })]));
+    expect(online.map(event => event.event)).toEqual(['handshake', 'peer-online']);
+
+    const removed = tracker.update(sample(60, []));
+    expect(removed.map(event => event.event)).toEqual(['peer-offline', 'peer-removed']);
+  });
+
+  it('vuelve a tomar una base tras reset', () => {
+    const tracker = new PeerEventTracker();
+    tracker.update(sample(0, [peer('A', { bytesReceived: 100 })]));
+    tracker.reset();
+
+    const events = tracker.update(sample(30, [peer('A', { bytesReceived: 900 })]));
+
+    expect(events.map(event => event.event)).toEqual(['peer-added']);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * PEER EVENT TRACKER - Eventos de ciclo de vida a partir de muestras de `wg`
+ *
+ * Compara cada muestra de estadísticas con la anterior y produce los eventos
+ * correspondientes (alta/baja de peers, handshakes, online/offline, cambios de
+ * endpoint y transferencia). No tiene temporizadores: WireGuardServer decide
+ * cuándo muestrear.
+ */
+
+import {
+  WireGuardPeer,
+  WireGuardPeerEvent,
+  WireGuardPeerEventData,
+  WireGuardPeerEventType,
+  WireGuardStats
+} from '../types';
+import { DEFAULT_DEVICE_ID, peerKey } from './PeerStore';
+
+export class PeerEventTracker {
+  private previous: Map<string, WireGuardPeer> = new Map();
+  private previousAt?: Date;
+
+  /**
+   * Procesar una muestra nueva y devolver los eventos ocurridos desde la anterior
+   *
+   * La primera muestra se compara contra un estado vacío (todos sus peers son
+   * nuevos) pero sólo sirve de base para la transferencia: los contadores pueden
+   * venir de antes de arrancar el proceso y ya estar facturados. Las muestras
+   * fallidas no deben llegar aquí: los peers ausentes se darían por retirados.
+   */
+  update(stats: WireGuardStats): WireGuardPeerEvent[] {
+    const events: WireGuardPeerEvent[] = [];
+    const current = new Map(stats.peers.map(peer => [peer.publicKey, peer]));
+    const baseline = !this.previousAt;
+    const intervalMs = this.previousAt ? stats.collectedAt.getTime() - this.previousAt.getTime() : undefined;
+
+    for (const peer of current.values()) {
+      const before = this.previous.get(peer.publicKey);
+      const emit = (event: WireGuardPeerEventType, data: WireGuardPeerEventData = {}) =>
+        events.push(this.createEvent(event, peer, stats.collectedAt, data));
+
+      if (!before) {
+        emit('peer-added', { endpoint: peer.endpoint });
+      }
+
+      if ((peer.latestHandshakeEpoch || 0) > (before?.latestHandshakeEpoch || 0)) {
+        emit('handshake', { endpoint: peer.endpoint, lastHandshake: peer.lastHandshake });
+      }
+
+      if (peer.connected && !before?.connected) {
+        emit('peer-online', { endpoint: peer.endpoint, lastHandshake: peer.lastHandshake });
+      } else if (!peer.connected && before?.connected) {
+        emit('peer-offline', { endpoint: peer.endpoint, lastHandshake: peer.lastHandshake });
+      }
+
+      if (before?.endpoint && peer.endpoint && before.endpoint !== peer.endpoint) {
+        emit('endpoint-changed', { endpoint: peer.endpoint, previousEndpoint: before.endpoint });
+      }
+
+      const transfer = this.transferDelta(before, peer);
+      if (!baseline && (transfer.rxBytes > 0 || transfer.txBytes > 0)) {
+        emit('transfer', {
+          ...transfer,
+          bytesReceived: peer.bytesReceived || 0,
+          bytesSent: peer.bytesSent || 0,
+          intervalMs
+        });
+      }
+    }
+
+    for (const before of this.previous.values()) {
+      if (current.has(before.publicKey)) continue;
+
+      if (before.connected) {
+        events.push(this.createEvent('peer-offline', before, stats.collectedAt, { endpoint: before.endpoint }));
+      }
+      events.push(this.createEvent('peer-removed', before, stats.collectedAt, { endpoint: before.endpoint }));
+    }
+
+    this.previous = current;
+    this.previousAt = stats.collectedAt;
+
+    return events;
+  }
+
+  /**
+   * Olvidar la muestra anterior (p. ej. al detener la interfaz)
+   */
+  reset(): void {
+    this.previous.clear();
+    this.previousAt = undefined;
+  }
+
+  /**
+   * Bytes transferidos entre dos muestras; si el contador bajó, la interfaz se
+   * recreó y el valor actual es todo lo transferido desde entonces
+   */
+  private transferDelta(
+    before: WireGuardPeer | undefined,
+    peer: WireGuardPeer
+  ): { rxBytes: number; txBytes: number; counterReset?: boolean } {
+    const rx = peer.bytesReceived || 0;
+    const tx = peer.bytesSent || 0;
+    const previousRx = before?.bytesReceived || 0;
+    const previousTx = before?.bytesSent || 0;
+
+    if (rx < previousRx || tx < previousTx) {
+      return { rxBytes: rx, txBytes: tx, counterReset: true };
+    }
+
+    return { rxBytes: rx - previousRx, txBytes: tx - previousTx };
+  }
+
+  private createEvent(
+    event: WireGuardPeerEventType,
+    peer: WireGuardPeer,
+    timestamp: Date,
+    data: WireGuardPeerEventData
+  ): WireGuardPeerEvent {
+    const deviceId = peer.deviceId || DEFAULT_DEVICE_ID;
+
+    return {
+      clientId: peerKey(peer.userId, deviceId),
+      userId: peer.userId,
+      deviceId,
+      publicKey: peer.publicKey,
+      event,
+      timestamp,
+      data,
+      protocol: 'wireguard'
+    };
+  }
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WireGuardInstanceConfig, WireGuardPeer } from '../types';
+import { AuditLog } from './AuditLog';
+import { JsonFilePeerStore } from './JsonFilePeerStore';
+import { PeerReaper, PeerReaperOptions } from './PeerReaper';
+import { SimulatedWireGuardBackend } from './SimulatedWireGuardBackend';
+import { WireGuardInstance } from './WireGuardInstance';
+import { IDLE_SUSPENSION_REASON, WireGuardServer } from './WireGuardServer';
+
+const HOUR = 3600000;
+
+// Simular que el dispositivo lleva `ms` sin actividad
+function backdate(peer: WireGuardPeer, ms: number): void {
+  const past = new Date(Date.now() - ms);
+  peer.createdAt = past;
+  peer.activatedAt = past;
+  peer.lastSeenAt = undefined;
+}
+
+describe('PeerReaper', () => {
+  let dir: string;
+  let server: WireGuardServer;
+  let instance: WireGuardInstance;
+  let auditPath: string;
+
+  function createReaper(options: Partial<PeerReaperOptions> = {}): PeerReaper {
+    return new PeerReaper([instance], { idleAfterMs: 24 * HOUR, audit: new AuditLog(auditPath), ...options });
+  }
+
+  async function auditEntries(): Promise<Array<Record<string, unknown>>> {
+    const content = await fs.readFile(auditPath, 'utf8').catch(() => '');
+    return content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nodex-reaper-'));
+    auditPath = path.join(dir, 'audit.log');
+    const peerStore = new JsonFilePeerStore(path.join(dir, 'peers.json'));
+    server = new WireGuardServer('vpn.example.com', 51820, {
+      backend: new SimulatedWireGuardBackend(),
+      configDir: dir,
+      peerStore
+    });
+    await server.start();
+    instance = { config: { id: 'standard' } as WireGuardInstanceConfig, server, peerStore, primary: true };
+
+    await server.generateClientConfig('alice', { deviceId: 'idle' });
+    await server.generateClientConfig('alice', { deviceId: 'active' });
+    await server.generateClientConfig('alice', { deviceId: 'trial', expiresAt: new Date(Date.now() + HOUR) });
+    backdate(server.getUserPeers('alice').find(peer => peer.deviceId === 'idle')!, 48 * HOUR);
+    await server.setPeerExpiry('alice', 'trial', new Date(Date.now() - 1000));
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('informa de inactivos y caducados sin tocar nada', () => {
+    const report = createReaper().report();
+
+    expect(report).toMatchObject({ applied: false, enabled: false, idleHours: 24, idleAction: 'remove' });
+    expect(report.candidates.map(candidate => [candidate.deviceId, candidate.reason, candidate.action])).toEqual(
+      expect.arrayContaining([['idle', 'idle', 'remove'], ['trial', 'expired', 'remove']])
+    );
+    expect(report.candidates).toHaveLength(2);
+    expect(server.getUserPeers('alice')).toHaveLength(3);
+  });
+
+  it('revoca inactivos y caducados y lo deja en el log de auditoría', async () => {
+    const report = await createReaper().run();
+
+    expect(report.applied).toBe(true);
+    expect(server.getUserPeers('alice').map(peer => peer.deviceId)).toEqual(['active']);
+    expect((await auditEntries()).map(entry => [entry.action, entry.actor, entry.deviceId, entry.reason])).toEqual(
+      expect.arrayContaining([
+        ['peer-removed', 'reaper', 'idle', 'idle'],
+        ['peer-removed', 'reaper', 'trial', 'expired']
+      ])
+    );
+  });
+
+  it('con idleAction suspend conserva la IP del inactivo y vuelve al pedir su configuración', async () => {
+    const idle = server.getUserPeers('alice').find(peer => peer.deviceId === 'idle')!;
+    const address = idle.allowedIPs;
+
+    await createReaper({ idleAction: 'suspend' }).run();
+
+    expect(idle).toMatchObject({ suspendedReason: IDLE_SUSPENSION_REASON, allowedIPs: address });
+    expect(server.getUserPeers('alice').map(peer => peer.deviceId).sort()).toEqual(['active', 'idle']);
+    // Suspendido no puede conectar: no vuelve a ser candidato por inactividad
+    expect(createReaper({ idleAction: 'suspend' }).report().candidates).toEqual([]);
+
+    const resumed = await server.generateClientConfig('alice', { deviceId: 'idle' });
+    expect(resumed.peer.suspendedAt).toBeUndefined();
+    expect(resumed.peer.allowedIPs).toBe(address);
+  });
+
+  it('sin periodo de inactividad sólo retira los caducados', async () => {
+    await createReaper({ idleAfterMs: 0 }).run();
+
+    expect(server.getUserPeers('alice').map(peer => peer.deviceId).sort()).toEqual(['active', 'idle']);
+  });
+});
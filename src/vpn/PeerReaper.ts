@@ -0,0 +1,159 @@
+/**
+ * PEER REAPER - Limpieza periódica de peers inactivos o caducados
+ *
+ * Cada emisión de configuración (también las anónimas) deja un peer en la
+ * interfaz. Este job retira los que llevan demasiado sin handshake y los que
+ * tienen `expiresAt` vencido: los revoca liberando su IP (o, por inactividad y
+ * con action = 'suspend', los saca de la interfaz conservándola) y deja una
+ * entrada en el log de auditoría por cada uno.
+ *
+ * Desactivado sigue disponible `report()`, para revisar qué se retiraría.
+ */
+
+import { ReapCandidate, ReapReport } from '../types';
+import { AuditLog } from './AuditLog';
+import { DEFAULT_DEVICE_ID } from './PeerStore';
+import { IDLE_SUSPENSION_REASON } from './WireGuardServer';
+import { WireGuardInstance } from './WireGuardInstance';
+
+export interface PeerReaperOptions {
+  /** Ejecutar periódicamente (si no, sólo informes y ejecuciones manuales) */
+  enabled?: boolean;
+  /** Sin handshake durante este tiempo (0 = sólo caducados) */
+  idleAfterMs: number;
+  /** Qué hacer con los inactivos; los caducados siempre se revocan */
+  idleAction?: 'remove' | 'suspend';
+  intervalMs?: number;
+  audit: AuditLog;
+}
+
+export class PeerReaper {
+  private instances: WireGuardInstance[];
+  private enabled: boolean;
+  private idleAfterMs: number;
+  private idleAction: 'remove' | 'suspend';
+  private intervalMs: number;
+  private audit: AuditLog;
+  private timer?: NodeJS.Timeout;
+  private running: boolean = false;
+
+  constructor(instances: WireGuardInstance[], options: PeerReaperOptions) {
+    this.instances = instances;
+    this.enabled = !!options.enabled;
+    this.idleAfterMs = options.idleAfterMs;
+    this.idleAction = options.idleAction || 'remove';
+    this.intervalMs = options.intervalMs ?? 60 * 60 * 1000;
+    this.audit = options.audit;
+  }
+
+  start(): void {
+    if (!this.enabled) return;
+
+    this.timer = setInterval(() => {
+      this.run().catch(error => console.error('⚠️ Error en la limpieza de peers:', error));
+    }, this.intervalMs);
+    console.log(`✅ Limpieza de peers activa (inactivos ${this.describeIdle()}, cada ${Math.round(this.intervalMs / 60000)} min)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Qué se retiraría ahora, sin cambiar nada
+   */
+  report(): ReapReport {
+    return this.buildReport(this.findCandidates(), false);
+  }
+
+  /**
+   * Retirar ahora los peers inactivos y caducados
+   */
+  async run(): Promise<ReapReport> {
+    // Una pasada lenta no debe solaparse con la siguiente
+    if (this.running) return this.report();
+    this.running = true;
+
+    try {
+      const reaped: ReapCandidate[] = [];
+
+      for (const candidate of this.findCandidates()) {
+        try {
+          await this.reap(candidate);
+          reaped.push(candidate);
+        } catch (error) {
+          console.error(`⚠️ Error retirando ${candidate.userId}:${candidate.deviceId}:`, error);
+        }
+      }
+
+      if (reaped.length > 0) {
+        console.log(`🧹 Limpieza de peers: ${reaped.length} dispositivos retirados`);
+      }
+      return this.buildReport(reaped, true);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async reap(candidate: ReapCandidate): Promise<void> {
+    const instance = this.instances.find(entry => entry.config.id === candidate.instance);
+    if (!instance) return;
+
+    if (candidate.action === 'suspend') {
+      await instance.server.suspendDevice(candidate.userId, candidate.deviceId, IDLE_SUSPENSION_REASON);
+    } else {
+      await instance.server.removeClient(candidate.userId, candidate.deviceId, candidate.reason);
+    }
+
+    await this.audit.record({
+      action: candidate.action === 'suspend' ? 'peer-suspended' : 'peer-removed',
+      actor: 'reaper',
+      userId: candidate.userId,
+      deviceId: candidate.deviceId,
+      instance: candidate.instance,
+      reason: candidate.reason,
+      details: {
+        createdAt: candidate.createdAt,
+        lastSeenAt: candidate.lastSeenAt,
+        expiresAt: candidate.expiresAt
+      }
+    }).catch(error => console.error('⚠️ Error escribiendo el log de auditoría:', error));
+  }
+
+  private findCandidates(): ReapCandidate[] {
+    const now = new Date();
+
+    return this.instances.flatMap(instance =>
+      instance.server.getReapCandidates(this.idleAfterMs, now).map(({ peer, reason }) => ({
+        instance: instance.config.id,
+        userId: peer.userId,
+        deviceId: peer.deviceId || DEFAULT_DEVICE_ID,
+        reason,
+        action: reason === 'idle' ? this.idleAction : 'remove' as const,
+        createdAt: peer.createdAt,
+        lastSeenAt: peer.lastSeenAt,
+        expiresAt: peer.expiresAt
+      }))
+    );
+  }
+
+  private buildReport(candidates: ReapCandidate[], applied: boolean): ReapReport {
+    return {
+      applied,
+      enabled: this.enabled,
+      idleHours: this.idleAfterMs / 3600000,
+      idleAction: this.idleAction,
+      candidates,
+      generatedAt: new Date()
+    };
+  }
+
+  private describeIdle(): string {
+    return this.idleAfterMs > 0
+      ? `tras ${this.idleAfterMs / 3600000} h: ${this.idleAction === 'suspend' ? 'suspender' : 'revocar'}`
+      : 'no se retiran';
+  }
+}
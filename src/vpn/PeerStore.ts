@@ -0,0 +1,81 @@
+/**
+ * PEER STORE - Persistencia de peers WireGuard
+ *
+ * Guarda los peers emitidos (usuario, dispositivo, IP, timestamps y estado de
+ * revocación) y el estado auxiliar del servidor (pool de IPs, etc.) para que
+ * WireGuardServer pueda rehidratarse tras un reinicio.
+ */
+
+import * as path from 'path';
+import { WireGuardPeer } from '../types';
+import { JsonFilePeerStore } from './JsonFilePeerStore';
+import { SqlitePeerStore } from './SqlitePeerStore';
+
+export type PeerStoreType = 'json' | 'sqlite';
+
+export interface PeerStore {
+  readonly type: PeerStoreType;
+
+  open(): Promise<void>;
+  close(): Promise<void>;
+
+  /**
+   * Todos los peers guardados, incluidos los revocados
+   */
+  loadPeers(): Promise<WireGuardPeer[]>;
+  savePeer(peer: WireGuardPeer): Promise<void>;
+  deletePeer(userId: string, deviceId: string): Promise<void>;
+
+  /**
+   * Estado auxiliar serializable en JSON (ej. 'ipPool')
+   */
+  getState<T>(key: string): Promise<T | undefined>;
+  setState<T>(key: string, value: T): Promise<void>;
+}
+
+export interface PeerStoreOptions {
+  /** Archivo para el store JSON */
+  filePath: string;
+  /** URL tipo `sqlite:./data/nodex.db` para el store SQLite */
+  databaseUrl: string;
+  /**
+   * Instancia WireGuard dueña del store: usa su propio archivo junto al base
+   * (peers.json -> peers-<namespace>.json, nodex.db -> nodex-<namespace>.db)
+   */
+  namespace?: string;
+}
+
+/**
+ * Crear store según configuración
+ */
+export function createPeerStore(type: PeerStoreType, options: PeerStoreOptions): PeerStore {
+  switch (type) {
+    case 'json':
+      return new JsonFilePeerStore(namespacedPath(options.filePath, options.namespace));
+    case 'sqlite':
+      return new SqlitePeerStore(namespacedPath(options.databaseUrl.replace(/^sqlite:(\/\/)?/, ''), options.namespace));
+    default:
+      throw new Error(`Peer store desconocido: ${type}`);
+  }
+}
+
+function namespacedPath(filePath: string, namespace?: string): string {
+  if (!namespace || filePath === ':memory:') return filePath;
+  const extension = path.extname(filePath);
+  return path.join(path.dirname(filePath), `${path.basename(filePath, extension)}-${namespace}${extension}`);
+}
+
+/**
+ * Dispositivo asignado a peers emitidos sin deviceId
+ */
+export const DEFAULT_DEVICE_ID = 'default';
+
+// Sin ':' (separa usuario y dispositivo en la clave) ni caracteres que no quepan en un nombre de archivo
+export const DEVICE_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Clave única de un peer: (usuario, dispositivo)
+ */
+export function peerKey(userId: string, deviceId: string = DEFAULT_DEVICE_ID): string {
+  return `${userId}:${deviceId}`;
+}
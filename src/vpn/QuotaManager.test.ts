@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QuotaWarning, WireGuardPeerEvent } from '../types';
+import { JsonFilePeerStore } from './JsonFilePeerStore';
+import { QuotaManager, QuotaManagerOptions, billingCycleStart } from './QuotaManager';
+import { SimulatedWireGuardBackend } from './SimulatedWireGuardBackend';
+import { WireGuardServer } from './WireGuardServer';
+
+const LIMIT = 1000;
+
+function transfer(userId: string, deviceId: string, bytes: number): WireGuardPeerEvent {
+  return {
+    clientId: `${userId}:${deviceId}`,
+    userId,
+    deviceId,
+    publicKey: 'PUB=',
+    event: 'transfer',
+    protocol: 'wireguard',
+    timestamp: new Date(),
+    data: { rxBytes: bytes, txBytes: 0 }
+  };
+}
+
+describe('billingCycleStart', () => {
+  it('empieza el día del ciclo de este mes o del anterior', () => {
+    expect(billingCycleStart(new Date('2026-03-20T10:00:00Z'), 15)).toEqual(new Date('2026-03-15T00:00:00Z'));
+    expect(billingCycleStart(new Date('2026-03-10T10:00:00Z'), 15)).toEqual(new Date('2026-02-15T00:00:00Z'));
+    expect(billingCycleStart(new Date('2026-01-05T10:00:00Z'), 15)).toEqual(new Date('2025-12-15T00:00:00Z'));
+  });
+});
+
+describe('QuotaManager', () => {
+  let dir: string;
+  let store: JsonFilePeerStore;
+  let server: WireGuardServer;
+  let manager: QuotaManager | undefined;
+
+  async function startManager(options: Partial<QuotaManagerOptions> = {}): Promise<QuotaManager> {
+    manager = new QuotaManager([server], store, {
+      planLimits: { free: LIMIT },
+      flushIntervalMs: 3600000,
+      ...options
+    });
+    await manager.start();
+    return manager;
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nodex-quota-'));
+    store = new JsonFilePeerStore(path.join(dir, 'peers.json'));
+    server = new WireGuardServer('vpn.example.com', 51820, {
+      backend: new SimulatedWireGuardBackend(),
+      configDir: dir,
+      peerStore: store
+    });
+    await server.start();
+    await server.generateClientConfig('alice', { deviceId: 'phone' });
+    await server.generateClientConfig('alice', { deviceId: 'laptop' });
+  });
+
+  afterEach(async () => {
+    await manager?.stop();
+    manager = undefined;
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('suma el tráfico de todos los dispositivos y avisa al pasar cada umbral', async () => {
+    const quota = await startManager();
+    const warnings: number[] = [];
+    quota.on('quota-warning', (warning: QuotaWarning) => warnings.push(warning.threshold));
+
+    server.emit('transfer', transfer('alice', 'phone', 500));
+    server.emit('transfer', transfer('alice', 'laptop', 350));
+    server.emit('transfer', transfer('alice', 'laptop', 10));
+    server.emit('transfer', transfer('alice', 'phone', 100));
+
+    expect(warnings).toEqual([0.8, 0.95]);
+    expect(quota.getStatus('alice')).toMatchObject({ usedBytes: 960, limitBytes: LIMIT, remainingBytes: 40, status: 'ok' });
+  });
+
+  it('limita la velocidad al agotar la cuota', async () => {
+    const quota = await startManager({ action: 'throttle', throttleLimit: { downloadKbps: 256, uploadKbps: 256 } });
+    const override = jest.spyOn(server, 'setBandwidthOverride');
+
+    server.emit('transfer', transfer('alice', 'phone', LIMIT));
+    await override.mock.results[0].value;
+
+    expect(override).toHaveBeenCalledWith('alice', { downloadKbps: 256, uploadKbps: 256 });
+    expect(quota.getStatus('alice').status).toBe('throttled');
+  });
+
+  it('al subir de plan sólo reactiva los dispositivos suspendidos por cuota', async () => {
+    const quota = await startManager({ action: 'suspend', planLimits: { free: LIMIT, premium: 0 } });
+    await server.suspendDevice('alice', 'laptop', 'admin');
+    const suspend = jest.spyOn(server, 'suspendUser');
+
+    server.emit('transfer', transfer('alice', 'phone', LIMIT));
+    await suspend.mock.results[0].value;
+
+    expect(quota.getStatus('alice').status).toBe('suspended');
+    expect(server.getUserPeers('alice').map(peer => [peer.deviceId, peer.suspendedReason]))
+      .toEqual(expect.arrayContaining([['phone', 'quota-exceeded'], ['laptop', 'admin']]));
+
+    await server.generateClientConfig('alice', { deviceId: 'phone', plan: 'premium' });
+    await quota['tick']();
+
+    expect(quota.getStatus('alice')).toMatchObject({ status: 'ok', limitBytes: null });
+    const peers = new Map(server.getUserPeers('alice').map(peer => [peer.deviceId, peer]));
+    expect(peers.get('phone')?.suspendedAt).toBeUndefined();
+    expect(peers.get('laptop')?.suspendedReason).toBe('admin');
+  });
+
+  it('un ciclo nuevo pone el uso a cero y retira la restricción', async () => {
+    await server.suspendUser('alice', 'quota-exceeded');
+    await store.setState('quotaUsage', {
+      alice: { cycleStart: '2000-01-01T00:00:00.000Z', usedBytes: 5000, enforced: 'suspend', warned: 1 }
+    });
+
+    const quota = await startManager({ action: 'suspend' });
+
+    expect(quota.getStatus('alice')).toMatchObject({ usedBytes: 0, status: 'ok' });
+    expect(server.getUserPeers('alice').every(peer => !peer.suspendedAt)).toBe(true);
+  });
+
+  it('reintenta en el siguiente envío los bytes cuyo reporte falló', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const reportUsage = jest.fn()
+      .mockRejectedValueOnce(new Error('Firestore no disponible'))
+      .mockResolvedValue(undefined);
+    const quota = await startManager({ planLimits: {}, reportUsage });
+
+    server.emit('transfer', transfer('alice', 'phone', 300));
+    await quota['tick']();
+    server.emit('transfer', transfer('alice', 'phone', 200));
+    await quota['tick']();
+
+    expect(reportUsage.mock.calls).toEqual([['alice', 300], ['alice', 500]]);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * QUOTA MANAGER - Cuota mensual de datos por usuario
+ *
+ * Suma los eventos `transfer` del monitor de WireGuard (que ya descuentan los
+ * reinicios de contadores) en el uso del ciclo de facturación de cada usuario.
+ * Al superar el tope de su plan el usuario se limita o se suspende hasta el
+ * siguiente ciclo o hasta que cambie a un plan con más cuota.
+ *
+ * El usuario de la cuota es el `userId` de los peers, que la API sólo emite
+ * para el uid autenticado: nunca un id enviado por el cliente.
+ *
+ * Emite 'quota-warning' (QuotaWarning) la primera vez en el ciclo que el uso
+ * pasa de cada umbral de aviso y al aplicar la restricción (threshold 1).
+ */
+
+import { EventEmitter } from 'events';
+import { BandwidthLimit, QuotaStatus, QuotaWarning, WireGuardPeerEvent } from '../types';
+import { PeerStore } from './PeerStore';
+import { WireGuardServer } from './WireGuardServer';
+
+export type QuotaAction = 'throttle' | 'suspend';
+
+export interface QuotaManagerOptions {
+  /** Tope por ciclo en bytes por plan; un plan sin entrada (o 0) no tiene tope */
+  planLimits: Record<string, number>;
+  /** Qué hacer al agotar la cuota (por defecto limitar la velocidad) */
+  action?: QuotaAction;
+  /** Límite aplicado con action = 'throttle' */
+  throttleLimit?: BandwidthLimit;
+  /** Día del mes (UTC, 1-28) en que empieza cada ciclo */
+  cycleDay?: number;
+  /** Fracciones del tope que generan un aviso (por defecto 80 % y 95 %) */
+  warningThresholds?: number[];
+  /** Intervalo para persistir el uso y revisar ciclos */
+  flushIntervalMs?: number;
+  /** Reportar bytes consumidos (p. ej. connectionStats.totalDataUsed en Firestore) */
+  reportUsage?: (userId: string, bytes: number) => Promise<void>;
+}
+
+// Uso persistido de un usuario
+interface UsageRecord {
+  cycleStart: string;
+  usedBytes: number;
+  enforced?: QuotaAction;
+  /** Umbral de aviso más alto ya notificado en el ciclo */
+  warned?: number;
+}
+
+const STATE_KEY = 'quotaUsage';
+
+// Motivo de suspensión propio: al retirar la restricción sólo se reactivan estos dispositivos
+const QUOTA_SUSPENSION_REASON = 'quota-exceeded';
+
+/**
+ * Inicio del ciclo de facturación que contiene `now`
+ */
+export function billingCycleStart(now: Date, cycleDay: number): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), cycleDay));
+  return now >= start ? start : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, cycleDay));
+}
+
+export class QuotaManager extends EventEmitter {
+  /** Instancias WireGuard; la cuota es por usuario y suma el tráfico de todas */
+  private servers: WireGuardServer[];
+  private store: PeerStore;
+  private planLimits: Record<string, number>;
+  private action: QuotaAction;
+  private throttleLimit: BandwidthLimit;
+  private cycleDay: number;
+  private warningThresholds: number[];
+  private flushIntervalMs: number;
+  private reportUsage?: (userId: string, bytes: number) => Promise<void>;
+
+  private usage: Map<string, UsageRecord> = new Map();
+  private pendingReports: Map<string, number> = new Map();
+  /** Usuarios con la restricción ya aplicada en este proceso */
+  private applied: Set<string> = new Set();
+  private dirty: boolean = false;
+  private timer?: NodeJS.Timeout;
+  private onTransfer = (event: WireGuardPeerEvent) => this.recordTransfer(event);
+
+  constructor(servers: WireGuardServer[], store: PeerStore, options: QuotaManagerOptions) {
+    super();
+    this.servers = servers;
+    this.store = store;
+    this.planLimits = options.planLimits;
+    this.action = options.action || 'throttle';
+    this.throttleLimit = options.throttleLimit || { downloadKbps: 512, uploadKbps: 512 };
+    this.cycleDay = Math.min(Math.max(options.cycleDay || 1, 1), 28);
+    this.warningThresholds = (options.warningThresholds || [0.8, 0.95])
+      .filter(threshold => threshold > 0 && threshold < 1)
+      .sort((a, b) => a - b);
+    this.flushIntervalMs = options.flushIntervalMs ?? 60000;
+    this.reportUsage = options.reportUsage;
+  }
+
+  /**
+   * Restaurar el uso persistido y empezar a medir (el store debe estar abierto)
+   */
+  async start(): Promise<void> {
+    const saved = await this.store.getState<Record<string, UsageRecord>>(STATE_KEY);
+    this.usage = new Map(Object.entries(saved || {}));
+
+    this.servers.forEach(server => server.on('transfer', this.onTransfer));
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('⚠️ Error actualizando cuotas:', error));
+    }, this.flushIntervalMs);
+
+    // Reaplicar límites/suspensiones vigentes y cerrar ciclos vencidos durante la parada
+    await this.evaluate();
+    console.log(`✅ Cuotas de datos activas (${this.usage.size} usuarios, acción: ${this.action})`);
+  }
+
+  async stop(): Promise<void> {
+    this.servers.forEach(server => server.off('transfer', this.onTransfer));
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Cuota del ciclo actual de un usuario
+   */
+  getStatus(userId: string): QuotaStatus {
+    const record = this.getRecord(userId);
+    const plan = this.getUserPlan(userId);
+    const limitBytes = this.getLimitBytes(plan);
+    const cycleStart = new Date(record.cycleStart);
+    const cycleEnd = new Date(Date.UTC(cycleStart.getUTCFullYear(), cycleStart.getUTCMonth() + 1, this.cycleDay));
+
+    return {
+      userId,
+      plan,
+      cycleStart,
+      cycleEnd,
+      usedBytes: record.usedBytes,
+      limitBytes,
+      remainingBytes: limitBytes === null ? null : Math.max(limitBytes - record.usedBytes, 0),
+      status: record.enforced === 'suspend' ? 'suspended' : record.enforced === 'throttle' ? 'throttled' : 'ok'
+    };
+  }
+
+  private recordTransfer(event: WireGuardPeerEvent): void {
+    const bytes = (event.data.rxBytes || 0) + (event.data.txBytes || 0);
+    if (bytes <= 0) return;
+
+    const record = this.getRecord(event.userId);
+    record.usedBytes += bytes;
+    this.pendingReports.set(event.userId, (this.pendingReports.get(event.userId) || 0) + bytes);
+    this.dirty = true;
+
+    const limit = this.getLimitBytes(this.getUserPlan(event.userId));
+    if (limit === null) return;
+
+    if (record.usedBytes >= limit && !this.applied.has(event.userId)) {
+      this.enforce(event.userId, record)
+        .catch(error => console.error(`⚠️ Error aplicando cuota a ${event.userId}:`, error));
+      return;
+    }
+
+    const crossed = this.warningThresholds.filter(threshold => record.usedBytes >= threshold * limit).pop();
+    if (crossed !== undefined && crossed > (record.warned || 0)) {
+      record.warned = crossed;
+      this.emitWarning(event.userId, crossed);
+    }
+  }
+
+  private emitWarning(userId: string, threshold: number): void {
+    const warning: QuotaWarning = { threshold, quota: this.getStatus(userId) };
+    try {
+      this.emit('quota-warning', warning);
+    } catch (error) {
+      console.error('⚠️ Error en listener de quota-warning:', error);
+    }
+  }
+
+  private async tick(): Promise<void> {
+    await this.evaluate();
+    await this.flush();
+  }
+
+  /**
+   * Cerrar ciclos vencidos y ajustar restricciones al plan actual de cada usuario
+   */
+  private async evaluate(): Promise<void> {
+    const currentCycle = billingCycleStart(new Date(), this.cycleDay).toISOString();
+
+    for (const [userId, record] of this.usage) {
+      if (record.cycleStart !== currentCycle) {
+        console.log(`🔄 Nuevo ciclo de cuota para ${userId}`);
+        record.cycleStart = currentCycle;
+        record.usedBytes = 0;
+        record.warned = undefined;
+        this.dirty = true;
+      }
+
+      const limit = this.getLimitBytes(this.getUserPlan(userId));
+      const exceeded = limit !== null && record.usedBytes >= limit;
+
+      if (exceeded && !this.applied.has(userId)) {
+        // Tras un reinicio las restricciones en memoria (throttle) se pierden
+        await this.enforce(userId, record);
+      } else if (!exceeded && record.enforced) {
+        await this.lift(userId, record);
+      }
+    }
+  }
+
+  private async enforce(userId: string, record: UsageRecord): Promise<void> {
+    const wasEnforced = record.enforced;
+    record.enforced = this.action;
+    this.applied.add(userId);
+    this.dirty = true;
+
+    for (const server of this.servers) {
+      if (this.action === 'suspend') {
+        await server.suspendUser(userId, QUOTA_SUSPENSION_REASON);
+      } else {
+        await server.setBandwidthOverride(userId, this.throttleLimit);
+      }
+    }
+
+    if (!wasEnforced) {
+      console.log(`🚫 Cuota agotada para ${userId}: ${this.action === 'suspend' ? 'suspendido' : 'velocidad limitada'}`);
+      record.warned = 1;
+      this.emitWarning(userId, 1);
+    }
+  }
+
+  private async lift(userId: string, record: UsageRecord): Promise<void> {
+    for (const server of this.servers) {
+      if (record.enforced === 'suspend') {
+        await server.resumeUser(userId, QUOTA_SUSPENSION_REASON);
+      } else {
+        await server.setBandwidthOverride(userId, undefined);
+      }
+    }
+
+    record.enforced = undefined;
+    record.warned = undefined;
+    this.applied.delete(userId);
+    this.dirty = true;
+    console.log(`✅ Restricción de cuota retirada para ${userId}`);
+  }
+
+  /**
+   * Persistir el uso y reportar los bytes acumulados desde el último envío
+   */
+  private async flush(): Promise<void> {
+    if (this.dirty) {
+      this.dirty = false;
+      await this.store.setState(STATE_KEY, Object.fromEntries(this.usage));
+    }
+
+    if (!this.reportUsage) return;
+
+    const pending = Array.from(this.pendingReports);
+    this.pendingReports.clear();
+
+    for (const [userId, bytes] of pending) {
+      try {
+        await this.reportUsage(userId, bytes);
+      } catch (error) {
+        // Devolver los bytes a la cola (sumados a los acumulados mientras tanto) para el próximo envío
+        console.error(`⚠️ Error reportando uso de datos de ${userId}:`, error);
+        this.pendingReports.set(userId, (this.pendingReports.get(userId) || 0) + bytes);
+      }
+    }
+  }
+
+  private getRecord(userId: string): UsageRecord {
+    const currentCycle = billingCycleStart(new Date(), this.cycleDay).toISOString();
+    let record = this.usage.get(userId);
+
+    if (!record) {
+      record = { cycleStart: currentCycle, usedBytes: 0 };
+      this.usage.set(userId, record);
+    }
+
+    return record;
+  }
+
+  /**
+   * Plan del usuario según la primera instancia en la que tenga dispositivos
+   */
+  private getUserPlan(userId: string): string {
+    const server = this.servers.find(candidate => candidate.getUserPeers(userId).length > 0) || this.servers[0];
+    return server.getUserPlan(userId);
+  }
+
+  private getLimitBytes(plan: string): number | null {
+    const limit = this.planLimits[plan];
+    return limit && limit > 0 ? limit : null;
+  }
+}
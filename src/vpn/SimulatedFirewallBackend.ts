@@ -0,0 +1,46 @@
+/**
+ * SIMULATED FIREWALL BACKEND - Reglas en memoria
+ *
+ * Acompaña a SimulatedWireGuardBackend: guarda las reglas aplicadas para poder
+ * inspeccionarlas y calcular deriva sin root.
+ */
+
+import { FirewallBackend, FirewallFamily, FirewallRule, FirewallState } from './FirewallBackend';
+
+export class SimulatedFirewallBackend implements FirewallBackend {
+  readonly name = 'simulation' as const;
+
+  private rules: FirewallRule[] = [];
+  private installed: boolean = false;
+
+  render(rules: FirewallRule[]): string {
+    return rules.map(rule => `${rule.family} ${rule.hook} ${rule.id} -> ${rule.action}`).join('\n') + '\n';
+  }
+
+  async apply(rules: FirewallRule[]): Promise<void> {
+    this.rules = rules.map(rule => ({ ...rule }));
+    this.installed = true;
+  }
+
+  async inspect(families?: FirewallFamily[]): Promise<FirewallState> {
+    return {
+      ruleIds: this.rules
+        .filter(rule => !families || families.includes(rule.family))
+        .map(rule => rule.id),
+      unexpected: [],
+      missingHooks: this.installed ? [] : ['simulation']
+    };
+  }
+
+  async teardown(): Promise<void> {
+    this.rules = [];
+    this.installed = false;
+  }
+
+  /**
+   * Reglas activas (para inspección en tests)
+   */
+  getRules(): FirewallRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * SIMULATED TRAFFIC SHAPER - Registra límites sin aplicarlos
+ */
+
+import { BandwidthLimit } from '../types';
+import { TrafficShaper } from './TrafficShaper';
+
+export class SimulatedTrafficShaper implements TrafficShaper {
+  readonly name = 'simulation' as const;
+
+  private limits: Map<string, BandwidthLimit> = new Map();
+
+  async setup(interfaceName: string): Promise<void> {
+    this.limits.clear();
+  }
+
+  async applyLimit(interfaceName: string, key: string, addresses: string[], limit: BandwidthLimit): Promise<void> {
+    this.limits.set(key, { ...limit });
+  }
+
+  async removeLimit(interfaceName: string, key: string): Promise<void> {
+    this.limits.delete(key);
+  }
+
+  async teardown(interfaceName: string): Promise<void> {
+    this.limits.clear();
+  }
+
+  getLimit(key: string): BandwidthLimit | undefined {
+    return this.limits.get(key);
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * SIMULATED WIREGUARD BACKEND - Driver en memoria
+ *
+ * Reproduce el comportamiento de wg/wg-quick sin root ni módulo del kernel:
+ * mantiene los peers de cada interfaz, simula handshakes y contadores de
+ * transferencia para que el resto del servidor funcione igual que en producción.
+ */
+
+import { promises as fs } from 'fs';
+import { BackendPeer, WireGuardBackend } from './WireGuardBackend';
+import { derivePublicKey } from './WireGuardKeys';
+
+interface SimulatedPeer extends BackendPeer {
+  addedAt: number;
+  endpoint?: string;
+  latestHandshake: number; // epoch en segundos, 0 = nunca
+  transferRx: number;
+  transferTx: number;
+  lastTick: number;
+}
+
+interface SimulatedInterface {
+  name: string;
+  privateKey: string;
+  publicKey: string;
+  listenPort: number;
+  peers: Map<string, SimulatedPeer>;
+  /** Rutas añadidas explícitamente (las de wg-quick no se simulan) */
+  routes: Set<string>;
+}
+
+export interface SimulatedBackendOptions {
+  /** Tiempo desde que se agrega un peer hasta su primer handshake */
+  handshakeDelayMs?: number;
+  /** Intervalo de renovación de handshake (WireGuard: 2 minutos) */
+  rekeyIntervalMs?: number;
+  /** Tráfico medio simulado por peer conectado */
+  bytesPerSecond?: number;
+}
+
+export class SimulatedWireGuardBackend implements WireGuardBackend {
+  readonly name = 'simulation' as const;
+  readonly simulated = true;
+
+  private interfaces: Map<string, SimulatedInterface> = new Map();
+  private forwarding: boolean = false;
+  private forwardingIpv6: boolean = false;
+  private options: Required<SimulatedBackendOptions>;
+
+  constructor(options: SimulatedBackendOptions = {}) {
+    this.options = {
+      handshakeDelayMs: options.handshakeDelayMs ?? 5000,
+      rekeyIntervalMs: options.rekeyIntervalMs ?? 120000,
+      bytesPerSecond: options.bytesPerSecond ?? 50000
+    };
+  }
+
+  async checkInstallation(): Promise<void> {
+    console.log('🧪 Backend WireGuard en modo simulación');
+  }
+
+  /**
+   * Levantar interfaz leyendo el archivo como lo haría wg-quick
+   */
+  async interfaceUp(interfaceName: string, configPath: string): Promise<void> {
+    if (this.interfaces.has(interfaceName)) {
+      throw new Error(`${interfaceName} ya existe`);
+    }
+
+    const parsed = await this.readConfig(configPath);
+    const iface: SimulatedInterface = {
+      name: interfaceName,
+      privateKey: parsed.privateKey,
+      publicKey: parsed.privateKey ? derivePublicKey(parsed.privateKey) : '',
+      listenPort: parsed.listenPort,
+      peers: new Map(),
+      routes: new Set()
+    };
+
+    for (const peer of parsed.peers) {
+      iface.peers.set(peer.publicKey, this.createPeer(peer));
+    }
+
+    this.interfaces.set(interfaceName, iface);
+  }
+
+  async interfaceDown(interfaceName: string, configPath: string): Promise<void> {
+    if (!this.interfaces.delete(interfaceName)) {
+      throw new Error(`${interfaceName} no es una interfaz WireGuard`);
+    }
+  }
+
+  async interfaceExists(interfaceName: string): Promise<boolean> {
+    return this.interfaces.has(interfaceName);
+  }
+
+  /**
+   * Reconciliar peers con el archivo conservando estadísticas de los existentes
+   */
+  async syncConfig(interfaceName: string, configPath: string): Promise<void> {
+    const iface = this.getInterface(interfaceName);
+    const parsed = await this.readConfig(configPath);
+    const wanted = new Map(parsed.peers.map(peer => [peer.publicKey, peer]));
+
+    for (const publicKey of iface.peers.keys()) {
+      if (!wanted.has(publicKey)) iface.peers.delete(publicKey);
+    }
+
+    for (const peer of wanted.values()) {
+      const existing = iface.peers.get(peer.publicKey);
+      if (existing) {
+        existing.allowedIPs = peer.allowedIPs;
+        existing.presharedKey = peer.presharedKey;
+      } else {
+        iface.peers.set(peer.publicKey, this.createPeer(peer));
+      }
+    }
+  }
+
+  async addPeer(interfaceName: string, peer: BackendPeer): Promise<void> {
+    const iface = this.getInterface(interfaceName);
+    const existing = iface.peers.get(peer.publicKey);
+
+    if (existing) {
+      existing.allowedIPs = peer.allowedIPs;
+      existing.presharedKey = peer.presharedKey;
+    } else {
+      iface.peers.set(peer.publicKey, this.createPeer(peer));
+    }
+  }
+
+  async removePeer(interfaceName: string, publicKey: string): Promise<void> {
+    this.getInterface(interfaceName).peers.delete(publicKey);
+  }
+
+  async dumpStats(interfaceName: string): Promise<string> {
+    const iface = this.getInterface(interfaceName);
+    const lines = [[iface.privateKey, iface.publicKey, iface.listenPort, 'off'].join('\t')];
+
+    for (const peer of iface.peers.values()) {
+      this.tick(peer);
+      lines.push([
+        peer.publicKey,
+        peer.presharedKey || '(none)',
+        peer.endpoint || '(none)',
+        peer.allowedIPs,
+        peer.latestHandshake,
+        peer.transferRx,
+        peer.transferTx,
+        'off'
+      ].join('\t'));
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  async enableForwarding(ipv6: boolean = false): Promise<void> {
+    this.forwarding = true;
+    this.forwardingIpv6 = this.forwardingIpv6 || ipv6;
+  }
+
+  async addRoute(interfaceName: string, cidr: string): Promise<void> {
+    const iface = this.getInterface(interfaceName);
+    // Como `ip route replace`: el destino deja de salir por otras interfaces
+    for (const other of this.interfaces.values()) {
+      other.routes.delete(cidr);
+    }
+    iface.routes.add(cidr);
+  }
+
+  getRoutes(interfaceName: string): string[] {
+    return Array.from(this.getInterface(interfaceName).routes);
+  }
+
+  async isForwardingEnabled(family: 'ipv4' | 'ipv6' = 'ipv4'): Promise<boolean> {
+    return family === 'ipv6' ? this.forwardingIpv6 : this.forwarding;
+  }
+
+  /**
+   * Avanzar el estado simulado de un peer hasta el instante actual
+   */
+  private tick(peer: SimulatedPeer): void {
+    const now = Date.now();
+
+    if (now - peer.addedAt < this.options.handshakeDelayMs) {
+      peer.lastTick = now;
+      return;
+    }
+
+    if (!peer.latestHandshake || now - peer.latestHandshake * 1000 >= this.options.rekeyIntervalMs) {
+      peer.latestHandshake = Math.floor(now / 1000);
+      peer.endpoint = peer.endpoint || this.fakeEndpoint();
+    }
+
+    const elapsedSeconds = (now - peer.lastTick) / 1000;
+    const bytes = Math.floor(elapsedSeconds * this.options.bytesPerSecond * Math.random());
+    peer.transferRx += Math.floor(bytes / 4);
+    peer.transferTx += bytes;
+    peer.lastTick = now;
+  }
+
+  private createPeer(peer: BackendPeer): SimulatedPeer {
+    const now = Date.now();
+    return {
+      publicKey: peer.publicKey,
+      presharedKey: peer.presharedKey,
+      allowedIPs: peer.allowedIPs,
+      addedAt: now,
+      latestHandshake: 0,
+      transferRx: 0,
+      transferTx: 0,
+      lastTick: now
+    };
+  }
+
+  private fakeEndpoint(): string {
+    // Rango TEST-NET-3 (RFC 5737)
+    const host = 1 + Math.floor(Math.random() * 254);
+    const port = 1024 + Math.floor(Math.random() * 64000);
+    return `203.0.113.${host}:${port}`;
+  }
+
+  private getInterface(interfaceName: string): SimulatedInterface {
+    const iface = this.interfaces.get(interfaceName);
+    if (!iface) {
+      throw new Error(`Unable to access interface: ${interfaceName} no existe`);
+    }
+    return iface;
+  }
+
+  /**
+   * Parsear secciones [Interface] y [Peer] de un archivo wg-quick
+   */
+  private async readConfig(configPath: string): Promise<{
+    privateKey: string;
+    listenPort: number;
+    peers: BackendPeer[];
+  }> {
+    const content = await fs.readFile(configPath, 'utf8');
+    const result = { privateKey: '', listenPort: 0, peers: [] as BackendPeer[] };
+    let section = '';
+    let current: BackendPeer | null = null;
+
+    for (const rawLine of content.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) continue;
+
+      if (line.startsWith('[')) {
+        section = line.toLowerCase();
+        if (section === '[peer]') {
+          current = { publicKey: '', allowedIPs: '' };
+          result.peers.push(current);
+        }
+        continue;
+      }
+
+      const separator = line.indexOf('=');
+      if (separator === -1) continue;
+      const key = line.substring(0, separator).trim().toLowerCase();
+      const value = line.substring(separator + 1).trim();
+
+      if (section === '[interface]') {
+        if (key === 'privatekey') result.privateKey = value;
+        if (key === 'listenport') result.listenPort = parseInt(value) || 0;
+      } else if (section === '[peer]' && current) {
+        if (key === 'publickey') current.publicKey = value;
+        if (key === 'allowedips') current.allowedIPs = value;
+        if (key === 'presharedkey') current.presharedKey = value;
+      }
+    }
+
+    result.peers = result.peers.filter(peer => peer.publicKey);
+    return result;
+  }
+}
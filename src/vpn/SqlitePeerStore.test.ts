@@ -0,0 +1,83 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WireGuardPeer } from '../types';
+import { SqlitePeerStore } from './SqlitePeerStore';
+
+function makePeer(overrides: Partial<WireGuardPeer> = {}): WireGuardPeer {
+  return {
+    userId: 'alice',
+    deviceId: 'phone',
+    publicKey: 'PUB=',
+    allowedIPs: '10.0.0.2/32',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  };
+}
+
+describe('SqlitePeerStore', () => {
+  let dir: string;
+  let filename: string;
+  let store: SqlitePeerStore;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nodex-sqlite-'));
+    filename = path.join(dir, 'nodex.db');
+    store = new SqlitePeerStore(filename);
+    await store.open();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('conserva peers y estado al reabrir el archivo', async () => {
+    await store.savePeer(makePeer({ expiresAt: new Date('2026-02-01T00:00:00Z'), plan: 'premium' }));
+    await store.setState('ipPool', { allocated: { 'alice:phone': '10.0.0.2' } });
+    await store.close();
+
+    const reopened = new SqlitePeerStore(filename);
+    await reopened.open();
+    try {
+      const [peer] = await reopened.loadPeers();
+      expect(peer).toMatchObject({ userId: 'alice', deviceId: 'phone', publicKey: 'PUB=', plan: 'premium' });
+      expect(peer.createdAt).toEqual(new Date('2026-01-01T00:00:00Z'));
+      expect(peer.expiresAt).toEqual(new Date('2026-02-01T00:00:00Z'));
+      expect(await reopened.getState('ipPool')).toEqual({ allocated: { 'alice:phone': '10.0.0.2' } });
+    } finally {
+      await reopened.close();
+    }
+  });
+
+  it('actualiza el peer del mismo dispositivo y conserva los revocados', async () => {
+    await store.savePeer(makePeer());
+    await store.savePeer(makePeer({ publicKey: 'ROTATED=', revokedAt: new Date('2026-03-01T00:00:00Z'), revokedReason: 'banned' }));
+    await store.savePeer(makePeer({ deviceId: undefined, publicKey: 'OTHER=' }));
+
+    const peers = await store.loadPeers();
+
+    expect(peers).toHaveLength(2);
+    expect(peers.find(peer => peer.deviceId === 'phone')).toMatchObject({
+      publicKey: 'ROTATED=',
+      revokedAt: new Date('2026-03-01T00:00:00Z'),
+      revokedReason: 'banned'
+    });
+    expect(peers.find(peer => peer.deviceId === 'default')?.publicKey).toBe('OTHER=');
+  });
+
+  it('elimina un dispositivo sin tocar los demás', async () => {
+    await store.savePeer(makePeer());
+    await store.savePeer(makePeer({ deviceId: 'laptop', publicKey: 'LAPTOP=' }));
+
+    await store.deletePeer('alice', 'phone');
+
+    expect((await store.loadPeers()).map(peer => peer.deviceId)).toEqual(['laptop']);
+  });
+
+  it('falla si se usa sin abrir', async () => {
+    await expect(new SqlitePeerStore(':memory:').loadPeers()).rejects.toThrow('no está abierto');
+  });
+});
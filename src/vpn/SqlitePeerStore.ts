@@ -0,0 +1,149 @@
+/**
+ * SQLITE PEER STORE - Peers persistidos en SQLite (config.database.url)
+ */
+
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import Database from 'better-sqlite3';
+import { WireGuardPeer } from '../types';
+import { DEFAULT_DEVICE_ID, PeerStore } from './PeerStore';
+
+interface PeerRow {
+  user_id: string;
+  device_id: string;
+  public_key: string;
+  allowed_ips: string;
+  created_at: string | null;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+  revoked_reason: string | null;
+  data: string;
+}
+
+export class SqlitePeerStore implements PeerStore {
+  readonly type = 'sqlite' as const;
+
+  private filename: string;
+  private db: Database.Database | null = null;
+
+  constructor(filename: string) {
+    this.filename = filename;
+  }
+
+  async open(): Promise<void> {
+    if (this.filename !== ':memory:') {
+      await fs.mkdir(path.dirname(this.filename), { recursive: true });
+    }
+
+    this.db = new Database(this.filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS wireguard_peers (
+        user_id TEXT NOT NULL,
+        device_id TEXT NOT NULL,
+        public_key TEXT NOT NULL,
+        allowed_ips TEXT NOT NULL,
+        created_at TEXT,
+        last_seen_at TEXT,
+        revoked_at TEXT,
+        revoked_reason TEXT,
+        data TEXT NOT NULL,
+        PRIMARY KEY (user_id, device_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_wireguard_peers_public_key ON wireguard_peers (public_key);
+      CREATE TABLE IF NOT EXISTS wireguard_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+
+    console.log(`✅ Peer store SQLite abierto: ${this.filename}`);
+  }
+
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  async loadPeers(): Promise<WireGuardPeer[]> {
+    const rows = this.getDb().prepare('SELECT * FROM wireguard_peers').all() as PeerRow[];
+    return rows.map(row => this.fromRow(row));
+  }
+
+  async savePeer(peer: WireGuardPeer): Promise<void> {
+    const deviceId = peer.deviceId || DEFAULT_DEVICE_ID;
+
+    this.getDb().prepare(`
+      INSERT INTO wireguard_peers
+        (user_id, device_id, public_key, allowed_ips, created_at, last_seen_at, revoked_at, revoked_reason, data)
+      VALUES
+        (@user_id, @device_id, @public_key, @allowed_ips, @created_at, @last_seen_at, @revoked_at, @revoked_reason, @data)
+      ON CONFLICT (user_id, device_id) DO UPDATE SET
+        public_key = excluded.public_key,
+        allowed_ips = excluded.allowed_ips,
+        created_at = excluded.created_at,
+        last_seen_at = excluded.last_seen_at,
+        revoked_at = excluded.revoked_at,
+        revoked_reason = excluded.revoked_reason,
+        data = excluded.data
+    `).run({
+      user_id: peer.userId,
+      device_id: deviceId,
+      public_key: peer.publicKey,
+      allowed_ips: peer.allowedIPs,
+      created_at: peer.createdAt?.toISOString() ?? null,
+      last_seen_at: peer.lastSeenAt?.toISOString() ?? null,
+      revoked_at: peer.revokedAt?.toISOString() ?? null,
+      revoked_reason: peer.revokedReason ?? null,
+      data: JSON.stringify({ ...peer, deviceId })
+    });
+  }
+
+  async deletePeer(userId: string, deviceId: string): Promise<void> {
+    this.getDb()
+      .prepare('DELETE FROM wireguard_peers WHERE user_id = ? AND device_id = ?')
+      .run(userId, deviceId);
+  }
+
+  async getState<T>(key: string): Promise<T | undefined> {
+    const row = this.getDb()
+      .prepare('SELECT value FROM wireguard_state WHERE key = ?')
+      .get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) as T : undefined;
+  }
+
+  async setState<T>(key: string, value: T): Promise<void> {
+    this.getDb()
+      .prepare('INSERT INTO wireguard_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value')
+      .run(key, JSON.stringify(value));
+  }
+
+  private getDb(): Database.Database {
+    if (!this.db) {
+      throw new Error('Peer store SQLite no está abierto');
+    }
+    return this.db;
+  }
+
+  /**
+   * Las columnas mandan sobre el JSON para los campos consultables
+   */
+  private fromRow(row: PeerRow): WireGuardPeer {
+    const data = JSON.parse(row.data);
+    return {
+      ...data,
+      userId: row.user_id,
+      deviceId: row.device_id,
+      publicKey: row.public_key,
+      allowedIPs: row.allowed_ips,
+      createdAt: row.created_at ? new Date(row.created_at) : undefined,
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : undefined,
+      revokedAt: row.revoked_at ? new Date(row.revoked_at) : undefined,
+      revokedReason: row.revoked_reason ?? undefined,
+      suspendedAt: data.suspendedAt ? new Date(data.suspendedAt) : undefined,
+      lastHandshake: data.lastHandshake ? new Date(data.lastHandshake) : undefined,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+      activatedAt: data.activatedAt ? new Date(data.activatedAt) : undefined
+    };
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * SYSTEM COMMAND - Ejecución de comandos del sistema para los backends Linux
+ */
+
+import { exec, spawn } from 'child_process';
+import { promisify } from 'util';
+
+export const execAsync = promisify(exec);
+
+export interface RunOptions {
+  /** Datos para stdin */
+  input?: string;
+  /** Milisegundos antes de matar el proceso */
+  timeout?: number;
+}
+
+/**
+ * Ejecutar un comando con sus argumentos como array (sin pasar por una shell)
+ *
+ * @returns stdout
+ */
+export function runCommand(command: string, args: string[], options: RunOptions = {}): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'], timeout: options.timeout });
+    let stdout = '';
+    let stderr = '';
+
+    child.stdout.on('data', chunk => { stdout += chunk; });
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('error', reject);
+    child.on('close', (code, signal) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        const status = signal ? `señal ${signal}` : code;
+        reject(new Error(`${args.slice(0, 3).join(' ')} falló (${status}): ${stderr.trim()}`));
+      }
+    });
+
+    child.stdin.end(options.input ?? '');
+  });
+}
+
+/**
+ * Ejecutar un comando pasando datos por stdin (secretos, scripts de reglas)
+ * sin exponerlos en la línea de comandos
+ */
+export function runWithInput(command: string, args: string[], input: string): Promise<string> {
+  return runCommand(command, args, { input });
+}
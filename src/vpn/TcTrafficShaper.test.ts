@@ -0,0 +1,88 @@
+import { execAsync } from './SystemCommand';
+import { TcTrafficShaper } from './TcTrafficShaper';
+import { isLimited } from './TrafficShaper';
+
+jest.mock('./SystemCommand', () => ({
+  execAsync: jest.fn().mockResolvedValue({ stdout: '', stderr: '' })
+}));
+
+const exec = execAsync as unknown as jest.Mock;
+
+function commands(): string[] {
+  return exec.mock.calls.map(([command]) => command);
+}
+
+describe('TcTrafficShaper', () => {
+  let shaper: TcTrafficShaper;
+
+  beforeEach(() => {
+    exec.mockClear();
+    shaper = new TcTrafficShaper();
+  });
+
+  it('prepara HTB en la interfaz y redirige la subida a la ifb', async () => {
+    await shaper.setup('wg0');
+
+    expect(commands()).toEqual(expect.arrayContaining([
+      'sudo ip link add ifb-wg0 type ifb',
+      'sudo tc qdisc add dev wg0 root handle 1: htb default ffff',
+      'sudo tc qdisc add dev ifb-wg0 root handle 1: htb default ffff',
+      'sudo tc filter add dev wg0 parent ffff: protocol all u32 match u32 0 0 action mirred egress redirect dev ifb-wg0'
+    ]));
+  });
+
+  it('limita la descarga por IP destino y la subida por IP origen', async () => {
+    await shaper.applyLimit('wg0', 'alice:phone', ['10.0.0.2/32', 'fd00::2/128'], { downloadKbps: 10000, uploadKbps: 5000 });
+
+    expect(commands()).toEqual(expect.arrayContaining([
+      'sudo tc class add dev wg0 parent 1:1 classid 1:2 htb rate 10000kbit ceil 10000kbit',
+      'sudo tc filter add dev wg0 parent 1: protocol ip prio 2 u32 match ip dst 10.0.0.2/32 flowid 1:2',
+      'sudo tc filter add dev wg0 parent 1: protocol ipv6 prio 2 u32 match ip6 dst fd00::2/128 flowid 1:2',
+      'sudo tc class add dev ifb-wg0 parent 1:1 classid 1:2 htb rate 5000kbit ceil 5000kbit',
+      'sudo tc filter add dev ifb-wg0 parent 1: protocol ip prio 2 u32 match ip src 10.0.0.2/32 flowid 1:2'
+    ]));
+    expect(shaper.getLimit('alice:phone')).toEqual({ downloadKbps: 10000, uploadKbps: 5000 });
+  });
+
+  it('conserva la clase de un peer al cambiar su límite y asigna otra a cada peer', async () => {
+    await shaper.applyLimit('wg0', 'alice:phone', ['10.0.0.2/32'], { downloadKbps: 1000 });
+    await shaper.applyLimit('wg0', 'bob:phone', ['10.0.0.3/32'], { downloadKbps: 1000 });
+    expect(commands()).toContain('sudo tc filter add dev wg0 parent 1: protocol ip prio 3 u32 match ip dst 10.0.0.3/32 flowid 1:3');
+    exec.mockClear();
+
+    await shaper.applyLimit('wg0', 'alice:phone', ['10.0.0.2/32'], { downloadKbps: 2000 });
+
+    expect(commands()).toContain('sudo tc class del dev wg0 classid 1:2');
+    expect(commands()).toContain('sudo tc class add dev wg0 parent 1:1 classid 1:2 htb rate 2000kbit ceil 2000kbit');
+    expect(commands().some(command => command.includes('classid 1:3'))).toBe(false);
+  });
+
+  it('no crea clase en un sentido sin límite', async () => {
+    await shaper.applyLimit('wg0', 'alice:phone', ['10.0.0.2/32'], { downloadKbps: 1000, uploadKbps: 0 });
+
+    expect(commands().some(command => command.startsWith('sudo tc class add dev ifb-wg0'))).toBe(false);
+  });
+
+  it('un plan sin límite retira las clases del peer', async () => {
+    await shaper.applyLimit('wg0', 'alice:phone', ['10.0.0.2/32'], { downloadKbps: 1000, uploadKbps: 1000 });
+    exec.mockClear();
+
+    await shaper.applyLimit('wg0', 'alice:phone', ['10.0.0.2/32'], { downloadKbps: 0, uploadKbps: 0 });
+
+    expect(commands()).toEqual(expect.arrayContaining([
+      'sudo tc filter del dev wg0 parent 1: protocol ip prio 2',
+      'sudo tc class del dev wg0 classid 1:2',
+      'sudo tc class del dev ifb-wg0 classid 1:2'
+    ]));
+    expect(commands().some(command => command.includes(' add '))).toBe(false);
+    expect(shaper.getLimit('alice:phone')).toBeUndefined();
+  });
+});
+
+describe('isLimited', () => {
+  it('sólo con algún sentido mayor que 0', () => {
+    expect(isLimited(undefined)).toBe(false);
+    expect(isLimited({ downloadKbps: 0, uploadKbps: 0 })).toBe(false);
+    expect(isLimited({ uploadKbps: 512 })).toBe(true);
+  });
+});
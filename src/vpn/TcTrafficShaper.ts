@@ -0,0 +1,143 @@
+/**
+ * TC TRAFFIC SHAPER - HTB por peer con tc e ifb
+ *
+ * - Descarga (servidor -> cliente): qdisc HTB en la salida de wg0, filtrando por IP destino.
+ * - Subida (cliente -> servidor): el tráfico entrante de wg0 se redirige a una
+ *   interfaz ifb con su propio HTB, filtrando por IP origen.
+ *
+ * Cada peer tiene una clase HTB 1:<id> en ambas interfaces; sus filtros usan la
+ * prioridad <id> para poder borrarlos todos juntos.
+ */
+
+import { BandwidthLimit } from '../types';
+import { TrafficShaper, isLimited } from './TrafficShaper';
+import { ipFamily } from './IpAddress';
+import { execAsync } from './SystemCommand';
+
+// Tope de la clase raíz y de la clase por defecto (tráfico sin límite)
+const LINK_RATE = '10gbit';
+const DEFAULT_CLASS = 0xffff;
+const FIRST_CLASS = 2;
+
+export class TcTrafficShaper implements TrafficShaper {
+  readonly name = 'tc' as const;
+
+  private limits: Map<string, BandwidthLimit> = new Map();
+  private classIds: Map<string, number> = new Map();
+  private nextClassId: number = FIRST_CLASS;
+
+  async setup(interfaceName: string): Promise<void> {
+    await this.teardown(interfaceName);
+
+    const ifb = this.ifbName(interfaceName);
+    await execAsync('sudo modprobe ifb numifbs=0').catch(() => {});
+    await execAsync(`sudo ip link add ${ifb} type ifb`);
+    await execAsync(`sudo ip link set ${ifb} up`);
+
+    for (const device of [interfaceName, ifb]) {
+      await execAsync(`sudo tc qdisc add dev ${device} root handle 1: htb default ${DEFAULT_CLASS.toString(16)}`);
+      await execAsync(`sudo tc class add dev ${device} parent 1: classid 1:1 htb rate ${LINK_RATE}`);
+      await execAsync(`sudo tc class add dev ${device} parent 1:1 classid 1:${DEFAULT_CLASS.toString(16)} htb rate ${LINK_RATE}`);
+    }
+
+    // Redirigir lo que entra por wg0 (subida de los clientes) a la ifb
+    await execAsync(`sudo tc qdisc add dev ${interfaceName} handle ffff: ingress`);
+    await execAsync(
+      `sudo tc filter add dev ${interfaceName} parent ffff: protocol all u32 match u32 0 0 action mirred egress redirect dev ${ifb}`
+    );
+  }
+
+  async applyLimit(interfaceName: string, key: string, addresses: string[], limit: BandwidthLimit): Promise<void> {
+    if (!isLimited(limit)) {
+      await this.removeLimit(interfaceName, key);
+      return;
+    }
+
+    const classId = this.classIds.get(key) ?? this.allocateClassId();
+    this.classIds.set(key, classId);
+
+    await this.shapeDirection(interfaceName, classId, addresses, 'dst', limit.downloadKbps);
+    await this.shapeDirection(this.ifbName(interfaceName), classId, addresses, 'src', limit.uploadKbps);
+
+    this.limits.set(key, { ...limit });
+  }
+
+  async removeLimit(interfaceName: string, key: string): Promise<void> {
+    const classId = this.classIds.get(key);
+    if (classId === undefined) return;
+
+    for (const device of [interfaceName, this.ifbName(interfaceName)]) {
+      await this.removeClass(device, classId);
+    }
+
+    this.classIds.delete(key);
+    this.limits.delete(key);
+  }
+
+  async teardown(interfaceName: string): Promise<void> {
+    await execAsync(`sudo tc qdisc del dev ${interfaceName} root`).catch(() => {});
+    await execAsync(`sudo tc qdisc del dev ${interfaceName} ingress`).catch(() => {});
+    await execAsync(`sudo ip link del ${this.ifbName(interfaceName)}`).catch(() => {});
+
+    this.limits.clear();
+    this.classIds.clear();
+    this.nextClassId = FIRST_CLASS;
+  }
+
+  getLimit(key: string): BandwidthLimit | undefined {
+    return this.limits.get(key);
+  }
+
+  /**
+   * Crear/actualizar la clase de un peer en un sentido (o quitarla si no hay límite)
+   */
+  private async shapeDirection(
+    device: string,
+    classId: number,
+    addresses: string[],
+    match: 'src' | 'dst',
+    rateKbps?: number
+  ): Promise<void> {
+    await this.removeClass(device, classId);
+    if (!rateKbps || rateKbps <= 0) return;
+
+    const flowId = `1:${classId.toString(16)}`;
+    await execAsync(`sudo tc class add dev ${device} parent 1:1 classid ${flowId} htb rate ${rateKbps}kbit ceil ${rateKbps}kbit`);
+
+    for (const address of addresses) {
+      const ipv6 = ipFamily(address) === 6;
+      await execAsync(
+        `sudo tc filter add dev ${device} parent 1: protocol ${ipv6 ? 'ipv6' : 'ip'} prio ${classId} ` +
+        `u32 match ${ipv6 ? 'ip6' : 'ip'} ${match} ${address} flowid ${flowId}`
+      );
+    }
+  }
+
+  private async removeClass(device: string, classId: number): Promise<void> {
+    for (const protocol of ['ip', 'ipv6']) {
+      await execAsync(`sudo tc filter del dev ${device} parent 1: protocol ${protocol} prio ${classId}`).catch(() => {});
+    }
+    await execAsync(`sudo tc class del dev ${device} classid 1:${classId.toString(16)}`).catch(() => {});
+  }
+
+  private allocateClassId(): number {
+    const used = new Set(this.classIds.values());
+    for (let id = this.nextClassId; id < DEFAULT_CLASS; id++) {
+      if (!used.has(id)) {
+        this.nextClassId = id + 1;
+        return id;
+      }
+    }
+    for (let id = FIRST_CLASS; id < DEFAULT_CLASS; id++) {
+      if (!used.has(id)) return id;
+    }
+    throw new Error('No quedan clases HTB libres para limitar peers');
+  }
+
+  /**
+   * Nombre de la ifb asociada (máximo 15 caracteres)
+   */
+  private ifbName(interfaceName: string): string {
+    return `ifb-${interfaceName}`.substring(0, 15);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * TRAFFIC SHAPER - Límites de velocidad por peer
+ *
+ * Los límites se identifican por la clave usuario:dispositivo del peer y se
+ * aplican sobre sus IPs del túnel: descarga en la salida de la interfaz
+ * WireGuard y subida en su tráfico entrante.
+ */
+
+import { BandwidthLimit } from '../types';
+import { TcTrafficShaper } from './TcTrafficShaper';
+import { SimulatedTrafficShaper } from './SimulatedTrafficShaper';
+
+export type TrafficShaperType = 'tc' | 'simulation';
+
+export interface TrafficShaper {
+  readonly name: TrafficShaperType;
+
+  /**
+   * Preparar la interfaz (descarta los límites aplicados anteriormente)
+   */
+  setup(interfaceName: string): Promise<void>;
+
+  /**
+   * Aplicar o reemplazar el límite de un peer
+   *
+   * @param addresses IPs del túnel en CIDR (10.0.0.2/32, fd00::2/128)
+   */
+  applyLimit(interfaceName: string, key: string, addresses: string[], limit: BandwidthLimit): Promise<void>;
+
+  removeLimit(interfaceName: string, key: string): Promise<void>;
+
+  teardown(interfaceName: string): Promise<void>;
+
+  /**
+   * Límite aplicado actualmente a un peer
+   */
+  getLimit(key: string): BandwidthLimit | undefined;
+}
+
+/**
+ * ¿Limita el plan alguna dirección?
+ */
+export function isLimited(limit?: BandwidthLimit): limit is BandwidthLimit {
+  return !!limit && ((limit.downloadKbps || 0) > 0 || (limit.uploadKbps || 0) > 0);
+}
+
+/**
+ * Crear shaper según configuración
+ */
+export function createTrafficShaper(type: TrafficShaperType): TrafficShaper {
+  switch (type) {
+    case 'tc':
+      return new TcTrafficShaper();
+    case 'simulation':
+      return new SimulatedTrafficShaper();
+    default:
+      throw new Error(`Shaper de tráfico desconocido: ${type}`);
+  }
+}
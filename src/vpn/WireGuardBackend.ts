@@ -0,0 +1,64 @@
+/**
+ * WIREGUARD BACKEND - Abstracción del sistema operativo
+ *
+ * WireGuardServer no ejecuta comandos directamente: delega en un backend
+ * que puede ser el kernel real (wg/ip/sysctl) o una simulación en memoria
+ * para máquinas de desarrollo y CI sin root ni módulo WireGuard.
+ */
+
+import { LinuxWireGuardBackend } from './LinuxWireGuardBackend';
+import { SimulatedWireGuardBackend } from './SimulatedWireGuardBackend';
+
+// Peer tal como lo ve la interfaz WireGuard
+export interface BackendPeer {
+  publicKey: string;
+  presharedKey?: string;
+  allowedIPs: string;
+}
+
+export type WireGuardBackendType = 'linux' | 'simulation';
+
+export interface WireGuardBackend {
+  readonly name: WireGuardBackendType;
+  readonly simulated: boolean;
+
+  checkInstallation(): Promise<void>;
+
+  // Interfaz
+  interfaceUp(interfaceName: string, configPath: string): Promise<void>;
+  interfaceDown(interfaceName: string, configPath: string): Promise<void>;
+  interfaceExists(interfaceName: string): Promise<boolean>;
+  syncConfig(interfaceName: string, configPath: string): Promise<void>;
+
+  // Peers
+  addPeer(interfaceName: string, peer: BackendPeer): Promise<void>;
+  removePeer(interfaceName: string, publicKey: string): Promise<void>;
+
+  /**
+   * Estadísticas en el formato de `wg show <interfaz> dump`
+   */
+  dumpStats(interfaceName: string): Promise<string>;
+
+  // Enrutamiento (las reglas de firewall las gestiona FirewallManager)
+  enableForwarding(ipv6?: boolean): Promise<void>;
+  isForwardingEnabled(family: 'ipv4' | 'ipv6'): Promise<boolean>;
+
+  /**
+   * Enrutar un destino por la interfaz (reemplaza una ruta existente al mismo destino)
+   */
+  addRoute(interfaceName: string, cidr: string): Promise<void>;
+}
+
+/**
+ * Crear backend según configuración
+ */
+export function createWireGuardBackend(type: WireGuardBackendType): WireGuardBackend {
+  switch (type) {
+    case 'linux':
+      return new LinuxWireGuardBackend();
+    case 'simulation':
+      return new SimulatedWireGuardBackend();
+    default:
+      throw new Error(`Backend WireGuard desconocido: ${type}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { parseWireGuardDump } from './WireGuardDump';
+
+const INTERFACE_LINE = ['PRIVATE=', 'SERVERPUB=', '51820', 'off'].join('\t');
+
+describe('parseWireGuardDump', () => {
+  it('parsea la interfaz sin conservar su private key', () => {
+    const dump = parseWireGuardDump(INTERFACE_LINE + '\n');
+
+    expect(dump.interface).toEqual({ publicKey: 'SERVERPUB=', listenPort: 51820, fwmark: undefined });
+    expect(JSON.stringify(dump)).not.toContain('PRIVATE=');
+    expect(dump.peers).toEqual([]);
+  });
+
+  it('parsea los peers con sus contadores', () => {
+    const output = [
+      INTERFACE_LINE,
+      ['PEER1=', 'PSK=', '203.0.113.5:41000', '10.0.0.2/32,fd00::2/128', '1700000000', '1024', '2048', '25'].join('\t'),
+      ['PEER2=', '(none)', '(none)', '(none)', '0', '0', '0', 'off'].join('\t')
+    ].join('\n');
+
+    const { peers } = parseWireGuardDump(output);
+
+    expect(peers).toEqual([
+      {
+        publicKey: 'PEER1=',
+        hasPresharedKey: true,
+        endpoint: '203.0.113.5:41000',
+        allowedIPs: ['10.0.0.2/32', 'fd00::2/128'],
+        latestHandshake: 1700000000,
+        transferRx: 1024,
+        transferTx: 2048,
+        persistentKeepalive: 25
+      },
+      {
+        publicKey: 'PEER2=',
+        hasPresharedKey: false,
+        endpoint: undefined,
+        allowedIPs: [],
+        latestHandshake: 0,
+        transferRx: 0,
+        transferTx: 0,
+        persistentKeepalive: undefined
+      }
+    ]);
+  });
+
+  it('rechaza líneas con un número de campos inesperado', () => {
+    expect(() => parseWireGuardDump('a\tb\tc')).toThrow('Línea de wg dump inesperada (3 campos)');
+  });
+
+  it('ignora líneas vacías', () => {
+    expect(parseWireGuardDump('\n\n')).toEqual({ peers: [] });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * WIREGUARD DUMP - Parser de `wg show <interfaz> dump`
+ *
+ * Formato estable para máquinas: una línea por interfaz/peer, campos separados
+ * por tabulador, bytes exactos y handshake como epoch en segundos.
+ */
+
+// Línea de la interfaz: private-key public-key listen-port fwmark
+export interface DumpInterface {
+  publicKey: string;
+  listenPort: number;
+  fwmark?: number;
+}
+
+// Línea de peer: public-key preshared-key endpoint allowed-ips latest-handshake transfer-rx transfer-tx persistent-keepalive
+export interface DumpPeer {
+  publicKey: string;
+  hasPresharedKey: boolean;
+  endpoint?: string;
+  allowedIPs: string[];
+  /** Epoch en segundos del último handshake (0 = nunca) */
+  latestHandshake: number;
+  transferRx: number;
+  transferTx: number;
+  /** Segundos; ausente si está desactivado */
+  persistentKeepalive?: number;
+}
+
+export interface WireGuardDump {
+  interface?: DumpInterface;
+  peers: DumpPeer[];
+}
+
+const INTERFACE_FIELDS = 4;
+const PEER_FIELDS = 8;
+
+/**
+ * Parsear la salida completa de `wg show <interfaz> dump`
+ *
+ * La private key de la interfaz se descarta para que no circule por el proceso.
+ */
+export function parseWireGuardDump(output: string): WireGuardDump {
+  const result: WireGuardDump = { peers: [] };
+
+  for (const line of output.split('\n')) {
+    if (!line.trim()) continue;
+    const fields = line.split('\t');
+
+    if (fields.length === INTERFACE_FIELDS) {
+      const [, publicKey, listenPort, fwmark] = fields;
+      result.interface = {
+        publicKey: noneToUndefined(publicKey) || '',
+        listenPort: toNumber(listenPort),
+        fwmark: fwmark === 'off' ? undefined : toNumber(fwmark)
+      };
+    } else if (fields.length === PEER_FIELDS) {
+      const [publicKey, presharedKey, endpoint, allowedIPs, latestHandshake, transferRx, transferTx, keepalive] = fields;
+      result.peers.push({
+        publicKey,
+        hasPresharedKey: !!noneToUndefined(presharedKey),
+        endpoint: noneToUndefined(endpoint),
+        allowedIPs: noneToUndefined(allowedIPs)?.split(',').map(ip => ip.trim()) || [],
+        latestHandshake: toNumber(latestHandshake),
+        transferRx: toNumber(transferRx),
+        transferTx: toNumber(transferTx),
+        persistentKeepalive: keepalive === 'off' ? undefined : toNumber(keepalive) || undefined
+      });
+    } else {
+      throw new Error(`Línea de wg dump inesperada (${fields.length} campos)`);
+    }
+  }
+
+  return result;
+}
+
+function noneToUndefined(value: string): string | undefined {
+  return !value || value === '(none)' ? undefined : value;
+}
+
+function toNumber(value: string): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
@@ -0,0 +1,211 @@
+/**
+ * WIREGUARD INSTANCE - Varias instancias WireGuard en un mismo proceso
+ *
+ * Cada instancia tiene su interfaz, puerto, subred y key (p. ej. un pool
+ * "standard", otro "streaming" y otro "business"). La principal se configura
+ * con las variables de siempre y conserva sus rutas; las adicionales guardan
+ * keys y peers aparte y usan cadenas de firewall con su id.
+ */
+
+import { ServerInfo, WireGuardInstanceConfig } from '../types';
+import { formatIp, lastAddress, parseCidr, parseIp, ParsedCidr } from './IpAddress';
+import { PeerStore } from './PeerStore';
+import { WireGuardServer } from './WireGuardServer';
+
+export interface WireGuardInstance {
+  config: WireGuardInstanceConfig;
+  server: WireGuardServer;
+  /** Peers y estado de la instancia (el de la principal guarda también las cuotas) */
+  peerStore: PeerStore;
+  /** La principal usa los archivos y cadenas sin sufijo (wg0.conf, NODEX-*) */
+  primary: boolean;
+}
+
+export class InvalidInstanceConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidInstanceConfigError';
+  }
+}
+
+// El id da nombre a las cadenas NODEX-<ID>-POSTROUTING (máximo 28 caracteres)
+const INSTANCE_ID = /^[a-z0-9][a-z0-9-]{0,9}$/;
+// <interfaz>-r y su ifb (ifb-<interfaz>-r) deben caber en 15 caracteres
+const INTERFACE_NAME = /^[a-zA-Z0-9_.-]{1,9}$/;
+
+/**
+ * Validar las instancias adicionales (WG_INSTANCES) junto a la principal
+ *
+ * @returns Todas las instancias, la principal primero
+ */
+export function parseInstanceConfigs(primary: WireGuardInstanceConfig, extra: unknown): WireGuardInstanceConfig[] {
+  if (!Array.isArray(extra)) {
+    throw new InvalidInstanceConfigError('WG_INSTANCES debe ser una lista de instancias');
+  }
+
+  const instances = [primary, ...extra.map((input, index) => parseInstanceConfig(input, index))];
+  instances.forEach(validateNames);
+  validateCollisions(instances);
+  return instances;
+}
+
+/**
+ * Entrada de la lista de servidores para una instancia
+ */
+export async function describeInstance(instance: WireGuardInstance): Promise<ServerInfo> {
+  const serverConfig = instance.server.getServerConfig();
+  const stats = await instance.server.getConnectionStats();
+
+  return {
+    id: instance.config.id,
+    name: instance.config.name,
+    location: instance.config.location,
+    flag: instance.config.flag,
+    address: serverConfig.address,
+    port: serverConfig.port,
+    ping: 25,
+    load: stats.serverLoad,
+    available: instance.server.isRunning(),
+    protocol: 'wireguard',
+    publicKey: serverConfig.publicKey,
+    activeConnections: stats.activePeers
+  };
+}
+
+function parseInstanceConfig(input: unknown, index: number): WireGuardInstanceConfig {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new InvalidInstanceConfigError(`WG_INSTANCES[${index}] debe ser un objeto`);
+  }
+
+  const raw = input as Record<string, unknown>;
+  const where = typeof raw.id === 'string' ? `instancia ${raw.id}` : `WG_INSTANCES[${index}]`;
+
+  for (const field of ['id', 'interface', 'clientSubnet'] as const) {
+    if (typeof raw[field] !== 'string') {
+      throw new InvalidInstanceConfigError(`${where}: ${field} es obligatorio`);
+    }
+  }
+
+  const clientSubnet = parseFamilyCidr(raw.clientSubnet as string, 4, where);
+  const serverVpnIp = typeof raw.serverVpnIp === 'string'
+    ? raw.serverVpnIp
+    : formatIp(clientSubnet.network + 1n, 4);
+  let value: bigint;
+  try {
+    ({ value } = parseIp(serverVpnIp));
+  } catch {
+    throw new InvalidInstanceConfigError(`${where}: serverVpnIp inválida ${serverVpnIp}`);
+  }
+  if (value <= clientSubnet.network || value >= lastAddress(clientSubnet)) {
+    throw new InvalidInstanceConfigError(`${where}: serverVpnIp ${serverVpnIp} no pertenece a ${raw.clientSubnet}`);
+  }
+
+  if (raw.ipv6Prefix !== undefined) {
+    parseFamilyCidr(String(raw.ipv6Prefix), 6, where);
+  }
+
+  if (raw.portForwards !== undefined &&
+      (!Array.isArray(raw.portForwards) || raw.portForwards.some(entry => typeof entry !== 'string'))) {
+    throw new InvalidInstanceConfigError(`${where}: portForwards debe ser una lista de strings`);
+  }
+
+  return {
+    id: raw.id as string,
+    name: typeof raw.name === 'string' ? raw.name : raw.id as string,
+    interface: raw.interface as string,
+    port: parsePort(raw.port, 'port', where),
+    clientSubnet: raw.clientSubnet as string,
+    serverVpnIp,
+    location: typeof raw.location === 'string' ? raw.location : '',
+    flag: typeof raw.flag === 'string' ? raw.flag : '',
+    keyRotationPort: raw.keyRotationPort !== undefined ? parsePort(raw.keyRotationPort, 'keyRotationPort', where) : undefined,
+    ipv6Prefix: raw.ipv6Prefix as string | undefined,
+    ipv6ServerIp: typeof raw.ipv6ServerIp === 'string' ? raw.ipv6ServerIp : undefined,
+    portForwards: (raw.portForwards as string[] | undefined) || [],
+    bandwidthPlans: raw.bandwidthPlans as WireGuardInstanceConfig['bandwidthPlans'],
+    defaultPlan: typeof raw.defaultPlan === 'string' ? raw.defaultPlan : undefined
+  };
+}
+
+function validateNames(instance: WireGuardInstanceConfig): void {
+  if (!INSTANCE_ID.test(instance.id)) {
+    throw new InvalidInstanceConfigError(
+      `Id de instancia inválido: ${instance.id} (minúsculas, dígitos y guiones, máximo 10 caracteres)`
+    );
+  }
+  if (!INTERFACE_NAME.test(instance.interface)) {
+    throw new InvalidInstanceConfigError(
+      `Interfaz inválida en la instancia ${instance.id}: ${instance.interface} (máximo 9 caracteres)`
+    );
+  }
+}
+
+/**
+ * Ids, interfaces, puertos (incluidos los de rotación de key) y subredes no pueden repetirse
+ */
+function validateCollisions(instances: WireGuardInstanceConfig[]): void {
+  const ids = new Set<string>();
+  const interfaces = new Map<string, string>();
+  const ports = new Map<number, string>();
+  const subnets: Array<{ id: string; cidr: ParsedCidr }> = [];
+
+  for (const instance of instances) {
+    if (ids.has(instance.id)) {
+      throw new InvalidInstanceConfigError(`Instancia duplicada: ${instance.id}`);
+    }
+    ids.add(instance.id);
+
+    for (const name of [instance.interface, `${instance.interface}-r`]) {
+      const owner = interfaces.get(name);
+      if (owner) {
+        throw new InvalidInstanceConfigError(`La interfaz ${name} de ${instance.id} ya la usa ${owner}`);
+      }
+      interfaces.set(name, instance.id);
+    }
+
+    for (const port of [instance.port, instance.keyRotationPort || instance.port + 1]) {
+      const owner = ports.get(port);
+      if (owner) {
+        throw new InvalidInstanceConfigError(
+          `El puerto ${port} de ${instance.id} ya lo usa ${owner} (los de rotación de key son puerto + 1 salvo keyRotationPort)`
+        );
+      }
+      ports.set(port, instance.id);
+    }
+
+    for (const subnet of [instance.clientSubnet, instance.ipv6Prefix]) {
+      if (!subnet) continue;
+      const cidr = parseCidr(subnet);
+      const overlapping = subnets.find(other => cidrsOverlap(other.cidr, cidr));
+      if (overlapping) {
+        throw new InvalidInstanceConfigError(`La subred ${subnet} de ${instance.id} se solapa con la de ${overlapping.id}`);
+      }
+      subnets.push({ id: instance.id, cidr });
+    }
+  }
+}
+
+function cidrsOverlap(a: ParsedCidr, b: ParsedCidr): boolean {
+  return a.family === b.family && a.network <= lastAddress(b) && b.network <= lastAddress(a);
+}
+
+function parseFamilyCidr(cidr: string, family: 4 | 6, where: string): ParsedCidr {
+  let parsed: ParsedCidr;
+  try {
+    parsed = parseCidr(cidr);
+  } catch {
+    throw new InvalidInstanceConfigError(`${where}: subred inválida ${cidr}`);
+  }
+  if (parsed.family !== family) {
+    throw new InvalidInstanceConfigError(`${where}: ${cidr} debe ser una subred IPv${family}`);
+  }
+  return parsed;
+}
+
+function parsePort(value: unknown, field: string, where: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new InvalidInstanceConfigError(`${where}: ${field} debe ser un puerto entre 1 y 65535`);
+  }
+  return port;
+}
@@ -0,0 +1,101 @@
+/**
+ * WIREGUARD KEYS - Keys Curve25519 con el módulo crypto de Node
+ *
+ * Equivalente a `wg genkey`, `wg pubkey` y `wg genpsk` sin lanzar procesos
+ * ni pasar material secreto por la línea de comandos.
+ */
+
+import * as crypto from 'crypto';
+
+const KEY_LENGTH = 32;
+
+// Prefijos DER de las keys X25519 (PKCS#8 privada y SPKI pública)
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+const X25519_SPKI_PREFIX = Buffer.from('302a300506032b656e032100', 'hex');
+
+export interface WireGuardKeyPair {
+  privateKey: string;
+  publicKey: string;
+}
+
+/**
+ * Generar private key (clamped como `wg genkey`)
+ */
+export function generatePrivateKey(): string {
+  const key = crypto.randomBytes(KEY_LENGTH);
+  key[0] &= 248;
+  key[31] &= 127;
+  key[31] |= 64;
+  return key.toString('base64');
+}
+
+/**
+ * Derivar la public key de una private key
+ */
+export function derivePublicKey(privateKey: string): string {
+  assertValidKey(privateKey, 'privateKey');
+
+  const keyObject = crypto.createPrivateKey({
+    key: Buffer.concat([X25519_PKCS8_PREFIX, Buffer.from(privateKey, 'base64')]),
+    format: 'der',
+    type: 'pkcs8'
+  });
+  const der = crypto.createPublicKey(keyObject).export({ format: 'der', type: 'spki' });
+
+  return der.subarray(der.length - KEY_LENGTH).toString('base64');
+}
+
+export function generateKeyPair(): WireGuardKeyPair {
+  const privateKey = generatePrivateKey();
+  return { privateKey, publicKey: derivePublicKey(privateKey) };
+}
+
+/**
+ * Generar preshared key de 256 bits (como `wg genpsk`)
+ */
+export function generatePresharedKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64');
+}
+
+/**
+ * Verificar que sea una key WireGuard: 32 bytes en base64 canónico
+ */
+export function isValidKey(key: string): boolean {
+  if (typeof key !== 'string' || key.length !== 44) {
+    return false;
+  }
+
+  const decoded = Buffer.from(key, 'base64');
+  return decoded.length === KEY_LENGTH && decoded.toString('base64') === key;
+}
+
+export function assertValidKey(key: string, name: string = 'key'): void {
+  if (!isValidKey(key)) {
+    throw new Error(`${name} debe ser una key Curve25519 de 32 bytes en base64`);
+  }
+}
+
+/**
+ * Verificar que una public key sea utilizable por X25519
+ */
+export function isValidPublicKey(publicKey: string): boolean {
+  if (!isValidKey(publicKey)) {
+    return false;
+  }
+
+  const decoded = Buffer.from(publicKey, 'base64');
+  if (decoded.every(byte => byte === 0)) {
+    return false;
+  }
+
+  try {
+    crypto.createPublicKey({
+      key: Buffer.concat([X25519_SPKI_PREFIX, decoded]),
+      format: 'der',
+      type: 'spki'
+    });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
@@ -0,0 +1,189 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFilePeerStore } from './JsonFilePeerStore';
+import { SimulatedWireGuardBackend } from './SimulatedWireGuardBackend';
+import { generateKeyPair } from './WireGuardKeys';
+import {
+  DeviceLimitError,
+  InvalidClientKeyError,
+  KeyRotationInProgressError,
+  WireGuardServer,
+  WireGuardServerOptions
+} from './WireGuardServer';
+
+describe('WireGuardServer', () => {
+  let dir: string;
+  let backend: SimulatedWireGuardBackend;
+  let server: WireGuardServer;
+
+  async function startServer(options: WireGuardServerOptions = {}): Promise<WireGuardServer> {
+    backend = new SimulatedWireGuardBackend();
+    const instance = new WireGuardServer('vpn.example.com', 51820, {
+      backend,
+      configDir: dir,
+      ...options
+    });
+    await instance.start();
+    return instance;
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'nodex-wg-'));
+    server = await startServer();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('generateClientConfig', () => {
+    it('devuelve la configuración existente sin PrivateKey al repetir la petición', async () => {
+      const issued = await server.generateClientConfig('alice', { deviceId: 'phone' });
+      const repeated = await server.generateClientConfig('alice', { deviceId: 'phone' });
+
+      expect(issued.created).toBe(true);
+      expect(issued.privateKeyRequired).toBe(false);
+      expect(issued.config).toContain('PrivateKey = ');
+
+      expect(repeated.created).toBe(false);
+      expect(repeated.rotated).toBe(false);
+      expect(repeated.privateKeyRequired).toBe(true);
+      expect(repeated.config).not.toContain('PrivateKey');
+      expect(repeated.peer.publicKey).toBe(issued.peer.publicKey);
+      expect(repeated.peer.presharedKey).toBe(issued.peer.presharedKey);
+    });
+
+    it('sólo rota las keys con rotate, conservando la IP', async () => {
+      const issued = await server.generateClientConfig('alice', { deviceId: 'phone' });
+      const rotated = await server.generateClientConfig('alice', { deviceId: 'phone', rotate: true });
+
+      expect(rotated.rotated).toBe(true);
+      expect(rotated.created).toBe(false);
+      expect(rotated.privateKeyRequired).toBe(false);
+      expect(rotated.config).toContain('PrivateKey = ');
+      expect(rotated.peer.publicKey).not.toBe(issued.peer.publicKey);
+      expect(rotated.peer.allowedIPs).toBe(issued.peer.allowedIPs);
+      expect(server.getUserPeers('alice')).toHaveLength(1);
+    });
+
+    it('asigna una IP distinta a cada dispositivo y respeta el límite por usuario', async () => {
+      await server.stop();
+      server = await startServer({ maxDevicesPerUser: 2 });
+
+      const phone = await server.generateClientConfig('alice', { deviceId: 'phone' });
+      const laptop = await server.generateClientConfig('alice', { deviceId: 'laptop' });
+
+      expect(phone.peer.allowedIPs).not.toBe(laptop.peer.allowedIPs);
+      await expect(server.generateClientConfig('alice', { deviceId: 'tablet' })).rejects.toThrow(DeviceLimitError);
+      // Rotar no agrega dispositivos
+      await expect(server.generateClientConfig('alice', { deviceId: 'phone', rotate: true })).resolves.toBeDefined();
+    });
+
+    it('con la public key de la app devuelve la plantilla sin PrivateKey', async () => {
+      const { publicKey } = generateKeyPair();
+
+      const issued = await server.generateClientConfig('alice', { deviceId: 'phone', publicKey });
+
+      expect(issued.peer.publicKey).toBe(publicKey);
+      expect(issued.privateKeyRequired).toBe(true);
+      expect(issued.config).not.toContain('PrivateKey');
+      expect(issued.document.interface.privateKey).toBeUndefined();
+    });
+
+    it('una public key distinta de la registrada rota el dispositivo', async () => {
+      const first = generateKeyPair().publicKey;
+      const second = generateKeyPair().publicKey;
+      await server.generateClientConfig('alice', { deviceId: 'phone', publicKey: first });
+
+      const same = await server.generateClientConfig('alice', { deviceId: 'phone', publicKey: first });
+      const changed = await server.generateClientConfig('alice', { deviceId: 'phone', publicKey: second });
+
+      expect(same.rotated).toBe(false);
+      expect(changed.rotated).toBe(true);
+      expect(changed.peer.publicKey).toBe(second);
+    });
+
+    it('rechaza public keys inválidas o de otro dispositivo', async () => {
+      const { publicKey } = generateKeyPair();
+      await server.generateClientConfig('alice', { deviceId: 'phone', publicKey });
+
+      await expect(server.generateClientConfig('alice', { deviceId: 'laptop', publicKey: 'no-es-una-key' }))
+        .rejects.toThrow(InvalidClientKeyError);
+      await expect(server.generateClientConfig('bob', { deviceId: 'phone', publicKey }))
+        .rejects.toThrow('ya registrada');
+      expect(server.getUserPeers('bob')).toHaveLength(0);
+    });
+
+    it('no guarda la private key generada por el servidor', async () => {
+      const issued = await server.generateClientConfig('alice', { deviceId: 'phone' });
+      await server.stop();
+
+      const store = new JsonFilePeerStore(path.join(dir, 'peers.json'));
+      await store.open();
+      const [stored] = await store.loadPeers();
+      await store.close();
+
+      expect(issued.document.interface.privateKey).toBeDefined();
+      expect(stored.publicKey).toBe(issued.peer.publicKey);
+      expect(stored.privateKey).toBeUndefined();
+      expect(await fs.readFile(path.join(dir, 'peers.json'), 'utf8')).not.toContain(issued.document.interface.privateKey!);
+
+      server = await startServer();
+    });
+  });
+
+  describe('rotateServerKey', () => {
+    it('levanta la identidad nueva en la interfaz alternativa y mantiene la anterior', async () => {
+      const issued = await server.generateClientConfig('alice', { deviceId: 'phone' });
+      const oldKey = server.getServerConfig().publicKey;
+
+      const status = await server.rotateServerKey();
+
+      expect(status).toMatchObject({ active: true, previousPublicKey: oldKey, pendingPeers: 1 });
+      expect(status.currentPublicKey).not.toBe(oldKey);
+      expect(server.getServerConfig().port).toBe(51821);
+      expect(await backend.interfaceExists('wg0')).toBe(true);
+      expect(await backend.interfaceExists('wg0-r')).toBe(true);
+      expect(server.isConfigStale(issued.peer)).toBe(true);
+      await expect(server.rotateServerKey()).rejects.toThrow(KeyRotationInProgressError);
+    });
+
+    it('migra a la key nueva el dispositivo que vuelve a pedir su configuración', async () => {
+      await server.generateClientConfig('alice', { deviceId: 'phone' });
+      const { currentPublicKey } = await server.rotateServerKey();
+
+      const migrated = await server.generateClientConfig('alice', { deviceId: 'phone' });
+
+      expect(migrated.config).toContain(`PublicKey = ${currentPublicKey}`);
+      expect(migrated.config).toContain('Endpoint = vpn.example.com:51821');
+      expect(server.isConfigStale(migrated.peer)).toBe(false);
+      expect(server.getKeyRotationStatus().pendingPeers).toBe(0);
+    });
+
+    it('conserva la rotación en curso tras reiniciar', async () => {
+      const { previousPublicKey, retireAt } = await server.rotateServerKey();
+      await server.stop();
+
+      server = await startServer();
+
+      expect(server.getKeyRotationStatus()).toMatchObject({ active: true, previousPublicKey, retireAt });
+      expect(await backend.interfaceExists('wg0')).toBe(true);
+    });
+
+    it('retira la key anterior al vencer el periodo de gracia', async () => {
+      await server.generateClientConfig('alice', { deviceId: 'phone' });
+      const completed = new Promise(resolve => server.once('key-rotation-completed', resolve));
+
+      await server.rotateServerKey(0);
+
+      expect(await completed).toMatchObject({ active: false, pendingPeers: 1 });
+      expect(await backend.interfaceExists('wg0')).toBe(false);
+      expect(await backend.interfaceExists('wg0-r')).toBe(true);
+      expect(server.getServerConfig().keyRotation).toBeUndefined();
+    });
+  });
+});
@@ -1,25 +1,54 @@
 /**
- * WIREGUARD SERVER - Modo simulación para desarrollo
+ * WIREGUARD SERVER - Gestión de la interfaz y sus peers
  * 
- * Gestiona configuraciones WireGuard manteniendo tu API de control
+ * Gestiona configuraciones WireGuard manteniendo tu API de control.
+ * Las operaciones del sistema se delegan en un WireGuardBackend (real o simulado).
  */
 
-import { exec } from 'child_process';
+import { randomBytes } from 'crypto';
 import { promises as fs } from 'fs';
 import { EventEmitter } from 'events';
-import { promisify } from 'util';
-import * as crypto from 'crypto';
-import { WireGuardPeer } from '../types';
+import * as path from 'path';
+import {
+  BandwidthLimit,
+  ClientProfile,
+  DevicePlatform,
+  ForcedDisconnect,
+  ReapReason,
+  ServerKeyRotationStatus,
+  WireGuardPeer,
+  WireGuardPeerEvent,
+  WireGuardStats
+} from '../types';
+import { WireGuardBackend } from './WireGuardBackend';
+import { runCommand } from './SystemCommand';
+import { FirewallBackend, createFirewallBackend } from './FirewallBackend';
+import { FirewallDriftReport, FirewallManager, PortForward } from './FirewallManager';
+import { LinuxWireGuardBackend } from './LinuxWireGuardBackend';
+import { IpAddressPool, IpPoolState } from './IpAddressPool';
+import { formatCidr, formatIp, ipFamily, parseCidr } from './IpAddress';
+import { DEFAULT_DEVICE_ID, PeerStore, peerKey } from './PeerStore';
+import { JsonFilePeerStore } from './JsonFilePeerStore';
+import { DumpPeer, parseWireGuardDump } from './WireGuardDump';
+import { DiagnosticCheck } from './Diagnostics';
+import { BanList, BanSubject, BannedError } from './BanList';
+import { PeerEventTracker } from './PeerEventTracker';
+import { TrafficShaper, createTrafficShaper } from './TrafficShaper';
+import { QrImage, QrOptions, renderConfigQr } from './ConfigQrCode';
+import { ClientConfigDocument, serializeClientConfig } from './ClientConfigFormat';
+import { ResolvedClientProfile, parseClientProfile, resolveClientProfile } from './ClientProfile';
+import { derivePublicKey, generateKeyPair, generatePresharedKey, isValidKey, isValidPublicKey } from './WireGuardKeys';
 
-const execAsync = promisify(exec);
+// WireGuard descarta la sesión si no hay handshake en 180 s (REJECT_AFTER_TIME)
+const CONNECTED_HANDSHAKE_WINDOW_S = 180;
 
-// Interfaz para estadísticas de peer
-interface PeerStats {
-  publicKey: string;
-  lastHandshake?: Date | undefined;
-  bytesReceived: number;
-  bytesSent: number;
-}
+// Periodo de gracia por defecto de la key anterior tras una rotación
+const DEFAULT_KEY_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+// Máximo admitido por setTimeout (~24,8 días)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Motivo de suspensión por inactividad: pedir de nuevo la configuración la levanta
+export const IDLE_SUSPENSION_REASON = 'idle';
 
 export interface WireGuardConfig {
   serverPublicKey: string;
@@ -29,14 +58,199 @@ export interface WireGuardConfig {
   peers: Map<string, WireGuardPeer>;
 }
 
+export interface WireGuardServerOptions {
+  backend?: WireGuardBackend;
+  /** Interfaz WireGuard (por defecto wg0) */
+  interfaceName?: string;
+  /** Directorio para <interfaz>.conf y las keys del servidor */
+  configDir?: string;
+  /** Subred de clientes (CIDR) e IP del servidor dentro de ella */
+  clientSubnet?: string;
+  serverVpnIp?: string;
+  /** Tiempo antes de reutilizar una IP liberada */
+  ipCooldownMs?: number;
+  /** Reservas estáticas de IP por usuario */
+  staticIps?: Record<string, string>;
+  /** Persistencia de peers (por defecto peers.json en configDir) */
+  peerStore?: PeerStore;
+  /** Dispositivos por usuario (0 = sin límite) */
+  maxDevicesPerUser?: number;
+  /** Habilitar dual-stack IPv6 */
+  ipv6?: Ipv6Options;
+  /** Intervalo de muestreo de estadísticas para emitir eventos de peers */
+  pollIntervalMs?: number;
+  firewall?: FirewallOptions;
+  /** Límites de velocidad (por defecto tc, o simulación si el backend es simulado) */
+  shaper?: TrafficShaper;
+  /** Límites por plan; un plan sin entrada no tiene límite */
+  bandwidthPlans?: Record<string, BandwidthLimit>;
+  /** Plan de los peers que no tienen uno asignado */
+  defaultPlan?: string;
+  /** DNS, MTU y keepalive por defecto de los clientes (DNS 8.8.8.8/8.8.4.4, keepalive 25 s) */
+  clientDefaults?: ClientProfile;
+  /** Perfil por defecto de cada plataforma (p. ej. split tunneling en Android) */
+  platformProfiles?: Partial<Record<DevicePlatform, ClientProfile>>;
+  keyRotation?: KeyRotationOptions;
+  /** Bloqueos que impiden emitir configuración y excluyen peers de la interfaz */
+  banList?: BanList;
+}
+
+// Identidad alternativa para rotar la key del servidor sin cortar a los clientes
+export interface KeyRotationOptions {
+  /** Interfaz alternativa (por defecto <interfaz>-r); la identidad alterna entre ambas en cada rotación */
+  interfaceName?: string;
+  /** Puerto alternativo (por defecto el siguiente al del servidor) */
+  port?: number;
+  /** Tiempo que se sigue aceptando la key anterior (por defecto 7 días) */
+  gracePeriodMs?: number;
+}
+
+// Identidad anterior del servidor mientras dura una rotación
+interface PreviousIdentity {
+  publicKey: string;
+  privateKey: string;
+  interfaceName: string;
+  port: number;
+  startedAt: Date;
+  retireAt: Date;
+}
+
+// Interfaz y puerto en los que puede vivir la identidad del servidor
+interface IdentitySlot {
+  interfaceName: string;
+  port: number;
+}
+
+// Opciones del firewall/NAT del túnel
+export interface FirewallOptions {
+  /** Por defecto iptables (o simulación si el backend WireGuard es simulado) */
+  backend?: FirewallBackend;
+  /** Interfaz de salida a internet (por defecto eth0) */
+  egressInterface?: string;
+  portForwards?: PortForward[];
+  /** Tráfico directo entre peers (por defecto permitido) */
+  interPeer?: 'allow' | 'deny';
+  /** Mostrar las reglas planificadas sin aplicarlas */
+  dryRun?: boolean;
+}
+
+// Opciones del túnel IPv6
+export interface Ipv6Options {
+  /** Prefijo de clientes (CIDR); sin él se genera una ULA fd00::/8 aleatoria /64 */
+  prefix?: string;
+  /** IP IPv6 del servidor (por defecto la primera del prefijo) */
+  serverIp?: string;
+  /** Servidores DNS IPv6 para los clientes */
+  dns?: string[];
+}
+
+// Opciones de emisión de configuración de cliente
+export interface ClientConfigOptions {
+  deviceId?: string;
+  deviceName?: string;
+  platform?: DevicePlatform;
+  /** Generar keys nuevas aunque el dispositivo ya tenga configuración */
+  rotate?: boolean;
+  /**
+   * Public key Curve25519 generada por la app. En este modo el servidor no
+   * conoce la private key y devuelve una plantilla sin `PrivateKey`.
+   */
+  publicKey?: string;
+  /** IP fija para el cliente (por defecto se asigna desde el pool) */
+  clientIP?: string;
+  /** Plan del usuario; si cambia se actualiza el límite de velocidad */
+  plan?: string;
+  /** Rutas, DNS, MTU y keepalive pedidos por la app; reemplaza el perfil guardado */
+  profile?: ClientProfile;
+  /**
+   * Caducidad de la configuración (prueba, invitado). Sólo adelanta la guardada:
+   * ampliarla o quitarla es una operación de administración (setPeerExpiry)
+   */
+  expiresAt?: Date;
+}
+
+// Resultado de emitir configuración
+export interface IssuedClientConfig {
+  /** Configuración wg-quick */
+  config: string;
+  /** Misma configuración como modelo, para serializarla en otros formatos */
+  document: ClientConfigDocument;
+  peer: WireGuardPeer;
+  /** false si se devolvió la configuración ya existente del dispositivo */
+  created: boolean;
+  rotated: boolean;
+  /** true si la app debe insertar su propia PrivateKey en la plantilla */
+  privateKeyRequired: boolean;
+}
+
+export class InvalidClientKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidClientKeyError';
+  }
+}
+
+export class PrivateKeyUnavailableError extends Error {
+  constructor(key: string) {
+    super(`El servidor no conoce la private key de ${key}: la configuración debe completarse en el dispositivo`);
+    this.name = 'PrivateKeyUnavailableError';
+  }
+}
+
+export class KeyRotationInProgressError extends Error {
+  constructor(retireAt: Date) {
+    super(`Ya hay una rotación de key en curso (la key anterior se retira el ${retireAt.toISOString()})`);
+    this.name = 'KeyRotationInProgressError';
+  }
+}
+
+export class DeviceLimitError extends Error {
+  constructor(userId: string, limit: number) {
+    super(`El usuario ${userId} alcanzó el límite de ${limit} dispositivos`);
+    this.name = 'DeviceLimitError';
+  }
+}
+
 export class WireGuardServer extends EventEmitter {
   private config: WireGuardConfig;
-  private interfaceName: string = 'wg0';
+  private interfaceName: string;
   private running: boolean = false;
-  private configPath: string = '/etc/wireguard/wg0.conf';
-  private simulationMode: boolean = false; // Modo real
+  private configDir: string;
+  private configPath: string;
+  private backend: WireGuardBackend;
+  private simulationMode: boolean;
+  private serverVpnIp: string;
+  private ipPool: IpAddressPool;
+  private ipv6Options?: Ipv6Options;
+  private ipPool6?: IpAddressPool;
+  private serverVpnIp6?: string;
+  private staticIps?: Record<string, string>;
+  private ipCooldownMs?: number;
+  private peerStore: PeerStore;
+  private maxDevicesPerUser: number;
+  private pollIntervalMs: number;
+  private monitorTimer?: NodeJS.Timeout;
+  private polling: boolean = false;
+  private eventTracker: PeerEventTracker = new PeerEventTracker();
+  private firewallOptions: FirewallOptions;
+  private firewall?: FirewallManager;
+  /** Límites temporales por usuario (p. ej. cuota agotada) que sustituyen al del plan */
+  private bandwidthOverrides: Map<string, BandwidthLimit> = new Map();
+  private shaper: TrafficShaper;
+  private bandwidthPlans: Record<string, BandwidthLimit>;
+  private defaultPlan: string;
+  private clientDefaults: ClientProfile;
+  private platformProfiles: Partial<Record<DevicePlatform, ClientProfile>>;
+  private identitySlots: IdentitySlot[];
+  private identitySlot: number = 0;
+  private keyGracePeriodMs: number;
+  private previousIdentity?: PreviousIdentity;
+  private retireTimer?: NodeJS.Timeout;
+  private banList?: BanList;
+  /** Cambios de peers y de la key en curso, de uno en uno */
+  private mutationQueue: Promise<unknown> = Promise.resolve();
 
-  constructor(serverAddress: string, serverPort: number = 51820) {
+  constructor(serverAddress: string, serverPort: number = 51820, options: WireGuardServerOptions = {}) {
     super();
     
     this.config = {
@@ -46,16 +260,55 @@ export class WireGuardServer extends EventEmitter {
       serverPort,
       peers: new Map()
     };
+
+    this.backend = options.backend || new LinuxWireGuardBackend();
+    this.simulationMode = this.backend.simulated;
+    this.interfaceName = options.interfaceName || 'wg0';
+    this.configDir = options.configDir || '/etc/wireguard';
+    this.configPath = this.interfaceConfigPath(this.interfaceName);
+    this.identitySlots = [
+      { interfaceName: this.interfaceName, port: serverPort },
+      {
+        interfaceName: options.keyRotation?.interfaceName || `${this.interfaceName}-r`,
+        port: options.keyRotation?.port || serverPort + 1
+      }
+    ];
+    this.keyGracePeriodMs = options.keyRotation?.gracePeriodMs ?? DEFAULT_KEY_GRACE_PERIOD_MS;
+
+    this.serverVpnIp = options.serverVpnIp || '10.0.0.1';
+    this.ipPool = new IpAddressPool({
+      subnet: options.clientSubnet || '10.0.0.0/24',
+      serverIp: this.serverVpnIp,
+      cooldownMs: options.ipCooldownMs,
+      staticReservations: options.staticIps
+    });
+    this.ipv6Options = options.ipv6;
+    this.staticIps = options.staticIps;
+    this.ipCooldownMs = options.ipCooldownMs;
+    this.peerStore = options.peerStore || new JsonFilePeerStore(path.join(this.configDir, 'peers.json'));
+    this.maxDevicesPerUser = options.maxDevicesPerUser ?? 5;
+    this.pollIntervalMs = options.pollIntervalMs ?? 30000;
+    this.firewallOptions = options.firewall || {};
+    this.shaper = options.shaper || createTrafficShaper(this.simulationMode ? 'simulation' : 'tc');
+    this.banList = options.banList;
+    this.bandwidthPlans = options.bandwidthPlans || {};
+    this.defaultPlan = options.defaultPlan || 'free';
+    this.clientDefaults = {
+      dns: ['8.8.8.8', '8.8.4.4'],
+      persistentKeepalive: 25,
+      ...parseClientProfile(options.clientDefaults)
+    };
+    this.platformProfiles = Object.fromEntries(
+      Object.entries(options.platformProfiles || {}).map(([platform, profile]) => [platform, parseClientProfile(profile)])
+    );
   }
 
   /**
-   * Inicializar WireGuard server (modo simulación)
+   * Inicializar WireGuard server
    */
   async start(): Promise<void> {
     try {
-      console.log('🚀 Iniciando WireGuard Server...');
-      
-
+      console.log(`🚀 Iniciando WireGuard Server (backend: ${this.backend.name})...`);
       
       // Verificar si WireGuard está instalado
       await this.checkWireGuardInstallation();
@@ -63,11 +316,18 @@ export class WireGuardServer extends EventEmitter {
       // Generar o cargar keys del servidor
       await this.initializeServerKeys();
       
+      // Rehidratar peers y asignaciones de IP previas
+      await this.peerStore.open();
+      await this.loadKeyRotation();
+      await this.initializeIpv6();
+      await this.loadPeers();
+      
       // Generar configuración inicial
       await this.generateServerConfig();
       
       // Iniciar interfaz WireGuard
       await this.startWireGuardInterface();
+      this.scheduleKeyRetirement();
       
       this.running = true;
       console.log(`✅ WireGuard Server iniciado en ${this.config.serverAddress}:${this.config.serverPort}`);
@@ -85,7 +345,19 @@ export class WireGuardServer extends EventEmitter {
     try {
       console.log('🛑 Deteniendo WireGuard Server...');
       
-      await execAsync(`sudo wg-quick down ${this.interfaceName}`);
+      this.stopHandshakeMonitoring();
+      if (this.retireTimer) {
+        clearTimeout(this.retireTimer);
+        this.retireTimer = undefined;
+      }
+      await this.firewall?.teardown().catch(error => console.error('⚠️ Error retirando reglas de firewall:', error));
+      await this.shaper.teardown(this.interfaceName).catch(error => console.error('⚠️ Error retirando límites de velocidad:', error));
+      await this.backend.interfaceDown(this.interfaceName, this.configPath);
+      if (this.previousIdentity) {
+        const { interfaceName } = this.previousIdentity;
+        await this.backend.interfaceDown(interfaceName, this.interfaceConfigPath(interfaceName)).catch(() => {});
+      }
+      await this.peerStore.close();
       
       this.running = false;
       console.log('✅ WireGuard Server detenido');
@@ -98,78 +370,328 @@ export class WireGuardServer extends EventEmitter {
    * Verificar instalación de WireGuard
    */
   private async checkWireGuardInstallation(): Promise<void> {
-    try {
-      await execAsync('which wg');
-      await execAsync('which wg-quick');
-    } catch (error) {
-      throw new Error('WireGuard no está instalado. Ejecute: sudo apt install wireguard');
-    }
+    await this.backend.checkInstallation();
   }
 
   /**
    * Inicializar keys del servidor
    */
   private async initializeServerKeys(): Promise<void> {
-    const privateKeyPath = '/etc/wireguard/server_private.key';
-    const publicKeyPath = '/etc/wireguard/server_public.key';
+    const privateKeyPath = path.join(this.configDir, 'server_private.key');
+    const publicKeyPath = path.join(this.configDir, 'server_public.key');
 
     try {
       // Crear directorio wireguard si no existe
-      await execAsync('sudo mkdir -p /etc/wireguard');
+      await fs.mkdir(this.configDir, { recursive: true });
       
       // Intentar cargar keys existentes
       this.config.serverPrivateKey = (await fs.readFile(privateKeyPath, 'utf8')).trim();
-      this.config.serverPublicKey = (await fs.readFile(publicKeyPath, 'utf8')).trim();
+      if (!isValidKey(this.config.serverPrivateKey)) {
+        throw new Error(`Private key del servidor inválida en ${privateKeyPath}`);
+      }
+      // La public key siempre se deriva: el archivo es sólo informativo
+      this.config.serverPublicKey = derivePublicKey(this.config.serverPrivateKey);
       
       console.log('✅ Keys del servidor cargadas');
     } catch (error) {
       // Generar nuevas keys
       console.log('🔑 Generando nuevas keys del servidor...');
       
-      const { stdout: privateKey } = await execAsync('wg genkey');
-      this.config.serverPrivateKey = privateKey.trim();
-      
-      const { stdout: publicKey } = await execAsync(`echo "${this.config.serverPrivateKey}" | wg pubkey`);
-      this.config.serverPublicKey = publicKey.trim();
+      const keyPair = generateKeyPair();
+      this.config.serverPrivateKey = keyPair.privateKey;
+      this.config.serverPublicKey = keyPair.publicKey;
       
       // Guardar keys
-      await fs.writeFile(privateKeyPath, this.config.serverPrivateKey);
-      await fs.writeFile(publicKeyPath, this.config.serverPublicKey);
+      await this.saveServerKeys();
       
       console.log('✅ Nuevas keys generadas y guardadas');
     }
   }
 
+  private async saveServerKeys(): Promise<void> {
+    await fs.writeFile(path.join(this.configDir, 'server_private.key'), this.config.serverPrivateKey, { mode: 0o600 });
+    await fs.writeFile(path.join(this.configDir, 'server_public.key'), this.config.serverPublicKey);
+  }
+
+  private previousKeyPath(): string {
+    return path.join(this.configDir, 'server_private.previous.key');
+  }
+
+  private interfaceConfigPath(interfaceName: string): string {
+    return path.join(this.configDir, `${interfaceName}.conf`);
+  }
+
+  /**
+   * Usar la interfaz y el puerto de una de las dos identidades posibles
+   */
+  private useIdentitySlot(slot: number): void {
+    this.identitySlot = slot;
+    this.interfaceName = this.identitySlots[slot].interfaceName;
+    this.config.serverPort = this.identitySlots[slot].port;
+    this.configPath = this.interfaceConfigPath(this.interfaceName);
+  }
+
+  /**
+   * Restaurar la interfaz activa y una rotación de key en curso
+   */
+  private async loadKeyRotation(): Promise<void> {
+    const slot = await this.peerStore.getState<number>('serverIdentitySlot');
+    this.useIdentitySlot(slot === 1 ? 1 : 0);
+
+    const saved = await this.peerStore.getState<Omit<PreviousIdentity, 'privateKey'>>('keyRotation');
+    if (!saved) return;
+
+    try {
+      const privateKey = (await fs.readFile(this.previousKeyPath(), 'utf8')).trim();
+      if (!isValidKey(privateKey) || derivePublicKey(privateKey) !== saved.publicKey) {
+        throw new Error(`${this.previousKeyPath()} no corresponde a la key anterior registrada`);
+      }
+
+      this.previousIdentity = {
+        ...saved,
+        privateKey,
+        startedAt: new Date(saved.startedAt),
+        retireAt: new Date(saved.retireAt)
+      };
+      console.log(`🔄 Rotación de key en curso: la anterior se acepta en ${saved.interfaceName} hasta ${this.previousIdentity.retireAt.toISOString()}`);
+    } catch (error) {
+      console.warn('⚠️ No se pudo restaurar la key anterior del servidor, se descarta la rotación:', error);
+      await this.peerStore.setState('keyRotation', null);
+    }
+  }
+
+  /**
+   * Rehidratar peers no revocados y el pool de IPs desde el store
+   */
+  private async loadPeers(): Promise<void> {
+    const poolState = await this.peerStore.getState<IpPoolState>('ipPool');
+    if (poolState) {
+      this.ipPool.restore(poolState);
+    }
+    const poolState6 = await this.peerStore.getState<IpPoolState>('ipPool6');
+    if (poolState6 && this.ipPool6) {
+      this.ipPool6.restore(poolState6);
+    }
+
+    const peers = await this.peerStore.loadPeers();
+    let restored = 0;
+
+    for (const peer of peers) {
+      if (peer.revokedAt) continue;
+      const key = peerKey(peer.userId, peer.deviceId);
+      const addresses = this.splitAllowedIPs(peer.allowedIPs);
+
+      try {
+        // Asegurar que la IP del peer figura en el pool aunque se haya perdido su estado
+        this.ipPool.claim(key, addresses.ipv4!);
+      } catch (error) {
+        console.warn(`⚠️ Peer ${key} con IP en conflicto, se omite:`, error);
+        continue;
+      }
+
+      // Completar o retirar la dirección IPv6 según la configuración actual
+      let ipv6: string | undefined;
+      if (this.ipPool6) {
+        try {
+          if (addresses.ipv6) this.ipPool6.claim(key, addresses.ipv6);
+          ipv6 = addresses.ipv6;
+        } catch (error) {
+          console.warn(`⚠️ IPv6 de ${key} fuera del prefijo actual, se reasigna`);
+        }
+        ipv6 = ipv6 || this.ipPool6.allocate(key, peer.userId);
+      }
+
+      // Los registros antiguos guardaban la private key generada por el servidor
+      const legacyPrivateKey = peer.privateKey !== undefined;
+      delete peer.privateKey;
+
+      const allowedIPs = this.formatAllowedIPs(addresses.ipv4!, ipv6);
+      if (allowedIPs !== peer.allowedIPs || legacyPrivateKey) {
+        peer.allowedIPs = allowedIPs;
+        await this.peerStore.savePeer(peer);
+      }
+
+      this.config.peers.set(key, peer);
+      restored++;
+    }
+
+    await this.saveIpPool();
+    console.log(`✅ ${restored} peers rehidratados desde store ${this.peerStore.type}`);
+  }
+
+  /**
+   * Guardar estado del pool de IPs
+   */
+  private async saveIpPool(): Promise<void> {
+    await this.peerStore.setState('ipPool', this.ipPool.toJSON());
+    if (this.ipPool6) {
+      await this.peerStore.setState('ipPool6', this.ipPool6.toJSON());
+    }
+  }
+
+  /**
+   * Preparar el pool IPv6 (prefijo configurado o ULA persistida en el store)
+   */
+  private async initializeIpv6(): Promise<void> {
+    if (!this.ipv6Options) return;
+
+    let prefix = this.ipv6Options.prefix;
+    if (!prefix) {
+      prefix = await this.peerStore.getState<string>('ipv6Prefix');
+      if (!prefix) {
+        prefix = this.generateUlaPrefix();
+        await this.peerStore.setState('ipv6Prefix', prefix);
+        console.log(`🌐 Prefijo ULA IPv6 generado: ${prefix}`);
+      }
+    }
+
+    const cidr = parseCidr(prefix);
+    if (cidr.family !== 6) {
+      throw new Error(`El prefijo IPv6 ${prefix} no es una subred IPv6`);
+    }
+
+    this.serverVpnIp6 = this.ipv6Options.serverIp || formatIp(cidr.network + 1n, 6);
+    this.ipPool6 = new IpAddressPool({
+      subnet: formatCidr(cidr),
+      serverIp: this.serverVpnIp6,
+      cooldownMs: this.ipCooldownMs,
+      staticReservations: this.staticIps
+    });
+
+    console.log(`✅ IPv6 habilitado: ${this.ipPool6.getSubnet()} (servidor ${this.serverVpnIp6})`);
+  }
+
+  /**
+   * Prefijo ULA /64 con Global ID aleatorio (RFC 4193)
+   */
+  private generateUlaPrefix(): string {
+    const globalId = randomBytes(5).reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+    const network = ((0xfdn << 40n) | globalId) << 80n;
+    return formatCidr({ family: 6, network, prefixLength: 64 });
+  }
+
+  /**
+   * Asignar las IPs del túnel de un peer (IPv4 y, si está habilitado, IPv6)
+   */
+  private allocateAddresses(key: string, userId: string): string {
+    const ipv4 = this.ipPool.allocate(key, userId);
+
+    try {
+      const ipv6 = this.ipPool6?.allocate(key, userId);
+      return this.formatAllowedIPs(ipv4, ipv6);
+    } catch (error) {
+      this.ipPool.release(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Separar las direcciones de un AllowedIPs por familia
+   */
+  private splitAllowedIPs(allowedIPs: string): { ipv4?: string; ipv6?: string } {
+    const result: { ipv4?: string; ipv6?: string } = {};
+
+    for (const entry of allowedIPs.split(',')) {
+      const address = entry.trim().split('/')[0];
+      if (!address) continue;
+      if (ipFamily(address) === 6) {
+        result.ipv6 = result.ipv6 || address;
+      } else {
+        result.ipv4 = result.ipv4 || address;
+      }
+    }
+
+    return result;
+  }
+
+  private formatAllowedIPs(ipv4: string, ipv6?: string): string {
+    return ipv6 ? `${ipv4}/32, ${ipv6}/128` : `${ipv4}/32`;
+  }
+
   /**
    * Generar configuración del servidor
+   *
+   * Durante una rotación de key se genera también la de la interfaz anterior,
+   * con los peers que aún no migraron. Esa interfaz conserva la ruta de la
+   * subred; la actual sólo lleva su dirección de host y rutas por peer.
    */
   private async generateServerConfig(): Promise<void> {
-    const config = `[Interface]
+    await this.writeConfigFile(this.configPath, this.renderServerConfig());
+
+    const previous = this.previousIdentity;
+    if (previous) {
+      await this.writeConfigFile(this.interfaceConfigPath(previous.interfaceName), this.renderPreviousConfig(previous));
+    }
+    
+    console.log('✅ Configuración de servidor generada');
+  }
+
+  /**
+   * Escribir a un temporal y renombrar: wg-quick nunca lee un archivo a medias
+   */
+  private async writeConfigFile(file: string, content: string): Promise<void> {
+    const tmpPath = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, content, { mode: 0o600 });
+    await fs.chmod(tmpPath, 0o600);
+    await fs.rename(tmpPath, file);
+  }
+
+  private renderServerConfig(): string {
+    return `[Interface]
 PrivateKey = ${this.config.serverPrivateKey}
-Address = 10.0.0.1/24
+Address = ${this.getInterfaceAddresses(!!this.previousIdentity).join(', ')}
 ListenPort = ${this.config.serverPort}
 # PostUp y PostDown removidos - se manejan manualmente
 
-${this.generatePeersConfig()}`;
+${this.generatePeersConfig(peer => !this.isConfigStale(peer))}`;
+  }
 
-    await fs.writeFile(this.configPath, config);
-    await execAsync(`sudo chmod 600 ${this.configPath}`);
-    
-    console.log('✅ Configuración de servidor generada');
+  private renderPreviousConfig(previous: PreviousIdentity): string {
+    return `[Interface]
+PrivateKey = ${previous.privateKey}
+Address = ${this.getInterfaceAddresses().join(', ')}
+ListenPort = ${previous.port}
+
+${this.generatePeersConfig(peer => peer.serverPublicKey === previous.publicKey)}`;
+  }
+
+  /**
+   * Direcciones de la interfaz del servidor en cada familia habilitada
+   *
+   * @param hostOnly Sin prefijo de subred (/32, /128) para no crear la ruta de la subred
+   */
+  private getInterfaceAddresses(hostOnly: boolean = false): string[] {
+    const addresses = [`${this.serverVpnIp}/${hostOnly ? 32 : this.ipPool.getPrefixLength()}`];
+    if (this.ipPool6) {
+      addresses.push(`${this.serverVpnIp6}/${hostOnly ? 128 : this.ipPool6.getPrefixLength()}`);
+    }
+    return addresses;
+  }
+
+  /**
+   * Subredes de clientes (una por familia)
+   */
+  private getClientSubnets(): string[] {
+    const subnets = [this.ipPool.getSubnet()];
+    if (this.ipPool6) subnets.push(this.ipPool6.getSubnet());
+    return subnets;
   }
 
   /**
    * Generar configuración de peers
    */
-  private generatePeersConfig(): string {
+  private generatePeersConfig(include: (peer: WireGuardPeer) => boolean): string {
     let peersConfig = '';
     
-    for (const [userId, peer] of this.config.peers) {
+    for (const peer of this.config.peers.values()) {
+      // Los suspendidos conservan su registro e IP pero no pueden conectar
+      if (peer.suspendedAt || !include(peer) || this.banList?.isBanned(peer)) continue;
+      
       peersConfig += `
 [Peer]
-# Usuario: ${userId}
+# Usuario: ${peer.userId} / Dispositivo: ${peer.deviceId || DEFAULT_DEVICE_ID}
 PublicKey = ${peer.publicKey}
-AllowedIPs = ${peer.allowedIPs}
+${peer.presharedKey ? `PresharedKey = ${peer.presharedKey}\n` : ''}AllowedIPs = ${peer.allowedIPs}
 `;
     }
     
@@ -183,28 +705,38 @@ AllowedIPs = ${peer.allowedIPs}
     
     try {
       // Detener si ya está corriendo
-      await execAsync(`sudo wg-quick down ${this.interfaceName}`).catch(() => {});
+      await this.backend.interfaceDown(this.interfaceName, this.configPath).catch(() => {});
       
       // PASO 1: Iniciar interfaz WireGuard primero (esto crea wg0)
-      await execAsync(`sudo wg-quick up ${this.interfaceName}`);
+      await this.backend.interfaceUp(this.interfaceName, this.configPath);
       console.log(`✅ Interfaz ${this.interfaceName} iniciada`);
       
       // PASO 2: Esperar un momento para que la interfaz esté completamente activa
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      if (!this.simulationMode) {
+        await new Promise(resolve => setTimeout(resolve, 2000));
+      }
       
       // PASO 3: Verificar que la interfaz wg0 existe
-      try {
-        const { stdout: interfaces } = await execAsync('ip link show wg0');
-        console.log('🔗 Interfaz wg0 confirmada:', interfaces.split('\n')[0]);
-      } catch (e) {
-        throw new Error('Interfaz wg0 no fue creada correctamente');
+      if (!(await this.backend.interfaceExists(this.interfaceName))) {
+        throw new Error(`Interfaz ${this.interfaceName} no fue creada correctamente`);
+      }
+      console.log(`🔗 Interfaz ${this.interfaceName} confirmada`);
+      
+      // PASO 3b: Interfaz de la key anterior mientras dure una rotación
+      if (this.previousIdentity) {
+        const { interfaceName } = this.previousIdentity;
+        const previousPath = this.interfaceConfigPath(interfaceName);
+        await this.backend.interfaceDown(interfaceName, previousPath).catch(() => {});
+        await this.backend.interfaceUp(interfaceName, previousPath);
+        await this.syncRotationRoutes();
+        console.log(`✅ Interfaz ${interfaceName} (key anterior) iniciada`);
       }
       
-      // PASO 4: Aplicar reglas iptables DESPUÉS de crear la interfaz
+      // PASO 4: Aplicar reglas de firewall DESPUÉS de crear la interfaz
       await this.setupFirewallRules();
       
-      // PASO 5: Verificar reglas aplicadas
-      await this.verifyFirewallRules();
+      // PASO 5: Límites de velocidad por plan
+      await this.setupTrafficShaping();
       
       // PASO 6: Iniciar monitoreo de handshakes
       this.startHandshakeMonitoring();
@@ -215,372 +747,1293 @@ AllowedIPs = ${peer.allowedIPs}
   }
 
   /**
-   * Monitorear handshakes de WireGuard en tiempo real
+   * Monitorear peers de WireGuard y emitir eventos de ciclo de vida
+   *
+   * Cada muestra se compara con la anterior; los eventos se emiten con su tipo
+   * como nombre (`peer-online`, `transfer`...) y todos además como `peer-event`.
    */
   private startHandshakeMonitoring(): void {
-    console.log('👁️ Iniciando monitoreo de handshakes WireGuard...');
-    
-    // Monitorear cada 30 segundos
-    setInterval(async () => {
-      try {
-        const { stdout: wgStatus } = await execAsync('sudo wg show wg0 latest-handshakes');
-        const { stdout: wgTransfer } = await execAsync('sudo wg show wg0 transfer');
-        
-        if (wgStatus.trim() && wgStatus !== 'wg0') {
-          console.log('🤝 Handshakes detectados:', wgStatus);
-          console.log('📊 Transferencia:', wgTransfer);
-        } else if (this.config.peers.size > 0) {
-          console.log(`⏳ ${this.config.peers.size} peers configurados pero sin handshakes...`);
-          
-          // Mostrar últimos peers agregados
-          const lastPeers = Array.from(this.config.peers.entries()).slice(-2);
-          lastPeers.forEach(([userId, peer]) => {
-            console.log(`   👤 ${userId}: ${peer.publicKey.substring(0, 20)}...`);
-          });
-        }
-      } catch (e) {
-        // Silencioso - no spam logs si no hay peers
-      }
-    }, 30000);
+    console.log(`👁️ Iniciando monitoreo de peers WireGuard (cada ${this.pollIntervalMs} ms)...`);
+
+    this.stopHandshakeMonitoring();
+    this.monitorTimer = setInterval(() => this.pollPeers(), this.pollIntervalMs);
   }
 
-  /**
-   * Configurar reglas de firewall manualmente
-   */
-  private async setupFirewallRules(): Promise<void> {
-    try {
-      console.log('🔧 Configurando reglas de firewall...');
-      
-      // Habilitar IP forwarding de forma persistente
-      await execAsync('sudo sysctl -w net.ipv4.ip_forward=1');
-      await execAsync('echo "net.ipv4.ip_forward=1" | sudo tee -a /etc/sysctl.conf').catch(() => {});
-      
-      // PASO 1: Verificar estado actual
-      console.log('🔍 Estado actual del firewall:');
-      try {
-        const { stdout: currentForward } = await execAsync('sudo iptables -L FORWARD -n');
-        console.log('📋 FORWARD actual:', currentForward.split('\n').slice(0, 5).join('\n'));
-      } catch (e) {
-        console.log('📋 No hay reglas FORWARD actuales');
-      }
-      
-      // PASO 2: NO limpiar todas las reglas (para no afectar Docker)
-      // En su lugar, remover solo las reglas específicas de WireGuard si existen
-      console.log('🧹 Limpiando reglas WireGuard existentes...');
-      await execAsync('sudo iptables -D FORWARD -i wg0 -o eth0 -j ACCEPT').catch(() => {});
-      await execAsync('sudo iptables -D FORWARD -i eth0 -o wg0 -j ACCEPT').catch(() => {});
-      await execAsync('sudo iptables -t nat -D POSTROUTING -s 10.0.0.0/24 -o eth0 -j MASQUERADE').catch(() => {});
-      
-      // PASO 3: Insertar reglas específicas al INICIO (antes de Docker)
-      console.log('🔗 Insertando reglas FORWARD específicas...');
-      await execAsync('sudo iptables -I FORWARD 1 -i wg0 -o eth0 -j ACCEPT');
-      await execAsync('sudo iptables -I FORWARD 2 -i eth0 -o wg0 -m conntrack --ctstate RELATED,ESTABLISHED -j ACCEPT');
-      
-      // PASO 4: Aplicar MASQUERADE
-      console.log('🎭 Aplicando MASQUERADE...');
-      await execAsync('sudo iptables -t nat -A POSTROUTING -s 10.0.0.0/24 -o eth0 -j MASQUERADE');
-      
-      // PASO 5: Permitir tráfico en INPUT y OUTPUT para wg0
-      console.log('🚪 Configurando INPUT/OUTPUT específicos...');
-      await execAsync('sudo iptables -I INPUT 1 -i wg0 -j ACCEPT').catch(() => {});
-      await execAsync('sudo iptables -I OUTPUT 1 -o wg0 -j ACCEPT').catch(() => {});
-      
-      // PASO 6: Regla adicional para asegurar tráfico desde wg0
-      console.log('🛡️ Asegurando tráfico desde subnet WireGuard...');
-      await execAsync('sudo iptables -I FORWARD 1 -s 10.0.0.0/24 -j ACCEPT');
-      
-      console.log('✅ Reglas de firewall configuradas');
-      
-    } catch (error) {
-      console.error('❌ Error configurando firewall:', error);
+  private stopHandshakeMonitoring(): void {
+    if (this.monitorTimer) {
+      clearInterval(this.monitorTimer);
+      this.monitorTimer = undefined;
     }
+    this.eventTracker.reset();
   }
 
   /**
-   * Verificar reglas de firewall
+   * Tomar una muestra de estadísticas y emitir las diferencias
    */
-  private async verifyFirewallRules(): Promise<void> {
+  private async pollPeers(): Promise<void> {
+    // Una muestra lenta no debe solaparse con la siguiente
+    if (this.polling) return;
+    this.polling = true;
+
     try {
-      console.log('🔍 Verificando reglas de firewall aplicadas...');
-      
-      // Verificar FORWARD con detalles de interfaces
-      try {
-        const { stdout: forwardRules } = await execAsync('sudo iptables -L FORWARD -n -v --line-numbers');
-        console.log('📋 Reglas FORWARD completas:');
-        console.log(forwardRules);
-        
-        // Buscar reglas específicas de WireGuard
-        const hasWg0ToEth0 = forwardRules.includes('wg0') && forwardRules.includes('eth0');
-        const hasSubnetRule = forwardRules.includes('10.0.0.0/24');
-        
-        console.log(`🔗 FORWARD wg0 → eth0: ${hasWg0ToEth0 ? '✅ CONFIGURADO' : '❌ FALTANTE'}`);
-        console.log(`🔗 FORWARD subnet 10.0.0.0/24: ${hasSubnetRule ? '✅ CONFIGURADO' : '❌ FALTANTE'}`);
-        
-        // Contar líneas que mencionan wg0
-        const wg0Lines = forwardRules.split('\n').filter(line => line.includes('wg0'));
-        console.log(`📊 Reglas con wg0 encontradas: ${wg0Lines.length}`);
-        wg0Lines.forEach((line, i) => console.log(`   ${i+1}. ${line.trim()}`));
-        
-      } catch (e) {
-        console.log('⚠️ Error verificando FORWARD:', e);
-      }
-      
-      // Verificar MASQUERADE
-      try {
-        const { stdout: natRules } = await execAsync('sudo iptables -t nat -L POSTROUTING -n -v --line-numbers');
-        console.log('📋 Reglas NAT (POSTROUTING):');
-        console.log(natRules);
-        
-        const hasMasquerade = natRules.includes('MASQUERADE') && natRules.includes('10.0.0.0/24');
-        console.log(`🎭 MASQUERADE para 10.0.0.0/24: ${hasMasquerade ? '✅ CONFIGURADO' : '❌ FALTANTE'}`);
-      } catch (e) {
-        console.log('⚠️ Error verificando NAT:', e);
-      }
-      
-      // Verificar estado de WireGuard
-      try {
-        console.log('🔗 Estado de WireGuard:');
-        const { stdout: wgStatus } = await execAsync('sudo wg show');
-        console.log(wgStatus);
-        
-        if (wgStatus.includes('peer:')) {
-          console.log('👥 Clientes conectados encontrados');
-        } else {
-          console.log('👥 No hay clientes conectados aún');
-        }
-      } catch (e) {
-        console.log('⚠️ Error verificando WireGuard:', e);
+      const stats = await this.getConnectionStats();
+      // Una muestra fallida haría ver como retirados los peers que faltan y, al
+      // volver, se facturarían otra vez sus contadores: se espera a la siguiente
+      if (stats.error) {
+        console.error(`⚠️ Muestra de peers WireGuard descartada (${stats.error})`);
+        return;
       }
+      const events = this.eventTracker.update(stats);
 
-      // Verificar puerto UDP 51820
-      try {
-        console.log('🔌 Verificando puerto UDP 51820...');
-        const { stdout: portStatus } = await execAsync('sudo netstat -ulnp | grep 51820');
-        if (portStatus.trim()) {
-          console.log('✅ Puerto 51820 está escuchando:', portStatus.trim());
-        } else {
-          console.log('❌ Puerto 51820 NO está escuchando');
+      for (const event of events) {
+        if (event.event === 'peer-online') {
+          console.log(`🟢 ${event.clientId} conectado desde ${event.data.endpoint || 'endpoint desconocido'}`);
+        } else if (event.event === 'peer-offline') {
+          console.log(`⚪ ${event.clientId} desconectado`);
         }
-      } catch (e) {
-        console.log('⚠️ Puerto 51820 no encontrado en netstat');
+        this.emitPeerEvent(event);
       }
 
-      // Verificar firewall del sistema (ufw)
-      try {
-        const { stdout: ufwStatus } = await execAsync('sudo ufw status');
-        console.log('🛡️ Estado del firewall (ufw):', ufwStatus.includes('inactive') ? 'Desactivado' : 'Activo');
-        if (!ufwStatus.includes('inactive')) {
-          console.log('📋 Reglas UFW:', ufwStatus);
-          
-          // Verificar si puerto 51820 está permitido
-          if (!ufwStatus.includes('51820')) {
-            console.log('⚠️ PUERTO 51820/UDP NO ESTÁ PERMITIDO EN UFW');
-            console.log('🔧 Agregando regla UFW para WireGuard...');
-            try {
-              await execAsync('sudo ufw allow 51820/udp');
-              console.log('✅ Regla UFW agregada para puerto 51820/UDP');
-            } catch (e) {
-              console.log('❌ Error agregando regla UFW:', e);
-            }
-          } else {
-            console.log('✅ Puerto 51820/UDP permitido en UFW');
-          }
-        }
-      } catch (e) {
-        console.log('🛡️ UFW no disponible o error verificando');
+      const handshaked = stats.peers.filter(peer => peer.lastHandshake);
+      if (handshaked.length > 0) {
+        await this.recordLastSeen(handshaked);
       }
+    } catch (error) {
+      console.error('⚠️ Error monitoreando peers WireGuard:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
 
-      // Verificar configuración de WireGuard
-      try {
-        console.log('📋 Configuración WireGuard actual:');
-        const { stdout: configContent } = await execAsync('sudo cat /etc/wireguard/wg0.conf');
-        const lines = configContent.split('\n');
-        const interfaceLines = lines.filter(line => line.includes('Address') || line.includes('ListenPort'));
-        const peerLines = lines.filter(line => line.includes('[Peer]') || line.includes('PublicKey'));
-        
-        console.log('🔧 Interface:', interfaceLines.join(', '));
-        console.log('👥 Peers configurados:', Math.floor(peerLines.filter(line => line.includes('[Peer]')).length));
-      } catch (e) {
-        console.log('⚠️ Error leyendo configuración WireGuard');
-      }
-      
-      // Verificar IP forwarding
-      try {
-        const { stdout: ipForward } = await execAsync('cat /proc/sys/net/ipv4/ip_forward');
-        console.log(`📋 IP Forwarding: ${ipForward.trim() === '1' ? '✅ Habilitado' : '❌ Deshabilitado'}`);
-      } catch (e) {
-        console.log('⚠️ Error verificando IP forwarding');
-      }
-      
-      // Test de conectividad desde el servidor
-      console.log('🌐 Probando conectividad del servidor...');
+  private emitPeerEvent(event: WireGuardPeerEvent): void {
+    try {
+      this.emit(event.event, event);
+      this.emit('peer-event', event);
+    } catch (error) {
+      // Un listener con errores no debe detener el monitoreo
+      console.error(`⚠️ Error en listener de ${event.event}:`, error);
+    }
+  }
+
+  /**
+   * Avisar de dispositivos sacados de la interfaz ('forced-disconnect')
+   */
+  private emitForcedDisconnect(peers: WireGuardPeer[], action: ForcedDisconnect['action'], reason: string): void {
+    for (const peer of peers) {
+      const notice: ForcedDisconnect = {
+        userId: peer.userId,
+        deviceId: peer.deviceId || DEFAULT_DEVICE_ID,
+        action,
+        reason,
+        timestamp: new Date()
+      };
       try {
-        await execAsync('ping -c 1 8.8.8.8', { timeout: 5000 });
-        console.log('✅ Servidor tiene conectividad a internet');
-        
-        // Test de DNS desde el servidor
-        try {
-          await execAsync('nslookup google.com 8.8.8.8', { timeout: 5000 });
-          console.log('✅ DNS funciona desde servidor');
-        } catch (e) {
-          console.log('❌ DNS no funciona desde servidor');
-        }
-        
-        // Test desde interfaz wg0 si existe tráfico
-        try {
-          const { stdout: wgTraffic } = await execAsync('sudo wg show wg0 transfer');
-          const hasTraffic = wgTraffic.split('\n').some(line => {
-            const parts = line.trim().split(/\s+/);
-            return parts.length >= 3 && (parseInt(parts[1]) > 0 || parseInt(parts[2]) > 0);
-          });
-          
-          if (hasTraffic) {
-            console.log('✅ Detectado tráfico en WireGuard');
-          } else {
-            console.log('⚠️ Sin tráfico en WireGuard - posible problema de enrutamiento');
-          }
-        } catch (e) {
-          console.log('⚠️ Error verificando tráfico WireGuard');
-        }
-        
-      } catch (e) {
-        console.log('❌ Servidor SIN conectividad a internet');
+        this.emit('forced-disconnect', notice);
+      } catch (error) {
+        console.error('⚠️ Error en listener de forced-disconnect:', error);
       }
-      
-    } catch (error) {
-      console.warn('⚠️ Error verificando reglas:', error);
     }
   }
 
   /**
-   * Generar cliente WireGuard para usuario
+   * Actualizar lastSeenAt de los peers con handshakes nuevos
    */
-  async generateClientConfig(userId: string, clientIP: string = ''): Promise<string> {
-    // Generar keys para el cliente
-    const { stdout: privateKey } = await execAsync('wg genkey');
-    const clientPrivateKey = privateKey.trim();
-    
-    const { stdout: publicKey } = await execAsync(`echo "${clientPrivateKey}" | wg pubkey`);
-    const clientPublicKey = publicKey.trim();
+  private async recordLastSeen(stats: WireGuardPeer[]): Promise<void> {
+    for (const peer of this.config.peers.values()) {
+      const stat = stats.find(s => s.publicKey === peer.publicKey);
+      if (!stat?.lastHandshake) continue;
+      if (peer.lastSeenAt && peer.lastSeenAt >= stat.lastHandshake) continue;
 
-    // Asignar IP al cliente (auto-incrementar)
-    if (!clientIP) {
-      const nextIP = 2 + this.config.peers.size;
-      clientIP = `10.0.0.${nextIP}/32`;
+      peer.lastSeenAt = stat.lastHandshake;
+      await this.peerStore.savePeer(peer);
     }
+  }
 
-    // Agregar peer al servidor
-    const peer: WireGuardPeer = {
-      userId,
-      publicKey: clientPublicKey,
-      privateKey: clientPrivateKey,
-      allowedIPs: clientIP
-    };
+  /**
+   * Configurar forwarding y reglas de firewall a partir de la configuración
+   */
+  private async setupFirewallRules(): Promise<void> {
+    try {
+      console.log('🔧 Configurando reglas de firewall...');
 
-    this.config.peers.set(userId, peer);
+      const backend = this.firewallOptions.backend ||
+        createFirewallBackend(this.simulationMode ? 'simulation' : 'iptables');
+      this.firewall = new FirewallManager(backend, {
+        tunnelInterface: this.interfaceName,
+        egressInterface: this.firewallOptions.egressInterface || 'eth0',
+        listenPort: this.config.serverPort,
+        additionalTunnels: this.previousIdentity
+          ? [{ interfaceName: this.previousIdentity.interfaceName, listenPort: this.previousIdentity.port }]
+          : [],
+        subnets: this.getClientSubnets(),
+        portForwards: this.firewallOptions.portForwards || [],
+        interPeer: this.firewallOptions.interPeer || 'allow'
+      }, { dryRun: this.firewallOptions.dryRun });
 
-    // Actualizar configuración del servidor
-    await this.generateServerConfig();
-    await this.reloadWireGuard();
+      if (this.firewall.isDryRun()) {
+        console.log(`📝 Dry-run: no se habilita IP forwarding${this.ipPool6 ? ' (IPv4 + IPv6)' : ''}`);
+        await this.firewall.apply();
+        return;
+      }
 
-    // Generar configuración del cliente
-    const clientConfig = `[Interface]
-PrivateKey = ${clientPrivateKey}
-Address = ${clientIP}
-DNS = 8.8.8.8, 8.8.4.4
+      // Habilitar IP forwarding de forma persistente
+      await this.backend.enableForwarding(!!this.ipPool6);
 
-[Peer]
-PublicKey = ${this.config.serverPublicKey}
-Endpoint = ${this.config.serverAddress}:${this.config.serverPort}
-AllowedIPs = 0.0.0.0/0
-PersistentKeepalive = 25`;
+      // Reglas propias en cadenas/tabla dedicadas, enganchadas antes que las de Docker
+      console.log(`🔗 Aplicando reglas de firewall (${backend.name})...`);
+      await this.firewall.apply();
 
-    console.log(`✅ Configuración generada para usuario: ${userId}`);
-    
-    return clientConfig;
-  }
+      const drift = await this.firewall.checkDrift();
+      if (drift.inSync) {
+        console.log('✅ Reglas de firewall configuradas');
+      } else {
+        console.warn('⚠️ Reglas de firewall con diferencias:', drift);
+      }
 
-  /**
-   * Remover cliente
-   */
-  async removeClient(userId: string): Promise<void> {
-    if (this.config.peers.has(userId)) {
-      this.config.peers.delete(userId);
-      await this.generateServerConfig();
-      await this.reloadWireGuard();
-      
-      console.log(`✅ Cliente removido: ${userId}`);
+    } catch (error) {
+      console.error('❌ Error configurando firewall:', error);
     }
   }
 
   /**
-   * Recargar configuración WireGuard
+   * Preparar el shaper y aplicar los límites de todos los peers
    */
-  private async reloadWireGuard(): Promise<void> {
-    
+  private async setupTrafficShaping(): Promise<void> {
     try {
-      await execAsync(`sudo wg syncconf ${this.interfaceName} ${this.configPath}`);
+      await this.shaper.setup(this.interfaceName);
     } catch (error) {
-      // Si syncconf falla, reiniciar la interfaz
-      await execAsync(`sudo wg-quick down ${this.interfaceName}`);
-      await execAsync(`sudo wg-quick up ${this.interfaceName}`);
+      console.error(`❌ Error preparando límites de velocidad (${this.shaper.name}):`, error);
+      return;
+    }
+
+    for (const peer of this.config.peers.values()) {
+      await this.applyBandwidthLimit(peer);
     }
+    console.log(`✅ Límites de velocidad aplicados (${this.shaper.name})`);
   }
 
   /**
-   * Obtener estadísticas de conexiones
+   * Límite de velocidad que corresponde al plan de un peer
    */
-  async getConnectionStats(): Promise<any> {
-    
+  private getPlanLimit(peer: WireGuardPeer): BandwidthLimit | undefined {
+    return this.bandwidthPlans[peer.plan || this.defaultPlan];
+  }
+
+  /**
+   * Aplicar (o retirar) el límite del plan de un peer; un fallo no bloquea el servicio
+   */
+  private async applyBandwidthLimit(peer: WireGuardPeer): Promise<void> {
+    const key = peerKey(peer.userId, peer.deviceId);
+    const limit = this.bandwidthOverrides.get(peer.userId) || this.getPlanLimit(peer);
+
     try {
-      const { stdout } = await execAsync(`sudo wg show ${this.interfaceName}`);
-      return this.parseWireGuardStats(stdout);
+      if (limit) {
+        const addresses = peer.allowedIPs.split(',').map(address => address.trim()).filter(Boolean);
+        await this.shaper.applyLimit(this.interfaceName, key, addresses, limit);
+      } else {
+        await this.shaper.removeLimit(this.interfaceName, key);
+      }
     } catch (error) {
-      return { peers: [], totalPeers: 0 };
+      console.error(`⚠️ Error aplicando límite de velocidad a ${key}:`, error);
     }
   }
 
   /**
-   * Parsear estadísticas de WireGuard
+   * Plan actual de un usuario (el de sus dispositivos o el plan por defecto)
    */
-  private parseWireGuardStats(output: string): any {
-    const peers = [];
-    const lines = output.split('\n');
-    let currentPeer: PeerStats | null = null;
-    
-    for (const line of lines) {
-      if (line.includes('peer:')) {
-        if (currentPeer) peers.push(currentPeer);
-        currentPeer = {
-          publicKey: line.split('peer:')[1].trim(),
-          lastHandshake: undefined,
-          bytesReceived: 0,
-          bytesSent: 0
-        } as PeerStats;
-      } else if (currentPeer) {
-        if (line.includes('latest handshake:')) {
-          const handshakeStr = line.split('latest handshake:')[1].trim();
-          if (handshakeStr && handshakeStr !== '(never)') {
-            currentPeer.lastHandshake = new Date(handshakeStr);
-          }
-        } else if (line.includes('transfer:')) {
-          const transfer = line.split('transfer:')[1].trim();
-          const parts = transfer.split(',');
-          currentPeer.bytesReceived = parseInt(parts[0]) || 0;
-          currentPeer.bytesSent = parseInt(parts[1]) || 0;
+  getUserPlan(userId: string): string {
+    return this.getUserPeers(userId).find(peer => peer.plan)?.plan || this.defaultPlan;
+  }
+
+  /**
+   * Sustituir temporalmente el límite del plan de un usuario (sin límite: restaurar el del plan)
+   */
+  async setBandwidthOverride(userId: string, limit?: BandwidthLimit): Promise<void> {
+    if (limit) {
+      this.bandwidthOverrides.set(userId, limit);
+    } else if (!this.bandwidthOverrides.delete(userId)) {
+      return;
+    }
+
+    for (const peer of this.getUserPeers(userId)) {
+      await this.applyBandwidthLimit(peer);
+    }
+  }
+
+  /**
+   * Sacar de la interfaz todos los dispositivos de un usuario sin revocarlos
+   */
+  async suspendUser(userId: string, reason: string): Promise<void> {
+    return this.serialize(async () => {
+      const peers = this.getUserPeers(userId).filter(peer => !peer.suspendedAt);
+      if (peers.length === 0) return;
+
+      for (const peer of peers) {
+        peer.suspendedAt = new Date();
+        peer.suspendedReason = reason;
+        await this.peerStore.savePeer(peer);
+      }
+
+      await this.generateServerConfig();
+      await this.applyPeerChanges(peers);
+      this.emitForcedDisconnect(peers, 'suspended', reason);
+      console.log(`⏸️ Usuario ${userId} suspendido (${reason})`);
+    });
+  }
+
+  /**
+   * Devolver a la interfaz los dispositivos suspendidos por `reason` (las demás suspensiones se mantienen)
+   */
+  async resumeUser(userId: string, reason: string): Promise<void> {
+    return this.serialize(async () => {
+      const peers = this.getUserPeers(userId).filter(peer => peer.suspendedAt && peer.suspendedReason === reason);
+      if (peers.length === 0) return;
+
+      for (const peer of peers) {
+        peer.suspendedAt = undefined;
+        peer.suspendedReason = undefined;
+        await this.peerStore.savePeer(peer);
+      }
+
+      await this.generateServerConfig();
+      await this.applyPeerChanges(peers);
+      for (const peer of peers) {
+        await this.applyBandwidthLimit(peer);
+      }
+      console.log(`▶️ Usuario ${userId} reactivado (${reason})`);
+    });
+  }
+
+  /**
+   * Sacar de la interfaz un dispositivo sin revocarlo
+   */
+  async suspendDevice(userId: string, deviceId: string, reason: string): Promise<void> {
+    return this.serialize(async () => {
+      const peer = this.config.peers.get(peerKey(userId, deviceId));
+      if (!peer || peer.suspendedAt) return;
+
+      peer.suspendedAt = new Date();
+      peer.suspendedReason = reason;
+      await this.peerStore.savePeer(peer);
+
+      await this.generateServerConfig();
+      await this.applyPeerChanges([peer]);
+      this.emitForcedDisconnect([peer], 'suspended', reason);
+      console.log(`⏸️ Dispositivo ${peerKey(userId, deviceId)} suspendido (${reason})`);
+    });
+  }
+
+  /**
+   * Revocar los dispositivos afectados por bloqueos vigentes
+   */
+  async revokeBannedPeers(): Promise<WireGuardPeer[]> {
+    const banList = this.banList;
+    if (!banList) return [];
+
+    const banned = Array.from(this.config.peers.values()).filter(peer => banList.isBanned(peer));
+    for (const peer of banned) {
+      await this.removeClient(peer.userId, peer.deviceId || DEFAULT_DEVICE_ID, 'banned');
+    }
+    return banned;
+  }
+
+  /**
+   * Dispositivos caducados o sin handshake desde hace `idleAfterMs`
+   *
+   * La inactividad cuenta desde el último handshake, el alta o la reactivación
+   * (lo más reciente). Los suspendidos no pueden conectar, así que sólo se
+   * retiran si caducan.
+   *
+   * @param idleAfterMs 0 = no retirar por inactividad
+   */
+  getReapCandidates(idleAfterMs: number, now: Date = new Date()): Array<{ peer: WireGuardPeer; reason: ReapReason }> {
+    const candidates: Array<{ peer: WireGuardPeer; reason: ReapReason }> = [];
+
+    for (const peer of this.config.peers.values()) {
+      if (peer.expiresAt && peer.expiresAt <= now) {
+        candidates.push({ peer, reason: 'expired' });
+        continue;
+      }
+
+      const lastActivity = Math.max(...[peer.lastSeenAt, peer.activatedAt, peer.createdAt].map(date => date?.getTime() || 0));
+      if (idleAfterMs > 0 && !peer.suspendedAt && lastActivity > 0 && now.getTime() - lastActivity >= idleAfterMs) {
+        candidates.push({ peer, reason: 'idle' });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Fijar, ampliar o quitar (undefined) la caducidad de un dispositivo
+   *
+   * @returns El peer actualizado o undefined si no existe
+   */
+  async setPeerExpiry(userId: string, deviceId: string, expiresAt: Date | undefined): Promise<WireGuardPeer | undefined> {
+    return this.serialize(async () => {
+      const peer = this.config.peers.get(peerKey(userId, deviceId));
+      if (!peer) return undefined;
+
+      peer.expiresAt = expiresAt;
+      await this.peerStore.savePeer(peer);
+      console.log(`⏳ Caducidad de ${peerKey(userId, deviceId)}: ${expiresAt ? expiresAt.toISOString() : 'sin caducidad'}`);
+      return peer;
+    });
+  }
+
+  /**
+   * Cambiar el plan de todos los dispositivos de un usuario
+   */
+  async setUserPlan(userId: string, plan: string): Promise<void> {
+    for (const peer of this.getUserPeers(userId)) {
+      if (peer.plan === plan) continue;
+
+      peer.plan = plan;
+      await this.peerStore.savePeer(peer);
+      await this.applyBandwidthLimit(peer);
+    }
+    console.log(`📶 Plan ${plan} aplicado a ${userId}`);
+  }
+
+  /**
+   * Diferencias entre las reglas instaladas y las esperadas
+   */
+  async getFirewallDrift(): Promise<FirewallDriftReport | undefined> {
+    return this.firewall?.checkDrift();
+  }
+
+  /**
+   * Reglas de firewall planificadas para la configuración actual
+   */
+  getFirewallPlan(): string | undefined {
+    return this.firewall?.plan();
+  }
+
+  /**
+   * Comprobaciones del autodiagnóstico de esta instancia (ver Diagnostics)
+   */
+  getDiagnosticChecks(): DiagnosticCheck[] {
+    const checks: DiagnosticCheck[] = [
+      {
+        id: 'wireguard-interface',
+        title: 'Interfaz WireGuard activa',
+        run: async () => {
+          const missing = await this.getMissingInterfaces();
+          return missing.length === 0
+            ? { status: 'pass', evidence: `${this.getInterfaceNames().join(', ')} activa` }
+            : {
+              status: 'fail',
+              evidence: `No existe: ${missing.join(', ')}`,
+              remediation: `Levantarla con wg-quick up ${this.configPath} o reiniciar el servidor`
+            };
+        },
+        fix: async () => {
+          for (const interfaceName of await this.getMissingInterfaces()) {
+            await this.backend.interfaceUp(interfaceName, this.interfaceConfigPath(interfaceName));
+          }
+        }
+      },
+      {
+        id: 'wireguard-port',
+        title: 'WireGuard escucha en su puerto UDP',
+        run: async () => {
+          const dump = parseWireGuardDump(await this.backend.dumpStats(this.interfaceName));
+          const listenPort = dump.interface?.listenPort;
+          return listenPort === this.config.serverPort
+            ? { status: 'pass', evidence: `${this.interfaceName} escucha en UDP ${listenPort}` }
+            : {
+              status: 'fail',
+              evidence: `${this.interfaceName} escucha en ${listenPort ?? 'ningún puerto'} (esperado ${this.config.serverPort})`,
+              remediation: `Comprobar si otro proceso ocupa el puerto: ss -ulnp | grep ${this.config.serverPort}`
+            };
+        }
+      },
+      {
+        id: 'wireguard-config',
+        title: 'Archivo de configuración al día',
+        run: async () => {
+          const outdated = await this.getOutdatedConfigFiles();
+          return outdated.length === 0
+            ? { status: 'pass', evidence: `${this.configPath} coincide con los ${this.config.peers.size} peers registrados` }
+            : {
+              status: 'warn',
+              evidence: `Desactualizado respecto al registro de peers: ${outdated.join(', ')}`,
+              remediation: 'Regenerarlo desde el registro (modo fix); se reescribe también al emitir o revocar configuraciones'
+            };
+        },
+        fix: () => this.serialize(() => this.generateServerConfig())
+      },
+      {
+        id: 'wireguard-peers',
+        title: 'Peers cargados en la interfaz',
+        run: async () => {
+          let missing = 0;
+          let unknown = 0;
+          let loaded = 0;
+
+          for (const { interfaceName, include } of this.getInterfacePeerFilters()) {
+            const expected = new Set(
+              Array.from(this.config.peers.values()).filter(peer => !peer.suspendedAt && include(peer)).map(peer => peer.publicKey)
+            );
+            const present = new Set(parseWireGuardDump(await this.backend.dumpStats(interfaceName)).peers.map(peer => peer.publicKey));
+            missing += Array.from(expected).filter(publicKey => !present.has(publicKey)).length;
+            unknown += Array.from(present).filter(publicKey => !expected.has(publicKey)).length;
+            loaded += present.size;
+          }
+
+          return missing === 0 && unknown === 0
+            ? { status: 'pass', evidence: `${loaded} peers cargados, todos registrados` }
+            : {
+              status: 'warn',
+              evidence: `${missing} peers registrados sin cargar y ${unknown} cargados sin registro`,
+              remediation: `Sincronizar la interfaz con su archivo (modo fix): wg syncconf ${this.interfaceName} <(wg-quick strip ${this.configPath})`
+            };
+        },
+        fix: () => this.serialize(() => this.reloadWireGuard())
+      },
+      {
+        id: 'ip-forwarding',
+        title: 'Reenvío de paquetes (IP forwarding) habilitado',
+        run: async () => {
+          const families: Array<'ipv4' | 'ipv6'> = this.ipPool6 ? ['ipv4', 'ipv6'] : ['ipv4'];
+          const disabled: string[] = [];
+          for (const family of families) {
+            if (!(await this.backend.isForwardingEnabled(family))) disabled.push(family);
+          }
+          return disabled.length === 0
+            ? { status: 'pass', evidence: `Habilitado en ${families.join(' e ')}` }
+            : {
+              status: 'fail',
+              evidence: `Deshabilitado en ${disabled.join(' e ')}: los clientes no salen a internet`,
+              remediation: 'sysctl -w net.ipv4.ip_forward=1 (y net.ipv6.conf.all.forwarding=1 con IPv6)'
+            };
+        },
+        fix: () => this.backend.enableForwarding(!!this.ipPool6)
+      },
+      {
+        id: 'firewall',
+        title: 'Reglas de firewall y NAT instaladas',
+        run: async () => {
+          if (!this.firewall) {
+            return { status: 'fail', evidence: 'Firewall sin configurar: la interfaz no llegó a iniciarse', remediation: 'Revisar el log de arranque' };
+          }
+          if (this.firewall.isDryRun()) {
+            return { status: 'warn', evidence: 'Modo dry-run: las reglas no se aplican', remediation: 'Quitar WG_FIREWALL_DRY_RUN' };
+          }
+
+          const drift = await this.firewall.checkDrift();
+          if (drift.missing.length > 0 || drift.missingHooks.length > 0) {
+            return {
+              status: 'fail',
+              evidence: `Faltan en ${drift.backend}: ${[...drift.missing, ...drift.missingHooks].join(', ')}`,
+              remediation: 'Reaplicar las reglas (modo fix) y revisar si otro gestor (ufw, firewalld, Docker) las retira'
+            };
+          }
+          if (drift.stale.length > 0 || drift.unexpected.length > 0) {
+            return {
+              status: 'warn',
+              evidence: `Reglas sobrantes en ${drift.backend}: ${[...drift.stale, ...drift.unexpected].join(', ')}`,
+              remediation: 'Reaplicar las reglas (modo fix) para dejar sólo las propias'
+            };
+          }
+          return { status: 'pass', evidence: `Reglas de ${drift.backend} sincronizadas` };
+        },
+        fix: async () => {
+          if (this.firewall && !this.firewall.isDryRun()) await this.firewall.apply();
+        }
+      },
+      {
+        id: 'handshakes',
+        title: 'Clientes completando handshakes',
+        run: async () => {
+          const configured = Array.from(this.config.peers.values()).filter(peer => !peer.suspendedAt).length;
+          if (configured === 0) {
+            return { status: 'pass', evidence: 'Sin peers configurados' };
+          }
+
+          const stats = await this.getConnectionStats();
+          if (stats.error) {
+            return { status: 'fail', evidence: `No se pudieron leer las estadísticas de wg (${stats.error})` };
+          }
+          if (stats.activePeers === 0) {
+            return {
+              status: 'warn',
+              evidence: `Ninguno de los ${configured} peers completó un handshake en los últimos ${CONNECTED_HANDSHAKE_WINDOW_S} s`,
+              remediation: `Comprobar que UDP ${this.config.serverPort} es accesible desde fuera (firewall del proveedor, NAT)`
+            };
+          }
+
+          // Reciben del cliente pero nunca le envían: el tráfico no vuelve por el túnel
+          const silent = stats.peers.filter(peer => peer.connected && (peer.bytesReceived || 0) > 0 && !peer.bytesSent);
+          if (silent.length > 0) {
+            return {
+              status: 'warn',
+              evidence: `${silent.length} peers conectados sin tráfico de vuelta`,
+              remediation: 'Posible problema de enrutamiento o NAT: revisar las reglas de masquerade y WG_EGRESS_INTERFACE'
+            };
+          }
+          return { status: 'pass', evidence: `${stats.activePeers} de ${configured} peers conectados` };
         }
       }
+    ];
+
+    if (!this.simulationMode) {
+      checks.push({
+        id: 'ufw',
+        title: 'ufw permite el puerto de WireGuard',
+        run: async () => {
+          const blocked = await this.getUfwBlockedPorts();
+          if (blocked === undefined) {
+            return { status: 'pass', evidence: 'ufw no está instalado o está desactivado' };
+          }
+          return blocked.length === 0
+            ? { status: 'pass', evidence: 'ufw activo con regla para el puerto de WireGuard' }
+            : {
+              status: 'warn',
+              evidence: `ufw activo sin regla para ${blocked.map(port => `${port}/udp`).join(', ')}`,
+              remediation: `ufw allow ${blocked[0]}/udp (las cadenas NODEX-* aceptan el puerto, pero ufw puede anteponer las suyas al recargar)`
+            };
+        },
+        fix: async () => {
+          for (const port of await this.getUfwBlockedPorts() || []) {
+            await runCommand('sudo', ['ufw', 'allow', `${port}/udp`]);
+          }
+        }
+      });
     }
+
+    return checks;
+  }
+
+  /**
+   * Interfaces de esta instancia (la actual y la de la key anterior durante una rotación)
+   */
+  private getInterfaceNames(): string[] {
+    return this.previousIdentity ? [this.interfaceName, this.previousIdentity.interfaceName] : [this.interfaceName];
+  }
+
+  private async getMissingInterfaces(): Promise<string[]> {
+    const missing: string[] = [];
+    for (const interfaceName of this.getInterfaceNames()) {
+      if (!(await this.backend.interfaceExists(interfaceName))) missing.push(interfaceName);
+    }
+    return missing;
+  }
+
+  /**
+   * Peers que corresponden a cada interfaz (igual que al generar sus archivos)
+   */
+  private getInterfacePeerFilters(): Array<{ interfaceName: string; include: (peer: WireGuardPeer) => boolean }> {
+    const filters = [{ interfaceName: this.interfaceName, include: (peer: WireGuardPeer) => !this.isConfigStale(peer) }];
+    const previous = this.previousIdentity;
+    if (previous) {
+      filters.push({ interfaceName: previous.interfaceName, include: peer => peer.serverPublicKey === previous.publicKey });
+    }
+    return filters;
+  }
+
+  private async getOutdatedConfigFiles(): Promise<string[]> {
+    const files: Array<[string, string]> = [[this.configPath, this.renderServerConfig()]];
+    if (this.previousIdentity) {
+      files.push([this.interfaceConfigPath(this.previousIdentity.interfaceName), this.renderPreviousConfig(this.previousIdentity)]);
+    }
+
+    const outdated: string[] = [];
+    for (const [file, expected] of files) {
+      const content = await fs.readFile(file, 'utf8').catch(() => undefined);
+      if (content !== expected) outdated.push(content === undefined ? `${file} (no existe)` : file);
+    }
+    return outdated;
+  }
+
+  /**
+   * Puertos de WireGuard sin regla en ufw (undefined si ufw no está activo)
+   */
+  private async getUfwBlockedPorts(): Promise<number[] | undefined> {
+    let status: string;
+    try {
+      status = await runCommand('sudo', ['ufw', 'status'], { timeout: 5000 });
+    } catch (error) {
+      return undefined;
+    }
+    if (!/Status: active/.test(status)) return undefined;
+
+    const ports = [this.config.serverPort, ...(this.previousIdentity ? [this.previousIdentity.port] : [])];
+    return ports.filter(port => !new RegExp(`^${port}(/udp)?\\s`, 'm').test(status));
+  }
+
+  /**
+   * Generar cliente WireGuard para un dispositivo del usuario
+   *
+   * Si el dispositivo ya tiene peer se devuelve su configuración actual;
+   * sólo se generan keys nuevas con `rotate` (conservando la IP). La private
+   * key que genera el servidor no se guarda: sólo viaja en la respuesta que
+   * la emite y al repetir la petición se devuelve la plantilla sin `PrivateKey`.
+   */
+  async generateClientConfig(userId: string, options: ClientConfigOptions = {}): Promise<IssuedClientConfig> {
+    return this.serialize(async () => {
+      const deviceId = options.deviceId || DEFAULT_DEVICE_ID;
+      const key = peerKey(userId, deviceId);
+      const existing = this.config.peers.get(key);
+
+      // La key registrada también cuenta: pedir otra no debe esquivar el bloqueo
+      this.checkBan({ userId, deviceId, publicKey: options.publicKey });
+      if (existing) {
+        this.checkBan({ userId, deviceId, publicKey: existing.publicKey });
+      }
+
+      if (options.publicKey) {
+        this.validateClientPublicKey(options.publicKey, key);
+      }
+
+      // Validar el perfil (y que deje alguna ruta) antes de tocar el peer
+      const profile = options.profile ? parseClientProfile(options.profile) : undefined;
+      if (profile) {
+        this.resolveClientProfile({ platform: options.platform || existing?.platform, profile });
+      }
+
+      // Una public key distinta de la registrada implica rotación
+      const keyChanged = !!options.publicKey && options.publicKey !== existing?.publicKey;
+
+      if (existing && !options.rotate && !keyChanged) {
+        const planChanged = !!options.plan && options.plan !== existing.plan;
+        // Pedir la configuración tras una rotación la migra a la key actual del servidor
+        const stale = this.isConfigStale(existing);
+        // Un dispositivo suspendido por inactividad vuelve al pedir su configuración
+        const idle = existing.suspendedReason === IDLE_SUSPENSION_REASON;
+        const expiresAt = earliestDate(existing.expiresAt, options.expiresAt);
+        const expiryChanged = expiresAt?.getTime() !== existing.expiresAt?.getTime();
+        if (options.deviceName || options.platform || planChanged || profile || stale || idle || expiryChanged) {
+          existing.deviceName = options.deviceName || existing.deviceName;
+          existing.platform = options.platform || existing.platform;
+          existing.plan = options.plan || existing.plan;
+          existing.profile = profile || existing.profile;
+          existing.expiresAt = expiresAt;
+          existing.serverPublicKey = this.config.serverPublicKey;
+          if (idle) {
+            existing.suspendedAt = undefined;
+            existing.suspendedReason = undefined;
+            existing.activatedAt = new Date();
+          }
+          await this.peerStore.savePeer(existing);
+        }
+        if (planChanged) {
+          await this.applyBandwidthLimit(existing);
+        }
+        if (stale || idle) {
+          await this.generateServerConfig();
+          await this.applyPeerChanges([existing]);
+          console.log(`🔄 ${key} ${idle ? 'reactivado tras inactividad' : 'migrado a la key actual del servidor'}`);
+        }
+        if (idle && !planChanged) {
+          await this.applyBandwidthLimit(existing);
+        }
+
+        // La private key no se guarda: la app conserva la que recibió al emitirla
+        console.log(`♻️ Configuración existente devuelta para ${key}`);
+        return {
+          config: this.buildClientConfig(existing),
+          document: this.buildClientDocument(existing),
+          peer: existing,
+          created: false,
+          rotated: false,
+          privateKeyRequired: true
+        };
+      }
+
+      // Límite de dispositivos (la rotación no agrega dispositivos)
+      if (!existing && this.maxDevicesPerUser > 0 && this.getUserPeers(userId).length >= this.maxDevicesPerUser) {
+        throw new DeviceLimitError(userId, this.maxDevicesPerUser);
+      }
+
+      // Usar la public key de la app o generar keys para el cliente
+      let clientPrivateKey: string | undefined;
+      let clientPublicKey: string;
+      if (options.publicKey) {
+        clientPublicKey = options.publicKey;
+      } else {
+        const keyPair = generateKeyPair();
+        clientPrivateKey = keyPair.privateKey;
+        clientPublicKey = keyPair.publicKey;
+        this.checkBan({ userId, deviceId, publicKey: clientPublicKey });
+      }
+
+      // Asignar IP al cliente desde el pool (la misma si el dispositivo ya tenía una)
+      let clientIP = options.clientIP || existing?.allowedIPs;
+      if (!clientIP) {
+        clientIP = this.allocateAddresses(key, userId);
+        await this.saveIpPool();
+      }
+
+      // Un dispositivo nuevo hereda la suspensión del usuario (no la de inactividad de otro dispositivo)
+      const suspended = [existing, ...this.getUserPeers(userId)]
+        .find(other => other?.suspendedAt && other.suspendedReason !== IDLE_SUSPENSION_REASON);
+
+      // Agregar peer al servidor
+      const peer: WireGuardPeer = {
+        userId,
+        deviceId,
+        deviceName: options.deviceName || existing?.deviceName,
+        platform: options.platform || existing?.platform,
+        plan: options.plan || existing?.plan,
+        profile: profile || existing?.profile,
+        publicKey: clientPublicKey,
+        presharedKey: generatePresharedKey(),
+        allowedIPs: clientIP,
+        serverPublicKey: this.config.serverPublicKey,
+        suspendedAt: suspended?.suspendedAt,
+        suspendedReason: suspended?.suspendedReason,
+        expiresAt: earliestDate(existing?.expiresAt, options.expiresAt),
+        activatedAt: new Date(),
+        createdAt: existing?.createdAt || new Date()
+      };
+
+      this.config.peers.set(key, peer);
+      await this.peerStore.savePeer(peer);
+
+      // Actualizar configuración del servidor (una key rotada sale de la interfaz)
+      await this.generateServerConfig();
+      await this.applyPeerChanges([peer], existing && existing.publicKey !== peer.publicKey ? [existing.publicKey] : []);
+      await this.applyBandwidthLimit(peer);
+
+      console.log(`✅ Configuración ${existing ? 'rotada' : 'generada'} para ${key}`);
     
-    if (currentPeer) peers.push(currentPeer);
-    
+      // La private key sólo viaja en esta respuesta, nunca al store
+      return {
+        config: this.buildClientConfig(peer, clientPrivateKey),
+        document: this.buildClientDocument(peer, clientPrivateKey),
+        peer,
+        created: !existing,
+        rotated: !!existing,
+        privateKeyRequired: !clientPrivateKey
+      };
+    });
+  }
+
+  /**
+   * Rotar la preshared key de un dispositivo conservando su par de keys
+   */
+  async rotatePresharedKey(userId: string, deviceId: string = DEFAULT_DEVICE_ID): Promise<IssuedClientConfig> {
+    return this.serialize(async () => {
+      const key = peerKey(userId, deviceId);
+      const peer = this.config.peers.get(key);
+      if (!peer) {
+        throw new Error(`No existe peer para ${key}`);
+      }
+
+      peer.presharedKey = generatePresharedKey();
+      peer.serverPublicKey = this.config.serverPublicKey;
+      await this.peerStore.savePeer(peer);
+
+      await this.generateServerConfig();
+      await this.applyPeerChanges([peer]);
+
+      console.log(`🔑 Preshared key rotada para ${key}`);
+
+      // El dispositivo ya tiene su private key: no se vuelve a enviar
+      return {
+        config: this.buildClientConfig(peer),
+        document: this.buildClientDocument(peer),
+        peer,
+        created: false,
+        rotated: true,
+        privateKeyRequired: true
+      };
+    });
+  }
+
+  /**
+   * @throws BannedError si hay un bloqueo vigente para el usuario, el dispositivo o la key
+   */
+  private checkBan(subject: BanSubject): void {
+    const ban = this.banList?.findActive(subject);
+    if (ban) {
+      throw new BannedError(ban);
+    }
+  }
+
+  /**
+   * Validar una public key enviada por la app
+   */
+  private validateClientPublicKey(publicKey: string, key: string): void {
+    if (!isValidKey(publicKey)) {
+      throw new InvalidClientKeyError('publicKey debe ser una key Curve25519 de 32 bytes en base64');
+    }
+    if (!isValidPublicKey(publicKey)) {
+      throw new InvalidClientKeyError('publicKey inválida');
+    }
+    if (publicKey === this.config.serverPublicKey) {
+      throw new InvalidClientKeyError('publicKey coincide con la del servidor');
+    }
+
+    // WireGuard enruta por public key: no puede repetirse entre dispositivos
+    for (const [otherKey, peer] of this.config.peers) {
+      if (otherKey !== key && peer.publicKey === publicKey) {
+        throw new InvalidClientKeyError('publicKey ya registrada para otro dispositivo');
+      }
+    }
+  }
+
+  /**
+   * Perfil efectivo de un peer: servidor < plataforma < dispositivo
+   *
+   * Los DNS IPv6 sólo se añaden a los DNS por defecto del servidor.
+   */
+  resolveClientProfile(peer: Pick<WireGuardPeer, 'platform' | 'profile'>): ResolvedClientProfile {
+    const serverProfile: ClientProfile = {
+      ...this.clientDefaults,
+      dns: [...(this.clientDefaults.dns || []), ...(this.ipPool6 ? this.ipv6Options?.dns || [] : [])]
+    };
+
+    return resolveClientProfile(
+      serverProfile,
+      peer.platform ? this.platformProfiles[peer.platform] : undefined,
+      peer.profile
+    );
+  }
+
+  /**
+   * Configuración del cliente para un peer, independiente del formato
+   *
+   * Sin `privateKey` (recién generada por el servidor) se omite para que
+   * la app la complete.
+   */
+  private buildClientDocument(peer: WireGuardPeer, privateKey?: string): ClientConfigDocument {
+    const profile = this.resolveClientProfile(peer);
+
+    return {
+      name: `nodex-${peer.deviceId || DEFAULT_DEVICE_ID}`,
+      interface: {
+        privateKey,
+        addresses: peer.allowedIPs.split(',').map(address => address.trim()),
+        dns: profile.dns,
+        mtu: profile.mtu,
+        includedApplications: profile.includedApplications,
+        excludedApplications: profile.excludedApplications
+      },
+      peer: {
+        publicKey: this.config.serverPublicKey,
+        presharedKey: peer.presharedKey,
+        endpoint: `${this.config.serverAddress}:${this.config.serverPort}`,
+        allowedIPs: profile.allowedIPs,
+        persistentKeepalive: profile.persistentKeepalive
+      }
+    };
+  }
+
+  /**
+   * Configuración wg-quick del cliente para un peer
+   */
+  private buildClientConfig(peer: WireGuardPeer, privateKey?: string): string {
+    return serializeClientConfig(this.buildClientDocument(peer, privateKey), 'wg-quick').body;
+  }
+
+  /**
+   * Remover cliente (un dispositivo o, sin deviceId, todos los del usuario)
+   */
+  async removeClient(userId: string, deviceId?: string, reason: string = 'removed'): Promise<void> {
+    return this.serialize(async () => {
+      const peers = deviceId
+        ? [this.config.peers.get(peerKey(userId, deviceId))].filter((peer): peer is WireGuardPeer => !!peer)
+        : this.getUserPeers(userId);
+
+      if (peers.length === 0) return;
+
+      for (const peer of peers) {
+        const key = peerKey(peer.userId, peer.deviceId);
+        this.config.peers.delete(key);
+      
+        // Se conserva el registro como revocado
+        peer.revokedAt = new Date();
+        peer.revokedReason = reason;
+        await this.peerStore.savePeer(peer);
+      
+        this.ipPool.release(key);
+        this.ipPool6?.release(key);
+        await this.shaper.removeLimit(this.interfaceName, key)
+          .catch(error => console.error(`⚠️ Error retirando límite de velocidad de ${key}:`, error));
+        console.log(`✅ Cliente removido: ${key}`);
+      }
+
+      await this.saveIpPool();
+      await this.generateServerConfig();
+      await this.applyPeerChanges([], peers.map(peer => peer.publicKey));
+      // Los que ya estaban suspendidos no estaban conectados
+      this.emitForcedDisconnect(peers.filter(peer => !peer.suspendedAt), 'revoked', reason);
+    });
+  }
+
+  /**
+   * Configuración recién emitida como QR escaneable por las apps de WireGuard
+   *
+   * Sólo es posible al emitir keys generadas por el servidor: la private key no
+   * se guarda y sin `PrivateKey` la app rechaza el túnel.
+   */
+  async renderClientConfigQr(issued: IssuedClientConfig, options: QrOptions = {}): Promise<QrImage> {
+    if (issued.privateKeyRequired) {
+      throw new PrivateKeyUnavailableError(peerKey(issued.peer.userId, issued.peer.deviceId));
+    }
+
+    return renderConfigQr(issued.config, options);
+  }
+
+  /**
+   * Peers activos de un usuario
+   */
+  getUserPeers(userId: string): WireGuardPeer[] {
+    return Array.from(this.config.peers.values()).filter(peer => peer.userId === userId);
+  }
+
+  /**
+   * Recargar configuración WireGuard desde los archivos
+   *
+   * Nunca reinicia la interfaz: desconectaría a todos los usuarios. Si syncconf
+   * falla el error se propaga y el diagnóstico (wireguard-peers) lo detecta.
+   */
+  private async reloadWireGuard(): Promise<void> {
+    await this.backend.syncConfig(this.interfaceName, this.configPath);
+
+    if (this.previousIdentity) {
+      const { interfaceName } = this.previousIdentity;
+      await this.backend.syncConfig(interfaceName, this.interfaceConfigPath(interfaceName))
+        .catch(error => console.error(`⚠️ Error sincronizando ${interfaceName}:`, error));
+      await this.syncRotationRoutes();
+    }
+  }
+
+  /**
+   * Aplicar en caliente (`wg set`) los cambios de unos peers ya persistidos
+   *
+   * Cada peer queda sólo en la interfaz que le corresponde (ninguna si está
+   * suspendido). Si algún cambio falla se sincroniza la interfaz completa
+   * desde el archivo, que ya refleja el estado deseado.
+   *
+   * @param removedPublicKeys Keys que ya no deben estar en ninguna interfaz (revocados o rotados)
+   */
+  private async applyPeerChanges(peers: WireGuardPeer[], removedPublicKeys: string[] = []): Promise<void> {
+    try {
+      for (const interfaceName of this.getInterfaceNames()) {
+        for (const publicKey of removedPublicKeys) {
+          await this.backend.removePeer(interfaceName, publicKey);
+        }
+      }
+
+      for (const peer of peers) {
+        const target = this.getPeerInterface(peer);
+        for (const interfaceName of this.getInterfaceNames()) {
+          if (interfaceName === target) {
+            await this.backend.addPeer(interfaceName, {
+              publicKey: peer.publicKey,
+              presharedKey: peer.presharedKey,
+              allowedIPs: peer.allowedIPs
+            });
+          } else {
+            await this.backend.removePeer(interfaceName, peer.publicKey);
+          }
+        }
+
+        // Durante una rotación los peers migrados necesitan su ruta de host
+        if (target === this.interfaceName && this.previousIdentity) {
+          for (const address of peer.allowedIPs.split(',').map(entry => entry.trim()).filter(Boolean)) {
+            await this.backend.addRoute(this.interfaceName, address);
+          }
+        }
+      }
+    } catch (error) {
+      console.warn('⚠️ Error aplicando cambios de peers, sincronizando desde el archivo:', error);
+      await this.reloadWireGuard();
+    }
+  }
+
+  /**
+   * Interfaz en la que debe estar un peer (igual que al generar los archivos)
+   */
+  private getPeerInterface(peer: WireGuardPeer): string | undefined {
+    if (peer.suspendedAt || this.banList?.isBanned(peer)) return undefined;
+    if (!this.isConfigStale(peer)) return this.interfaceName;
+    if (this.previousIdentity && peer.serverPublicKey === this.previousIdentity.publicKey) {
+      return this.previousIdentity.interfaceName;
+    }
+    return undefined;
+  }
+
+  /**
+   * Ejecutar un cambio de peers o de la key cuando terminen los anteriores
+   *
+   * Evita que dos peticiones simultáneas reserven la misma IP, superen el
+   * límite de dispositivos o escriban el archivo de configuración a la vez.
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.mutationQueue.then(task, task);
+    this.mutationQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Rutas de host por la interfaz actual para los peers ya migrados
+   *
+   * Mientras dura una rotación la ruta de la subred sigue en la interfaz de la
+   * key anterior; las rutas /32 y /128 tienen prioridad sobre ella.
+   */
+  private async syncRotationRoutes(): Promise<void> {
+    for (const peer of this.config.peers.values()) {
+      if (peer.suspendedAt || this.isConfigStale(peer)) continue;
+
+      for (const address of peer.allowedIPs.split(',').map(entry => entry.trim()).filter(Boolean)) {
+        await this.backend.addRoute(this.interfaceName, address)
+          .catch(error => console.error(`⚠️ Error enrutando ${address} por ${this.interfaceName}:`, error));
+      }
+    }
+  }
+
+  /**
+   * ¿Se emitió la configuración del peer con una key del servidor que ya no es la actual?
+   */
+  isConfigStale(peer: WireGuardPeer): boolean {
+    return !!peer.serverPublicKey && peer.serverPublicKey !== this.config.serverPublicKey;
+  }
+
+  /**
+   * Rotar la key del servidor aceptando la anterior durante un periodo de gracia
+   *
+   * La identidad nueva se levanta en la otra interfaz/puerto, junto a la actual.
+   * Cada dispositivo pasa a ella al pedir de nuevo su configuración; al vencer
+   * el periodo la interfaz anterior se retira y los que no migraron quedan
+   * desconectados hasta que la pidan.
+   */
+  async rotateServerKey(gracePeriodMs: number = this.keyGracePeriodMs): Promise<ServerKeyRotationStatus> {
+    return this.serialize(async () => {
+      if (this.previousIdentity) {
+        throw new KeyRotationInProgressError(this.previousIdentity.retireAt);
+      }
+      if (!this.running) {
+        throw new Error('El servidor WireGuard no está iniciado');
+      }
+
+      const previousSlot = this.identitySlot;
+      const startedAt = new Date();
+      const previous: PreviousIdentity = {
+        publicKey: this.config.serverPublicKey,
+        privateKey: this.config.serverPrivateKey,
+        interfaceName: this.interfaceName,
+        port: this.config.serverPort,
+        startedAt,
+        retireAt: new Date(startedAt.getTime() + gracePeriodMs)
+      };
+      const stamps = new Map(Array.from(this.config.peers.values()).map(peer => [peer, peer.serverPublicKey]));
+
+      // Todas las configuraciones emitidas hasta ahora usan la key anterior
+      const keyPair = generateKeyPair();
+      this.config.serverPrivateKey = keyPair.privateKey;
+      this.config.serverPublicKey = keyPair.publicKey;
+      for (const peer of this.config.peers.values()) {
+        peer.serverPublicKey = previous.publicKey;
+      }
+      this.previousIdentity = previous;
+      this.useIdentitySlot(1 - previousSlot);
+
+      try {
+        await this.generateServerConfig();
+        await this.backend.interfaceDown(this.interfaceName, this.configPath).catch(() => {});
+        await this.backend.interfaceUp(this.interfaceName, this.configPath);
+      } catch (error) {
+        // Volver a la identidad anterior sin haber persistido nada
+        this.previousIdentity = undefined;
+        this.useIdentitySlot(previousSlot);
+        this.config.serverPrivateKey = previous.privateKey;
+        this.config.serverPublicKey = previous.publicKey;
+        stamps.forEach((stamp, peer) => { peer.serverPublicKey = stamp; });
+        await this.generateServerConfig();
+        throw new Error(`No se pudo levantar la nueva identidad del servidor: ${error}`);
+      }
+
+      await fs.writeFile(this.previousKeyPath(), previous.privateKey, { mode: 0o600 });
+      await this.saveServerKeys();
+      for (const peer of this.config.peers.values()) {
+        await this.peerStore.savePeer(peer);
+      }
+      await this.peerStore.setState('keyRotation', {
+        publicKey: previous.publicKey,
+        interfaceName: previous.interfaceName,
+        port: previous.port,
+        startedAt: previous.startedAt,
+        retireAt: previous.retireAt
+      });
+      await this.peerStore.setState('serverIdentitySlot', this.identitySlot);
+
+      // Firewall y límites de velocidad pasan a la interfaz nueva
+      await this.shaper.teardown(previous.interfaceName)
+        .catch(error => console.error('⚠️ Error retirando límites de velocidad:', error));
+      await this.setupFirewallRules();
+      await this.setupTrafficShaping();
+      this.scheduleKeyRetirement();
+
+      const status = this.getKeyRotationStatus();
+      console.log(
+        `🔑 Key del servidor rotada: nueva identidad en ${this.interfaceName} (puerto ${this.config.serverPort}), ` +
+        `la anterior se acepta hasta ${previous.retireAt.toISOString()}`
+      );
+      this.emit('key-rotation-started', status);
+      return status;
+    });
+  }
+
+  /**
+   * Dejar de aceptar la key anterior: baja su interfaz y la actual enruta toda la subred
+   */
+  async retirePreviousKey(): Promise<void> {
+    return this.serialize(async () => {
+      const previous = this.previousIdentity;
+      if (!previous) return;
+
+      this.previousIdentity = undefined;
+      if (this.retireTimer) {
+        clearTimeout(this.retireTimer);
+        this.retireTimer = undefined;
+      }
+
+      const previousPath = this.interfaceConfigPath(previous.interfaceName);
+      await this.backend.interfaceDown(previous.interfaceName, previousPath)
+        .catch(error => console.warn(`⚠️ Error bajando ${previous.interfaceName}:`, error));
+      await fs.unlink(previousPath).catch(() => {});
+      await fs.unlink(this.previousKeyPath()).catch(() => {});
+      await this.peerStore.setState('keyRotation', null);
+
+      for (const subnet of this.getClientSubnets()) {
+        await this.backend.addRoute(this.interfaceName, subnet)
+          .catch(error => console.error(`⚠️ Error enrutando ${subnet} por ${this.interfaceName}:`, error));
+      }
+      await this.generateServerConfig();
+      await this.setupFirewallRules();
+
+      const status = this.getKeyRotationStatus();
+      console.log(`✅ Key anterior del servidor retirada (${status.pendingPeers} dispositivos sin migrar)`);
+      this.emit('key-rotation-completed', status);
+    });
+  }
+
+  /**
+   * Programar la retirada de la key anterior (inmediata si ya venció)
+   */
+  private scheduleKeyRetirement(): void {
+    if (this.retireTimer) {
+      clearTimeout(this.retireTimer);
+      this.retireTimer = undefined;
+    }
+    if (!this.previousIdentity) return;
+
+    const remaining = this.previousIdentity.retireAt.getTime() - Date.now();
+    this.retireTimer = setTimeout(() => {
+      if (remaining > MAX_TIMER_MS) {
+        this.scheduleKeyRetirement();
+        return;
+      }
+      this.retirePreviousKey().catch(error => console.error('❌ Error retirando la key anterior del servidor:', error));
+    }, Math.min(Math.max(remaining, 0), MAX_TIMER_MS));
+  }
+
+  /**
+   * Estado de la rotación de la key del servidor
+   */
+  getKeyRotationStatus(): ServerKeyRotationStatus {
+    const previous = this.previousIdentity;
+
     return {
-      peers,
-      totalPeers: peers.length,
-      interface: this.interfaceName
+      active: !!previous,
+      currentPublicKey: this.config.serverPublicKey,
+      previousPublicKey: previous?.publicKey,
+      startedAt: previous?.startedAt,
+      retireAt: previous?.retireAt,
+      pendingPeers: Array.from(this.config.peers.values()).filter(peer => this.isConfigStale(peer)).length
     };
   }
 
+  /**
+   * Obtener estadísticas de conexiones desde `wg show <if> dump`
+   */
+  async getConnectionStats(): Promise<WireGuardStats> {
+    const collectedAt = new Date();
+
+    try {
+      const dump = parseWireGuardDump(await this.backend.dumpStats(this.interfaceName));
+      // Los peers que aún usan la key anterior están en su propia interfaz
+      let previousPeers: DumpPeer[] = [];
+      let error: string | undefined;
+      if (this.previousIdentity) {
+        try {
+          previousPeers = parseWireGuardDump(await this.backend.dumpStats(this.previousIdentity.interfaceName)).peers;
+        } catch (previousError) {
+          error = `${this.previousIdentity.interfaceName}: ${previousError instanceof Error ? previousError.message : previousError}`;
+        }
+      }
+      const peers = [...dump.peers, ...previousPeers]
+        .map(stat => this.toPeerStats(stat, collectedAt))
+        .filter((peer): peer is WireGuardPeer => !!peer);
+      const { capacity, allocated } = this.ipPool.getUsage();
+
+      return {
+        peers,
+        totalPeers: peers.length,
+        activePeers: peers.filter(peer => peer.connected).length,
+        interface: this.interfaceName,
+        listenPort: dump.interface?.listenPort,
+        serverLoad: capacity > 0 ? Math.round((allocated / capacity) * 100) : 0,
+        collectedAt,
+        error
+      };
+    } catch (error) {
+      return {
+        peers: [],
+        totalPeers: 0,
+        activePeers: 0,
+        interface: this.interfaceName,
+        serverLoad: 0,
+        collectedAt,
+        error: `${this.interfaceName}: ${error instanceof Error ? error.message : error}`
+      };
+    }
+  }
+
+  /**
+   * Combinar una línea del dump con el peer registrado (sin exponer keys privadas)
+   *
+   * Los peers de la interfaz que no figuran en el registro se omiten.
+   */
+  private toPeerStats(stat: DumpPeer, now: Date): WireGuardPeer | undefined {
+    const peer = this.findPeerByPublicKey(stat.publicKey);
+    if (!peer) return undefined;
+
+    const handshakeAge = now.getTime() / 1000 - stat.latestHandshake;
+
+    return {
+      userId: peer.userId,
+      deviceId: peer.deviceId || DEFAULT_DEVICE_ID,
+      deviceName: peer.deviceName,
+      platform: peer.platform,
+      publicKey: stat.publicKey,
+      allowedIPs: stat.allowedIPs.join(', ') || peer.allowedIPs,
+      endpoint: stat.endpoint,
+      lastHandshake: stat.latestHandshake > 0 ? new Date(stat.latestHandshake * 1000) : undefined,
+      latestHandshakeEpoch: stat.latestHandshake,
+      bytesReceived: stat.transferRx,
+      bytesSent: stat.transferTx,
+      persistentKeepalive: stat.persistentKeepalive,
+      plan: peer.plan || this.defaultPlan,
+      bandwidthLimit: this.shaper.getLimit(peerKey(peer.userId, peer.deviceId)),
+      connected: stat.latestHandshake > 0 && handshakeAge <= CONNECTED_HANDSHAKE_WINDOW_S
+    };
+  }
+
+  /**
+   * Buscar el peer (usuario/dispositivo) dueño de una public key
+   */
+  findPeerByPublicKey(publicKey: string): WireGuardPeer | undefined {
+    for (const peer of this.config.peers.values()) {
+      if (peer.publicKey === publicKey) return peer;
+    }
+    return undefined;
+  }
+
   /**
    * Verificar si está corriendo
    */
@@ -598,11 +2051,29 @@ PersistentKeepalive = 25`;
   /**
    * Obtener configuración del servidor
    */
-  getServerConfig(): { publicKey: string; address: string; port: number } {
+  getServerConfig(): {
+    publicKey: string;
+    address: string;
+    port: number;
+    ipv6: boolean;
+    keyRotation?: { previousPublicKey: string; retireAt: Date };
+  } {
     return {
       publicKey: this.config.serverPublicKey,
       address: this.config.serverAddress,
-      port: this.config.serverPort
+      port: this.config.serverPort,
+      ipv6: !!this.ipPool6,
+      keyRotation: this.previousIdentity
+        ? { previousPublicKey: this.previousIdentity.publicKey, retireAt: this.previousIdentity.retireAt }
+        : undefined
     };
   }
-} 
\ No newline at end of file
+} 
+/**
+ * La más temprana de dos fechas opcionales (sin fecha = sin límite)
+ */
+function earliestDate(a: Date | undefined, b: Date | undefined): Date | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a <= b ? a : b;
+}